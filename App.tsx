@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import type { Character, ImageFile, HistoryItem } from './types';
+import React, { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import type { AppTab, Character, GeneratedOutput, GenerationSettings, ImageFile, HistoryItem, LibraryCharacter, PromptTemplate, StoryboardScene } from './types';
 import { 
     getAspectRatioOptions, 
     getLightingStyleOptions, 
@@ -7,23 +7,104 @@ import {
     getNumberOfImagesOptions,
     getArtisticStyleOptions
 } from './constants';
-import { ImageUploader, parseDataUrl, resizeImage } from './components/ImageUploader';
+import { ImageUploader, parseDataUrl } from './components/ImageUploader';
 import { SelectInput } from './components/SelectInput';
 import { GeneratedImageDisplay } from './components/GeneratedImageDisplay';
-import { generateStoryImage } from './services/geminiService';
+import { DEFAULT_RETRY_OPTIONS } from './services/generationRequest';
+import { toGeneratedOutputs } from './services/geminiService';
+import { isCancellation, isGenerationError } from './services/generationErrors';
+import { createJobQueue, getJobConcurrency, isJobActive, setJobConcurrency } from './services/jobQueue';
+import type { Job } from './services/jobQueue';
+import { buildEditPrompt, buildOutpaintPrompt, buildScenePrompt, characterImagesOf, collectReferenceImages } from './services/promptBuilder';
+import type { SceneSpec } from './services/promptBuilder';
+import {
+    deletePromptTemplate,
+    findProjectTemplate,
+    getActiveTemplateId,
+    isTemplateValid,
+    loadPromptTemplates,
+    renderTemplate,
+    savePromptTemplate,
+    setActiveTemplateId as persistActiveTemplateId,
+    templateVariablesFromSpec,
+    validateTemplate,
+} from './services/promptTemplates';
 import { Modal } from './components/Modal';
+import { LineageTree } from './components/LineageTree';
+import { ComparisonViewer } from './components/ComparisonViewer';
+import { ExportDialog } from './components/ExportDialog';
+import type { ComparisonViewerProps } from './components/ComparisonViewer';
 import { EditableElementList } from './components/EditableElementList';
 import { HistoryPanel } from './components/HistoryPanel';
+import { PromptDiff } from './components/PromptDiff';
+import { MaskEditor } from './components/MaskEditor';
+import { OutpaintControls, buildOutpaintImages } from './components/OutpaintControls';
+import { StoryboardPanel } from './components/StoryboardPanel';
+import type { SceneGenerationStatus } from './components/StoryboardPanel';
+import { CharacterLibraryPanel } from './components/CharacterLibraryPanel';
+import { JobQueuePanel } from './components/JobQueuePanel';
+import { PromptTemplateManager, describeTemplateIssues } from './components/PromptTemplateManager';
+import { PROJECT_FILE_EXTENSION, parseProjectFile, projectFileName, serializeProject } from './services/projectFile';
+import type { ProjectState } from './services/projectFile';
+import { AUTOSAVE_DELAY_MS, clearSession, loadSession, saveSession } from './services/sessionStore';
+import type { SessionSnapshot, SessionState } from './services/sessionStore';
+import { canRedo, canUndo, createUndoHistory, recordChange, redo, undo } from './services/undoHistory';
+import type { UndoHistory } from './services/undoHistory';
+import type { OutpaintAmount, OutpaintDirection } from './services/outpaint';
+import { buildLineageTree, countLineageNodes } from './services/editLineage';
+import { buildExportZip, exportArchiveName } from './services/exportBundle';
+import type { ExportImage } from './services/exportBundle';
+import { APP_VERSION, metadataFromSettings, readImageMetadata } from './services/imageMetadata';
+import type { ImageMetadata } from './services/imageMetadata';
+import {
+    addHistoryEntry,
+    clearHistory,
+    deleteHistoryEntries,
+    getHistoryOriginal,
+    loadHistory,
+    loadHistoryInput,
+    persistEditSettings,
+    persistGenerateSettings,
+    restoreElements,
+    updateHistoryItem,
+} from './services/historyStore';
+import { deleteLibraryCharacter, libraryCharacterToElement, loadLibraryCharacters, saveLibraryCharacter } from './services/characterLibrary';
 import { useTranslation } from './contexts/LanguageContext';
 import { ProgressBar } from './components/ProgressBar';
 
+// Everything the user sets up in the Generate and Edit tabs; undo/redo steps through copies of it
+interface SceneInputs {
+    sceneDescription: string;
+    artisticStyle: string;
+    lightingStyle: string;
+    cameraPerspective: string;
+    aspectRatio: string;
+    numberOfImages: number;
+    characters: Character[];
+    additionalElements: Character[];
+    sceneLocationImage: ImageFile | null;
+    styleImage: ImageFile | null;
+    promptOverride: string | null;
+    editBaseImage: ImageFile | null;
+    editBaseHistoryId: string | null;
+    editMaskImage: ImageFile | null;
+    editAddChars: Character[];
+    editAddObjs: Character[];
+    standaloneEditPrompt: string;
+}
+
+// Text fields keep the browser's own undo while focused
+const isTextEntryTarget = (target: EventTarget | null): boolean =>
+    target instanceof HTMLElement && (target.isContentEditable || target.tagName === 'TEXTAREA'
+        || (target.tagName === 'INPUT' && !['checkbox', 'radio', 'range', 'file', 'button'].includes((target as HTMLInputElement).type)));
+
 // --- Helper Components (Moved Outside App) ---
 
 const TabButton: React.FC<{
-    tabName: 'generate' | 'edit';
+    tabName: AppTab;
     label: string;
-    activeTab: 'generate' | 'edit';
-    onClick: (tabName: 'generate' | 'edit') => void;
+    activeTab: AppTab;
+    onClick: (tabName: AppTab) => void;
 }> = ({ tabName, label, activeTab, onClick }) => (
      <button
         onClick={() => onClick(tabName)}
@@ -51,10 +132,29 @@ const SectionHeader: React.FC<{children: React.ReactNode}> = ({children}) => (
 );
 
 
-// --- Main App Component ---
+// Settings are best-effort: a storage failure must not lose the generated image itself.
+const captureSettings = async (persist: () => Promise<GenerationSettings>): Promise<GenerationSettings | undefined> => {
+    try {
+        return await persist();
+    } catch (error) {
+        console.error("Failed to record generation settings:", error);
+        return undefined;
+    }
+};
+
 
-const MAX_HISTORY_ITEMS = 10;
-const HISTORY_IMAGE_SIZE = 512; // Resize history images to save space
+// "Retrying in 2s (attempt 2 of 3)" for the progress bar, taken from the first job that is retrying
+const formatRetryStatus = (t: (key: string) => string, jobs: Job[]): string | null => {
+    const retry = jobs.find(job => job.status === 'running' && job.retry)?.retry;
+    if (!retry) return null;
+    return t('output.retrying')
+        .replace('{seconds}', (retry.delayMs / 1000).toFixed(1))
+        .replace('{attempt}', String(retry.attempt))
+        .replace('{max}', String(DEFAULT_RETRY_OPTIONS.maxAttempts));
+};
+
+
+// --- Main App Component ---
 
 const App: React.FC = () => {
     const { t, toggleLanguage, language } = useTranslation();
@@ -66,12 +166,31 @@ const App: React.FC = () => {
     const CAMERA_PERSPECTIVES = useMemo(() => getCameraPerspectiveOptions(t), [t]);
     const NUMBER_OF_IMAGES = useMemo(() => getNumberOfImagesOptions(t), [t]);
 
-    const [activeTab, setActiveTab] = useState<'generate' | 'edit'>('generate');
+    const [activeTab, setActiveTab] = useState<AppTab>('generate');
 
     // === COMMON STATE ===
     const [history, setHistory] = useState<HistoryItem[]>([]);
     const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState(false);
     const [viewingImage, setViewingImage] = useState<string | null>(null);
+    const [comparison, setComparison] = useState<ComparisonViewerProps | null>(null);
+    // The output being exported in another format or size, with the settings it was made with
+    const [exportTarget, setExportTarget] = useState<{ image: string; metadata: ImageMetadata } | null>(null);
+    const [libraryCharacters, setLibraryCharacters] = useState<LibraryCharacter[]>([]);
+    const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+    const [jobQueue] = useState(() => createJobQueue({ concurrency: getJobConcurrency() }));
+    const jobs = useSyncExternalStore(jobQueue.subscribe, jobQueue.getJobs);
+    const [jobConcurrency, setJobConcurrencyState] = useState<number>(() => jobQueue.getConcurrency());
+    const [isQueuePanelOpen, setIsQueuePanelOpen] = useState(false);
+    const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+    // null selects the built-in prompt builder
+    const [activeTemplateId, setActiveTemplateId] = useState<string | null>(getActiveTemplateId);
+    const [isTemplateManagerOpen, setIsTemplateManagerOpen] = useState(false);
+    const projectInputRef = useRef<HTMLInputElement>(null);
+    const metadataInputRef = useRef<HTMLInputElement>(null);
+    // Autosave stays off until the user has restored or discarded the previous session,
+    // so the blank start-up state never overwrites it
+    const [recoveredSession, setRecoveredSession] = useState<SessionSnapshot | null>(null);
+    const [isSessionChecked, setIsSessionChecked] = useState(false);
 
     // === GENERATE TAB STATE ===
     const [characters, setCharacters] = useState<Character[]>([
@@ -88,131 +207,270 @@ const App: React.FC = () => {
     const [cameraPerspective, setCameraPerspective] = useState<string>(CAMERA_PERSPECTIVES[0].value);
     const [numberOfImages, setNumberOfImages] = useState<number>(1);
     const [generatedPrompt, setGeneratedPrompt] = useState<string>('');
-    const [generatedImages, setGeneratedImages] = useState<string[]>([]);
-    const [genLoading, setGenLoading] = useState<boolean>(false);
-    const [genError, setGenError] = useState<string | null>(null);
+    // A hand-edited prompt replaces the auto-generated one until reset, even as controls change
+    const [promptOverride, setPromptOverride] = useState<string | null>(null);
+    const [showPromptDiff, setShowPromptDiff] = useState<boolean>(false);
+    const [generatedImages, setGeneratedImages] = useState<GeneratedOutput[]>([]);
+    // Jobs enqueued by the latest Generate click; their results fill the output panel
+    const [genBatchId, setGenBatchId] = useState<string | null>(null);
+    const latestGenBatchRef = useRef<string | null>(null);
+    const [genError, setGenError] = useState<Error | string | null>(null);
+    const [genErrorPrefix, setGenErrorPrefix] = useState<string | undefined>(undefined);
+
+    // === STORYBOARD TAB STATE ===
+    // Scenes share the Generate tab's cast, artistic style, aspect ratio and style reference.
+    const [storyboardScenes, setStoryboardScenes] = useState<StoryboardScene[]>([]);
+    const [sceneStatuses, setSceneStatuses] = useState<Record<string, SceneGenerationStatus>>({});
+    const [isGeneratingAllScenes, setIsGeneratingAllScenes] = useState<boolean>(false);
 
     // === EDIT TAB STATE ===
     const [editBaseImage, setEditBaseImage] = useState<ImageFile | null>(null);
+    // History item the base image came from; new edits are recorded as its children
+    const [editBaseHistoryId, setEditBaseHistoryId] = useState<string | null>(null);
+    const [editMaskImage, setEditMaskImage] = useState<ImageFile | null>(null);
+    const [isMaskEditorOpen, setIsMaskEditorOpen] = useState(false);
     const [editAddChars, setEditAddChars] = useState<Character[]>([]);
     const [editAddObjs, setEditAddObjs] = useState<Character[]>([]);
     const [standaloneEditPrompt, setStandaloneEditPrompt] = useState<string>('');
-    const [editedImage, setEditedImage] = useState<string | null>(null);
-    const [editLoading, setEditLoading] = useState<boolean>(false);
-    const [editError, setEditError] = useState<string | null>(null);
+    const [editedImages, setEditedImages] = useState<GeneratedOutput[]>([]);
+    const [editJobId, setEditJobId] = useState<string | null>(null);
+    const latestEditJobRef = useRef<string | null>(null);
+    const [editError, setEditError] = useState<Error | string | null>(null);
+    // The image the current edit results were made from, which can differ from editBaseImage by now
+    const [editResultBase, setEditResultBase] = useState<ImageFile | null>(null);
+    // 'outpaint' extends the base image onto a larger canvas instead of editing it in place
+    const [editMode, setEditMode] = useState<'edit' | 'outpaint'>('edit');
+    const [outpaintDirections, setOutpaintDirections] = useState<OutpaintDirection[]>(['left', 'right']);
+    const [outpaintAmount, setOutpaintAmount] = useState<OutpaintAmount>({ kind: 'ratio', ratio: '2.39:1' });
+
+    // === UNDO/REDO ===
+    const sceneInputs = useMemo((): SceneInputs => ({
+        sceneDescription,
+        artisticStyle,
+        lightingStyle,
+        cameraPerspective,
+        aspectRatio,
+        numberOfImages,
+        characters,
+        additionalElements,
+        sceneLocationImage,
+        styleImage,
+        promptOverride,
+        editBaseImage,
+        editBaseHistoryId,
+        editMaskImage,
+        editAddChars,
+        editAddObjs,
+        standaloneEditPrompt,
+    }), [sceneDescription, artisticStyle, lightingStyle, cameraPerspective, aspectRatio, numberOfImages, characters, additionalElements, sceneLocationImage, styleImage, promptOverride, editBaseImage, editBaseHistoryId, editMaskImage, editAddChars, editAddObjs, standaloneEditPrompt]);
+    const [undoHistory, setUndoHistory] = useState<UndoHistory<SceneInputs>>(() => createUndoHistory(sceneInputs));
     
     // === DERIVED STATE ===
+    const genBatchJobs = useMemo(() => jobs.filter(job => genBatchId !== null && job.batchId === genBatchId), [jobs, genBatchId]);
+    const genLoading = genBatchJobs.some(isJobActive);
+    const genRetryStatus = formatRetryStatus(t, genBatchJobs);
+    const editJobs = useMemo(() => jobs.filter(job => job.id === editJobId), [jobs, editJobId]);
+    const editLoading = editJobs.some(isJobActive);
+    const editRetryStatus = formatRetryStatus(t, editJobs);
+    const activeJobCount = jobs.filter(isJobActive).length;
+    // A safety block points at the text the user wrote, so that field is highlighted
+    const isPromptBlocked = isGenerationError(genError) && genError.code === 'safetyBlocked';
+    const isEditInstructionBlocked = isGenerationError(editError) && editError.code === 'safetyBlocked';
     const hasSceneDescription = sceneDescription.trim() !== '';
     const hasCharacterImage = characters.some(c => c.image !== null);
     const hasElementImage = additionalElements.some(e => e.image !== null);
     const hasLocationImage = sceneLocationImage !== null;
-    const isGenerationDisabled = !(hasSceneDescription || hasCharacterImage || hasElementImage || hasLocationImage) || genLoading;
-    const isEditDisabled = !editBaseImage || standaloneEditPrompt.trim() === '' || editLoading;
+    const effectivePrompt = promptOverride ?? generatedPrompt;
+    const activeTemplate = useMemo(() => promptTemplates.find(tpl => tpl.id === activeTemplateId) ?? null, [promptTemplates, activeTemplateId]);
+    const generateSceneSpec = useMemo((): SceneSpec => ({
+        artisticStyle,
+        sceneDescription,
+        cameraPerspective,
+        aspectRatio,
+        lightingStyle,
+        characters,
+        objects: additionalElements,
+        hasLocationImage: sceneLocationImage !== null,
+        hasStyleImage: styleImage !== null,
+    }), [artisticStyle, sceneDescription, cameraPerspective, aspectRatio, lightingStyle, characters, additionalElements, sceneLocationImage, styleImage]);
+    const templateOptions = useMemo(() => [
+        { value: '', label: t('templates.builtIn') },
+        ...promptTemplates.map(tpl => ({ value: tpl.id, label: tpl.name })),
+    ], [promptTemplates, t]);
+    const templateVariables = useMemo(() => templateVariablesFromSpec(generateSceneSpec), [generateSceneSpec]);
+    const isGenerationDisabled = !(hasSceneDescription || hasCharacterImage || hasElementImage || hasLocationImage) || effectivePrompt.trim() === '';
+    // Outpainting can run without an instruction; the model just continues the scene
+    const isEditDisabled = !editBaseImage || (editMode === 'outpaint' ? outpaintDirections.length === 0 : standaloneEditPrompt.trim() === '');
 
     // === EFFECTS ===
     
-    // Load history from local storage on mount
+    // Load history from IndexedDB on mount (migrating any localStorage entries first)
     useEffect(() => {
-        try {
-            const storedHistory = localStorage.getItem('generationHistory');
-            if (storedHistory) {
-                const parsedHistory: HistoryItem[] = JSON.parse(storedHistory);
-                if (Array.isArray(parsedHistory)) {
-                    // Enforce limit on loaded history to prevent issues
-                    setHistory(parsedHistory.slice(0, MAX_HISTORY_ITEMS));
-                }
-            }
-        } catch (error) {
-            console.error("Failed to load history from local storage:", error);
-            localStorage.removeItem('generationHistory');
-        }
+        loadHistory()
+            .then(setHistory)
+            .catch(error => console.error("Failed to load history:", error));
     }, []);
 
-    // Save history to local storage whenever it changes
+    // Load the character library from IndexedDB on mount
     useEffect(() => {
-        try {
-            if (history.length > 0) {
-              localStorage.setItem('generationHistory', JSON.stringify(history));
-            } else {
-              localStorage.removeItem('generationHistory');
-            }
-        } catch (error) {
-            console.error("Failed to save history to local storage:", error);
-        }
-    }, [history]);
+        loadLibraryCharacters()
+            .then(setLibraryCharacters)
+            .catch(error => console.error("Failed to load character library:", error));
+    }, []);
 
-    // Prompt generator for the "Generate" tab
+    // Abort anything still queued or in flight when the app unmounts
+    useEffect(() => () => {
+        jobQueue.getJobs().filter(isJobActive).forEach(job => jobQueue.cancel(job.id));
+    }, [jobQueue]);
+
+    // Load saved prompt templates from IndexedDB on mount
     useEffect(() => {
-        if (activeTab !== 'generate') return;
+        loadPromptTemplates()
+            .then(setPromptTemplates)
+            .catch(error => console.error("Failed to load prompt templates:", error));
+    }, []);
 
-        const characterNames = characters
-            .filter(c => c.image !== null && c.name.trim() !== '')
-            .map(c => `(${c.name.trim()})`)
-            .join(', ');
+    // Every change to the scene inputs becomes an undo step; applying a step is equal to the present, so it records nothing
+    useEffect(() => {
+        setUndoHistory(prev => recordChange(prev, sceneInputs));
+    }, [sceneInputs]);
 
-        const elementNames = additionalElements
-            .filter(e => e.image !== null && e.name.trim() !== '')
-            .map(e => `(${e.name.trim()})`)
-            .join(', ');
-            
-        const promptParts: string[] = [];
+    const applySceneInputs = useCallback((inputs: SceneInputs) => {
+        setSceneDescription(inputs.sceneDescription);
+        setArtisticStyle(inputs.artisticStyle);
+        setLightingStyle(inputs.lightingStyle);
+        setCameraPerspective(inputs.cameraPerspective);
+        setAspectRatio(inputs.aspectRatio);
+        setNumberOfImages(inputs.numberOfImages);
+        setCharacters(inputs.characters);
+        setAdditionalElements(inputs.additionalElements);
+        setSceneLocationImage(inputs.sceneLocationImage);
+        setStyleImage(inputs.styleImage);
+        setPromptOverride(inputs.promptOverride);
+        setEditBaseImage(inputs.editBaseImage);
+        setEditBaseHistoryId(inputs.editBaseHistoryId);
+        setEditMaskImage(inputs.editMaskImage);
+        setEditAddChars(inputs.editAddChars);
+        setEditAddObjs(inputs.editAddObjs);
+        setStandaloneEditPrompt(inputs.standaloneEditPrompt);
+    }, []);
 
-        // 1. Core Request & Style
-        promptParts.push(`Generate a cinematic image in a ${artisticStyle} style.`);
+    const handleUndo = useCallback(() => {
+        if (!canUndo(undoHistory)) return;
+        const next = undo(undoHistory);
+        setUndoHistory(next);
+        applySceneInputs(next.present);
+    }, [undoHistory, applySceneInputs]);
 
-        // 2. Scene Description
-        if (sceneDescription) {
-            promptParts.push(`The scene is: ${sceneDescription}.`);
-        }
+    const handleRedo = useCallback(() => {
+        if (!canRedo(undoHistory)) return;
+        const next = redo(undoHistory);
+        setUndoHistory(next);
+        applySceneInputs(next.present);
+    }, [undoHistory, applySceneInputs]);
 
-        // 3. Composition & Framing
-        promptParts.push(`Use a ${cameraPerspective} with a ${aspectRatio} aspect ratio.`);
-        
-        // 4. Lighting
-        promptParts.push(`The lighting is ${lightingStyle}.`);
-
-        // 5. Content & Integration
-        const characterIntegration = characterNames ? `Integrate the characters ${characterNames} from their reference images.` : '';
-        const elementIntegration = elementNames ? `Integrate the objects ${elementNames} from their reference images.` : '';
-        const locationIntegration = sceneLocationImage ? 'Use the provided "Scene Location" image as the background environment.' : '';
-        
-        const integrationInstructions = [characterIntegration, elementIntegration, locationIntegration].filter(Boolean).join(' ');
-        if (integrationInstructions) {
-            promptParts.push(integrationInstructions);
-        }
-        
-        // 6. Style Image
-        if (styleImage) {
-            promptParts.push('Use the "Style Reference" image to influence the overall visual style and color palette.');
-        }
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), plus Ctrl+Y for redo
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntryTarget(e.target)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [handleUndo, handleRedo]);
 
-        // 7. Critical Transparency Instruction
-        if (hasCharacterImage || hasElementImage) {
-            promptParts.push(`CRITICAL INSTRUCTION: For any reference images with transparent padding, you must fill these transparent areas by extending the generated scene into them. The final image must be a complete, seamless scene from edge to edge. DO NOT render black bars, borders, letterboxing, or pillarboxing. The subjects from the reference images must be perfectly and naturally integrated into the new environment.`);
-        }
-        
-        const newPrompt = promptParts.filter(p => p).join(' ');
-        setGeneratedPrompt(newPrompt);
+    // Look for an autosaved session from a tab that was closed mid-work
+    useEffect(() => {
+        loadSession()
+            .then(setRecoveredSession)
+            .catch(error => console.error("Failed to load the previous session:", error))
+            .finally(() => setIsSessionChecked(true));
+    }, []);
 
-    }, [characters, additionalElements, sceneDescription, aspectRatio, artisticStyle, lightingStyle, cameraPerspective, styleImage, sceneLocationImage, activeTab, hasCharacterImage, hasElementImage]);
+    // Autosave both tabs' working state shortly after the last change
+    useEffect(() => {
+        if (!isSessionChecked || recoveredSession) return;
+        const session: SessionState = {
+            generate: {
+                sceneDescription,
+                artisticStyle,
+                lightingStyle,
+                cameraPerspective,
+                aspectRatio,
+                numberOfImages,
+                characters,
+                objects: additionalElements,
+                locationImage: sceneLocationImage,
+                styleImage,
+                promptOverride,
+                activeTemplateId,
+                activeTemplate: activeTemplate && { name: activeTemplate.name, body: activeTemplate.body },
+                outputs: generatedImages,
+            },
+            edit: {
+                instruction: standaloneEditPrompt,
+                baseImage: editBaseImage,
+                baseHistoryId: editBaseHistoryId,
+                maskImage: editMaskImage,
+                characters: editAddChars,
+                objects: editAddObjs,
+                outputs: editedImages,
+            },
+        };
+        const timer = setTimeout(() => {
+            saveSession(session).catch(error => console.error("Failed to autosave the session:", error));
+        }, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [isSessionChecked, recoveredSession, sceneDescription, artisticStyle, lightingStyle, cameraPerspective, aspectRatio, numberOfImages, characters, additionalElements, sceneLocationImage, styleImage, promptOverride, activeTemplateId, activeTemplate, generatedImages, standaloneEditPrompt, editBaseImage, editBaseHistoryId, editMaskImage, editAddChars, editAddObjs, editedImages]);
+
+    // The active template, if any, replaces the built-in sentence order
+    const composeScenePrompt = useCallback((spec: SceneSpec): string => {
+        return activeTemplate ? renderTemplate(activeTemplate.body, templateVariablesFromSpec(spec)) : buildScenePrompt(spec);
+    }, [activeTemplate]);
+
+    // Returns a message when the active template cannot be rendered for this scene, so no request is sent
+    const checkActiveTemplate = useCallback((spec: SceneSpec): string | null => {
+        if (!activeTemplate) return null;
+        const validation = validateTemplate(activeTemplate.body, templateVariablesFromSpec(spec));
+        if (isTemplateValid(validation)) return null;
+        return [t('templates.invalid').replace('{name}', activeTemplate.name), ...describeTemplateIssues(validation, t)].join(' ');
+    }, [activeTemplate, t]);
+
+    // Prompt generator for the "Generate" tab
+    useEffect(() => {
+        if (activeTab !== 'generate') return;
+
+        setGeneratedPrompt(composeScenePrompt(generateSceneSpec));
+
+    }, [generateSceneSpec, composeScenePrompt, activeTab]);
 
     // === HANDLERS ===
     
-    const handleAddToHistory = useCallback(async (image: string, prompt: string, type: 'gen' | 'edit') => {
+    const handleAddToHistory = useCallback(async (output: GeneratedOutput, prompt: string, type: 'gen' | 'edit', settings?: GenerationSettings, parentId?: string): Promise<HistoryItem | null> => {
         try {
-            const resizedImage = await resizeImage(image, HISTORY_IMAGE_SIZE);
-            const newHistoryItem: HistoryItem = {
-                id: `${type}-${Date.now()}`,
-                image: parseDataUrl(resizedImage),
-                prompt: prompt,
-                createdAt: new Date().toISOString(),
-            };
-            setHistory(prev => [newHistoryItem, ...prev].slice(0, MAX_HISTORY_ITEMS));
+            const { item, evictedIds } = await addHistoryEntry(output.image, prompt, type, settings, output.commentary, parentId);
+            setHistory(prev => [item, ...prev.filter(h => !evictedIds.includes(h.id))]);
+            return item;
         } catch (error) {
-            console.error("Failed to parse or resize image for history:", error);
+            console.error("Failed to save image to history:", error);
+            return null;
         }
     }, []);
 
+    // A mask only makes sense for the image it was painted on. Uploads start a new edit chain.
+    const handleEditBaseImageChange = useCallback((image: ImageFile | null, historyId: string | null = null) => {
+        setEditBaseImage(image);
+        setEditBaseHistoryId(image ? historyId : null);
+        setEditMaskImage(null);
+    }, []);
+
     const handleReorder = <T,>(
         list: T[],
         setList: React.Dispatch<React.SetStateAction<T[]>>,
@@ -229,92 +487,719 @@ const App: React.FC = () => {
     const handleGenerateClick = useCallback(async () => {
         if (isGenerationDisabled) return;
 
-        setGenLoading(true);
+        // A hand-edited prompt no longer depends on the template
+        const templateError = promptOverride === null ? checkActiveTemplate(generateSceneSpec) : null;
+        if (templateError) {
+            setGenError(templateError);
+            setGeneratedImages([]);
+            return;
+        }
+
+        const batchId = `batch-${Date.now()}`;
+        latestGenBatchRef.current = batchId;
+        setGenBatchId(batchId);
         setGenError(null);
+        setGenErrorPrefix(undefined);
         setGeneratedImages([]);
 
-        const characterImages = characters.map(c => c.image).filter((img): img is ImageFile => img !== null);
-        const elementImages = additionalElements.map(e => e.image).filter((img): img is ImageFile => img !== null);
-        const locationImage = sceneLocationImage ? [sceneLocationImage] : [];
-        
+        const referenceImages = collectReferenceImages(sceneLocationImage, characters, additionalElements);
+
+        // Settings are recorded once, when the first image succeeds
+        let settingsPromise: Promise<GenerationSettings | undefined> | null = null;
+        const recordSettings = () => settingsPromise ??= captureSettings(() => persistGenerateSettings({
+            sceneDescription,
+            artisticStyle,
+            lightingStyle,
+            cameraPerspective,
+            aspectRatio,
+            characters,
+            objects: additionalElements,
+            locationImage: sceneLocationImage,
+            styleImage,
+            promptOverride,
+        }));
+
+        // One job per image, so each finished image is shown and saved even if others fail.
+        // Results still go to history once a newer batch has taken over the output panel.
+        const outcomes = Array.from({ length: numberOfImages }, () =>
+            jobQueue.enqueue({
+                kind: 'generate',
+                label: effectivePrompt,
+                params: { prompt: effectivePrompt, characterImages: referenceImages, styleImage },
+                batchId,
+            }).result.then(async result => {
+                const outputs = toGeneratedOutputs(result);
+                if (latestGenBatchRef.current === batchId) {
+                    setGeneratedImages(prev => [...prev, ...outputs]);
+                }
+                const settings = await recordSettings();
+                const items = await Promise.all(outputs.map(output => handleAddToHistory(output, effectivePrompt, 'gen', settings)));
+                // The history ids let a bulk export include each image's prompt and parameters
+                if (latestGenBatchRef.current === batchId) {
+                    setGeneratedImages(prev => prev.map(output => {
+                        const item = items[outputs.findIndex(o => o.image === output.image)];
+                        return item ? { ...output, historyId: item.id } : output;
+                    }));
+                }
+            })
+        );
+
+        const results = await Promise.allSettled(outcomes);
+        if (latestGenBatchRef.current !== batchId) return;
+
+        // Cancelled images are not failures; finished ones stay on screen
+        const failures = results.flatMap(r => r.status === 'rejected' && !isCancellation(r.reason) ? [r.reason] : []);
+        if (failures.length > 0) {
+            setGenError(failures[0] instanceof Error ? failures[0] : 'An unknown error occurred.');
+            if (failures.length < results.length) {
+                setGenErrorPrefix(t('output.partialFailure').replace('{failed}', String(failures.length)).replace('{total}', String(results.length)));
+            }
+        }
+    }, [effectivePrompt, promptOverride, checkActiveTemplate, generateSceneSpec, characters, additionalElements, styleImage, sceneLocationImage, sceneDescription, artisticStyle, lightingStyle, cameraPerspective, aspectRatio, isGenerationDisabled, numberOfImages, handleAddToHistory, jobQueue, t]);
+
+    const handleCancelGeneration = () => {
+        genBatchJobs.filter(isJobActive).forEach(job => jobQueue.cancel(job.id));
+    };
+    
+    // Handlers for STORYBOARD tab
+    const handleAddScene = () => {
+        setStoryboardScenes(prev => [...prev, {
+            id: `scene-${Date.now()}`,
+            description: '',
+            locationImage: null,
+            lightingStyle: LIGHTING_STYLES[0].value,
+            cameraPerspective: CAMERA_PERSPECTIVES[0].value,
+            outputs: [],
+            pinnedOutputIndex: null,
+        }]);
+    };
+
+    const handleUpdateScene = (id: string, changes: Partial<StoryboardScene>) => {
+        setStoryboardScenes(prev => prev.map(scene => scene.id === id ? { ...scene, ...changes } : scene));
+    };
+
+    const handleRemoveScene = (id: string) => {
+        setStoryboardScenes(prev => prev.filter(scene => scene.id !== id));
+        setSceneStatuses(prev => {
+            const { [id]: _removed, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    const handleMoveScene = (startIndex: number, endIndex: number) => {
+        if (endIndex < 0 || endIndex >= storyboardScenes.length) return;
+        handleReorder(storyboardScenes, setStoryboardScenes, startIndex, endIndex);
+    };
+
+    const generateScene = useCallback(async (scene: StoryboardScene) => {
+        const spec: SceneSpec = {
+            artisticStyle,
+            sceneDescription: scene.description,
+            cameraPerspective: scene.cameraPerspective,
+            aspectRatio,
+            lightingStyle: scene.lightingStyle,
+            characters,
+            objects: additionalElements,
+            hasLocationImage: scene.locationImage !== null,
+            hasStyleImage: styleImage !== null,
+        };
+        const templateError = checkActiveTemplate(spec);
+        if (templateError) {
+            setSceneStatuses(prev => ({ ...prev, [scene.id]: { isLoading: false, error: templateError } }));
+            return;
+        }
+
+        setSceneStatuses(prev => ({ ...prev, [scene.id]: { isLoading: true, error: null } }));
+        const prompt = composeScenePrompt(spec);
+
         try {
-            const generationPromises = Array.from({ length: numberOfImages }, () => 
-                generateStoryImage({
-                    prompt: generatedPrompt,
-                    characterImages: [...locationImage, ...characterImages, ...elementImages],
+            const result = await jobQueue.enqueue({
+                kind: 'generate',
+                label: prompt,
+                params: {
+                    prompt,
+                    characterImages: collectReferenceImages(scene.locationImage, characters, additionalElements),
                     styleImage,
-                })
-            );
+                },
+            }).result;
+            setStoryboardScenes(prev => prev.map(s => s.id === scene.id ? { ...s, outputs: [...s.outputs, ...result.images] } : s));
+            setSceneStatuses(prev => ({ ...prev, [scene.id]: { isLoading: false, error: null } }));
+            const settings = await captureSettings(() => persistGenerateSettings({
+                sceneDescription: scene.description,
+                artisticStyle,
+                lightingStyle: scene.lightingStyle,
+                cameraPerspective: scene.cameraPerspective,
+                aspectRatio,
+                characters,
+                objects: additionalElements,
+                locationImage: scene.locationImage,
+                styleImage,
+                promptOverride: null,
+            }));
+            toGeneratedOutputs(result).forEach(output => handleAddToHistory(output, prompt, 'gen', settings));
+        } catch (err: unknown) {
+            const error = isCancellation(err) ? null : err instanceof Error ? err : 'An unknown error occurred.';
+            setSceneStatuses(prev => ({ ...prev, [scene.id]: { isLoading: false, error } }));
+        }
+    }, [artisticStyle, aspectRatio, characters, additionalElements, styleImage, checkActiveTemplate, composeScenePrompt, handleAddToHistory, jobQueue]);
 
-            const results = await Promise.all(generationPromises);
+    const handleGenerateScene = (id: string) => {
+        const scene = storyboardScenes.find(s => s.id === id);
+        if (scene) generateScene(scene);
+    };
 
-            setGeneratedImages(results);
-            
-            results.forEach(resultImage => {
-                handleAddToHistory(resultImage, generatedPrompt, 'gen');
-            });
-        } catch (err: unknown) {
-            setGenError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    // All scenes are queued at once; the queue's concurrency cap keeps them within API rate limits
+    const handleGenerateAllScenes = async () => {
+        setIsGeneratingAllScenes(true);
+        try {
+            await Promise.all(storyboardScenes.map(generateScene));
         } finally {
-            setGenLoading(false);
+            setIsGeneratingAllScenes(false);
         }
-    }, [generatedPrompt, characters, additionalElements, styleImage, sceneLocationImage, isGenerationDisabled, numberOfImages, handleAddToHistory]);
-    
+    };
+
+    const handlePinSceneOutput = (id: string, outputIndex: number | null) => {
+        handleUpdateScene(id, { pinnedOutputIndex: outputIndex });
+    };
+
     // Handlers for EDIT tab
      const handleApplyStandaloneEdit = useCallback(async () => {
-        if (isEditDisabled) return;
+        if (isEditDisabled || !editBaseImage) return;
 
-        setEditLoading(true);
         setEditError(null);
-        setEditedImage(null);
-
-        const characterImages = editAddChars.map(c => c.image).filter((img): img is ImageFile => img !== null);
-        const elementImages = editAddObjs.map(o => o.image).filter((img): img is ImageFile => img !== null);
-        const charNames = editAddChars.filter(c => c.image).map(c => `(${c.name})`).join(', ');
-        const objNames = editAddObjs.filter(o => o.image).map(o => `(${o.name})`).join(', ');
+        setEditedImages([]);
+        const parentId = editBaseHistoryId ?? undefined;
 
-        let prompt = `Apply this edit to the base image: ${standaloneEditPrompt}.`;
-        if(charNames) prompt += ` Use the provided reference images for these characters: ${charNames}.`;
-        if(objNames) prompt += ` Use the provided reference images for these objects: ${objNames}.`;
+        // In outpaint mode the padded image and its generated mask stand in for the user's own
+        let baseImage = editBaseImage;
+        let maskImage = editMaskImage;
+        let prompt: string;
+        if (editMode === 'outpaint') {
+            try {
+                ({ image: baseImage, mask: maskImage } = await buildOutpaintImages(editBaseImage, outpaintDirections, outpaintAmount));
+            } catch (err) {
+                setEditError(err instanceof Error ? err : 'An unknown error occurred.');
+                return;
+            }
+            prompt = buildOutpaintPrompt({
+                instruction: standaloneEditPrompt,
+                characters: editAddChars,
+                objects: editAddObjs,
+                directions: outpaintDirections,
+            });
+        } else {
+            prompt = buildEditPrompt({
+                instruction: standaloneEditPrompt,
+                characters: editAddChars,
+                objects: editAddObjs,
+                hasMask: editMaskImage !== null,
+            });
+        }
 
-        try {
-            const resultImage = await generateStoryImage({
+        const characterImages = editAddChars.flatMap(characterImagesOf);
+        const elementImages = editAddObjs.flatMap(characterImagesOf);
+        const { id, result } = jobQueue.enqueue({
+            kind: 'edit',
+            label: standaloneEditPrompt || t('edit.outpaint.jobLabel'),
+            params: {
                 prompt: prompt,
                 characterImages: [...characterImages, ...elementImages],
                 styleImage: null,
-                baseImage: editBaseImage,
-            });
-            setEditedImage(resultImage);
-            handleAddToHistory(resultImage, prompt, 'edit');
+                baseImage,
+                maskImage,
+            },
+        });
+        latestEditJobRef.current = id;
+        setEditJobId(id);
+
+        try {
+            const outputs = toGeneratedOutputs(await result);
+            if (latestEditJobRef.current === id) {
+                setEditedImages(outputs);
+                setEditResultBase(baseImage);
+            }
+            const settings = await captureSettings(() => persistEditSettings({
+                instruction: standaloneEditPrompt,
+                baseImage,
+                maskImage,
+                characters: editAddChars,
+                objects: editAddObjs,
+            }));
+            const items = await Promise.all(outputs.map(output => handleAddToHistory(output, prompt, 'edit', settings, parentId)));
+            // Results need their history ids before they can be continued from as part of the chain
+            if (latestEditJobRef.current === id) {
+                setEditedImages(prev => prev.map((output, index) =>
+                    output.image === outputs[index]?.image && items[index] ? { ...output, historyId: items[index].id } : output));
+            }
         } catch (err: unknown) {
-            setEditError(err instanceof Error ? err.message : 'An unknown error occurred.');
-        } finally {
-            setEditLoading(false);
+            if (latestEditJobRef.current === id && !isCancellation(err)) {
+                setEditError(err instanceof Error ? err : 'An unknown error occurred.');
+            }
+        }
+    }, [editBaseImage, editBaseHistoryId, editMaskImage, standaloneEditPrompt, editAddChars, editAddObjs, editMode, outpaintDirections, outpaintAmount, isEditDisabled, handleAddToHistory, jobQueue, t]);
+
+    // The result becomes the new base; the next edit is recorded as its child in the chain
+    const handleContinueFromOutput = (output: GeneratedOutput) => {
+        try {
+            handleEditBaseImageChange(parseDataUrl(output.image), output.historyId ?? null);
+        } catch (error) {
+            console.error("Failed to use the result as the new base image:", error);
+        }
+    };
+
+    // Jumping to an older version and editing it forks a new branch from there
+    const handleSelectLineageNode = async (item: HistoryItem) => {
+        handleEditBaseImageChange(await loadHistoryImage(item), item.id);
+    };
+
+    const editLineage = useMemo(
+        () => editBaseHistoryId ? buildLineageTree(history, editBaseHistoryId) : null,
+        [history, editBaseHistoryId]
+    );
+
+    const editComparisonBase = editResultBase ?? editBaseImage;
+    const handleCompareEditOutput = (image: string) => {
+        if (!editComparisonBase) return;
+        setViewingImage(null);
+        setComparison({
+            before: `data:${editComparisonBase.mimeType};base64,${editComparisonBase.base64}`,
+            after: image,
+            beforeLabel: t('comparison.original'),
+            afterLabel: t('comparison.result'),
+        });
+    };
+
+    const handleCancelEdit = () => {
+        if (editJobId) jobQueue.cancel(editJobId);
+    };
+
+    // Handlers for JOB QUEUE
+    const handleJobConcurrencyChange = (concurrency: number) => {
+        jobQueue.setConcurrency(concurrency);
+        setJobConcurrency(concurrency);
+        setJobConcurrencyState(jobQueue.getConcurrency());
+    };
+
+    // Handlers for CHARACTER LIBRARY
+    const handleSaveLibraryCharacter = async (character: LibraryCharacter) => {
+        try {
+            await saveLibraryCharacter(character);
+            setLibraryCharacters(prev => [...prev.filter(c => c.id !== character.id), character].sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (error) {
+            console.error("Failed to save character to library:", error);
         }
-    }, [editBaseImage, standaloneEditPrompt, editAddChars, editAddObjs, isEditDisabled, handleAddToHistory]);
+    };
+
+    const handleDeleteLibraryCharacter = async (id: string) => {
+        try {
+            await deleteLibraryCharacter(id);
+            setLibraryCharacters(prev => prev.filter(c => c.id !== id));
+        } catch (error) {
+            console.error("Failed to delete character from library:", error);
+        }
+    };
+
+    const addFromLibrary = (setList: React.Dispatch<React.SetStateAction<Character[]>>) => (libraryId: string) => {
+        const character = libraryCharacters.find(c => c.id === libraryId);
+        if (character) {
+            setList(prev => [...prev, libraryCharacterToElement(character)]);
+        }
+    };
+
+    // "Add to scene" targets the character list of whichever tab is open
+    const handleAddLibraryCharacterToScene = (character: LibraryCharacter) => {
+        const setList = activeTab === 'edit' ? setEditAddChars : setCharacters;
+        setList(prev => [...prev, libraryCharacterToElement(character)]);
+    };
+
+    // Handlers for PROMPT TEMPLATES
+    const handleSelectTemplate = (id: string | null) => {
+        setActiveTemplateId(id);
+        persistActiveTemplateId(id);
+    };
+
+    const handleSavePromptTemplate = async (template: PromptTemplate) => {
+        try {
+            await savePromptTemplate(template);
+            setPromptTemplates(prev => [...prev.filter(tpl => tpl.id !== template.id), template].sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (error) {
+            console.error("Failed to save prompt template:", error);
+        }
+    };
+
+    const handleDeletePromptTemplate = async (id: string) => {
+        try {
+            await deletePromptTemplate(id);
+            setPromptTemplates(prev => prev.filter(tpl => tpl.id !== id));
+            if (activeTemplateId === id) handleSelectTemplate(null);
+        } catch (error) {
+            console.error("Failed to delete prompt template:", error);
+        }
+    };
+
+    const handleImportPromptTemplates = async (templates: PromptTemplate[]) => {
+        for (const template of templates) {
+            await handleSavePromptTemplate(template);
+        }
+    };
+
+    // Handlers for PROJECT FILES
+    const handleExportProject = () => {
+        const json = serializeProject({
+            sceneDescription,
+            artisticStyle,
+            lightingStyle,
+            cameraPerspective,
+            aspectRatio,
+            numberOfImages,
+            characters,
+            objects: additionalElements,
+            locationImage: sceneLocationImage,
+            styleImage,
+            promptOverride,
+            activeTemplateId,
+            activeTemplate: activeTemplate && { name: activeTemplate.name, body: activeTemplate.body },
+            outputs: generatedImages,
+        });
+        const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = projectFileName(sceneDescription);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImportProjectFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        let project: ProjectState;
+        try {
+            project = parseProjectFile(await file.text());
+        } catch (error) {
+            console.error("Failed to open project file:", error);
+            alert(`${t('project.importFailed')}\n\n${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        if (!window.confirm(t('project.replaceConfirm'))) return;
+        applyGenerateState(project);
+        setActiveTab('generate');
+    };
+
+    // Restores the Generate tab settings recorded in an image downloaded from this app
+    const handleImportFromImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        let metadata: ImageMetadata | null;
+        try {
+            metadata = readImageMetadata(new Uint8Array(await file.arrayBuffer()));
+        } catch (error) {
+            console.error("Failed to read image file:", error);
+            metadata = null;
+        }
+        if (!metadata) {
+            alert(t('metadata.notFound'));
+            return;
+        }
+        setSceneDescription(metadata.sceneDescription);
+        if (metadata.artisticStyle) setArtisticStyle(metadata.artisticStyle);
+        if (metadata.lightingStyle) setLightingStyle(metadata.lightingStyle);
+        if (metadata.cameraPerspective) setCameraPerspective(metadata.cameraPerspective);
+        if (metadata.aspectRatio) setAspectRatio(metadata.aspectRatio);
+        // Without Generate settings the exact prompt is the only way to reproduce the image
+        setPromptOverride((metadata.tab === 'generate' ? metadata.promptOverride : metadata.prompt) || null);
+        setActiveTab('generate');
+    };
+
+    const applyGenerateState = (project: ProjectState) => {
+        // Results from a batch started before the state was replaced no longer belong in the output panel
+        latestGenBatchRef.current = null;
+        setGenBatchId(null);
+        setGenError(null);
+        setGenErrorPrefix(undefined);
+        setSceneDescription(project.sceneDescription);
+        setArtisticStyle(project.artisticStyle);
+        setLightingStyle(project.lightingStyle);
+        setCameraPerspective(project.cameraPerspective);
+        setAspectRatio(project.aspectRatio);
+        setNumberOfImages(project.numberOfImages);
+        setCharacters(project.characters);
+        setAdditionalElements(project.objects);
+        setSceneLocationImage(project.locationImage);
+        setStyleImage(project.styleImage);
+        setPromptOverride(project.promptOverride);
+        setGeneratedImages(project.outputs);
+        applyProjectTemplate(project).catch(error => {
+            console.error("Failed to restore the project's prompt template:", error);
+            handleSelectTemplate(null);
+            alert(t('project.templateMissing'));
+        });
+    };
+
+    // Selects the project's template, re-creating it from the saved copy when this browser lacks it
+    const applyProjectTemplate = async (project: ProjectState) => {
+        // Read from the database, as the templates may not have reached state yet
+        let template = findProjectTemplate(await loadPromptTemplates(), project.activeTemplateId, project.activeTemplate);
+        if (!template && project.activeTemplate) {
+            const created: PromptTemplate = { id: `template-${Date.now()}`, ...project.activeTemplate, updatedAt: new Date().toISOString() };
+            await savePromptTemplate(created);
+            setPromptTemplates(prev => [...prev.filter(tpl => tpl.id !== created.id), created].sort((a, b) => a.name.localeCompare(b.name)));
+            template = created;
+        }
+        if (!template && project.activeTemplateId) {
+            // Older projects only kept the id, which means nothing in another browser
+            alert(t('project.templateMissing'));
+        }
+        handleSelectTemplate(template?.id ?? null);
+    };
+
+    // Handlers for SESSION RECOVERY
+    const handleRestoreSession = () => {
+        if (!recoveredSession) return;
+        const { generate, edit } = recoveredSession;
+        applyGenerateState(generate);
+        latestEditJobRef.current = null;
+        setEditJobId(null);
+        setEditError(null);
+        setEditBaseImage(edit.baseImage);
+        setEditBaseHistoryId(edit.baseHistoryId ?? null);
+        setEditMaskImage(edit.maskImage);
+        setEditAddChars(edit.characters);
+        setEditAddObjs(edit.objects);
+        setStandaloneEditPrompt(edit.instruction);
+        setEditedImages(edit.outputs);
+        setEditResultBase(null);
+        setRecoveredSession(null);
+    };
+
+    const handleDiscardSession = () => {
+        setRecoveredSession(null);
+        clearSession().catch(error => console.error("Failed to discard the previous session:", error));
+    };
 
     // Handlers for HISTORY
-    const handleViewHistoryItem = (item: HistoryItem) => {
-        const imageUrl = `data:${item.image.mimeType};base64,${item.image.base64}`;
-        setViewingImage(imageUrl);
+    // Falls back to the thumbnail if the original is missing
+    const loadHistoryImage = async (item: HistoryItem): Promise<ImageFile> => {
+        try {
+            return (await getHistoryOriginal(item.id)) ?? item.thumbnail;
+        } catch (error) {
+            console.error("Failed to load original image from history:", error);
+            return item.thumbnail;
+        }
+    };
+
+    // The older image is always shown as "before"
+    const handleCompareHistoryItems = async (first: HistoryItem, second: HistoryItem) => {
+        const [before, after] = [first, second].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        const [beforeImage, afterImage] = await Promise.all([loadHistoryImage(before), loadHistoryImage(after)]);
+        setComparison({
+            before: `data:${beforeImage.mimeType};base64,${beforeImage.base64}`,
+            after: `data:${afterImage.mimeType};base64,${afterImage.base64}`,
+            beforeLabel: new Date(before.createdAt).toLocaleString(),
+            afterLabel: new Date(after.createdAt).toLocaleString(),
+        });
     };
 
-    const handleUseForEdit = (item: HistoryItem) => {
-        setEditBaseImage(item.image);
+    const handleViewHistoryItem = async (item: HistoryItem) => {
+        const image = await loadHistoryImage(item);
+        setViewingImage(`data:${image.mimeType};base64,${image.base64}`);
+    };
+
+    const handleUseForEdit = async (item: HistoryItem) => {
+        handleEditBaseImageChange(await loadHistoryImage(item), item.id);
         setActiveTab('edit');
         setIsHistoryPanelOpen(false);
     };
 
-    const handleDeleteFromHistory = (id: string) => {
-        setHistory(prev => prev.filter(item => item.id !== id));
+    const handleRestoreSettings = async (item: HistoryItem) => {
+        const settings = item.settings;
+        if (!settings) return;
+        try {
+            const [restoredCharacters, restoredObjects] = await Promise.all([
+                restoreElements(settings.characters),
+                restoreElements(settings.objects),
+            ]);
+            if (settings.tab === 'generate') {
+                const [locationImage, styleRef] = await Promise.all([
+                    loadHistoryInput(settings.locationImageRef),
+                    loadHistoryInput(settings.styleImageRef),
+                ]);
+                setCharacters(restoredCharacters);
+                setAdditionalElements(restoredObjects);
+                setSceneDescription(settings.sceneDescription);
+                setSceneLocationImage(locationImage);
+                setStyleImage(styleRef);
+                setArtisticStyle(settings.artisticStyle);
+                setLightingStyle(settings.lightingStyle);
+                setCameraPerspective(settings.cameraPerspective);
+                setAspectRatio(settings.aspectRatio);
+                setPromptOverride(settings.promptOverride ?? null);
+                setActiveTab('generate');
+            } else {
+                const [baseImage, maskImage] = await Promise.all([
+                    loadHistoryInput(settings.baseImageRef),
+                    loadHistoryInput(settings.maskImageRef),
+                ]);
+                setEditBaseImage(baseImage);
+                setEditBaseHistoryId(baseImage ? item.parentId ?? null : null);
+                setEditMaskImage(maskImage);
+                setEditAddChars(restoredCharacters);
+                setEditAddObjs(restoredObjects);
+                setStandaloneEditPrompt(settings.instruction);
+                setActiveTab('edit');
+            }
+            setIsHistoryPanelOpen(false);
+        } catch (error) {
+            console.error("Failed to restore settings from history:", error);
+        }
+    };
+
+    const handleDeleteFromHistory = async (id: string) => {
+        try {
+            await deleteHistoryEntries([id]);
+            setHistory(prev => prev.filter(item => item.id !== id));
+        } catch (error) {
+            console.error("Failed to delete history item:", error);
+        }
+    };
+
+    const handleDeleteManyFromHistory = async (ids: string[]) => {
+        if (ids.length === 0 || !window.confirm(t('history.select.deleteConfirm').replace('{count}', String(ids.length)))) return;
+        try {
+            await deleteHistoryEntries(ids);
+            setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+        } catch (error) {
+            console.error("Failed to delete history items:", error);
+        }
     };
 
-    const handleClearHistory = () => {
+    const handleUpdateHistoryItem = async (item: HistoryItem, changes: Pick<HistoryItem, 'tags' | 'favorite'>) => {
+        try {
+            const updated = await updateHistoryItem(item.id, changes);
+            if (updated) setHistory(prev => prev.map(entry => entry.id === updated.id ? updated : entry));
+        } catch (error) {
+            console.error("Failed to update history item:", error);
+        }
+    };
+
+    const downloadExportZip = (images: ExportImage[]) => {
+        const exportedAt = new Date();
+        const url = URL.createObjectURL(new Blob([buildExportZip(images, exportedAt)], { type: 'application/zip' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = exportArchiveName(exportedAt);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const toExportImage = (item: HistoryItem, image: ImageFile): ExportImage => ({
+        id: item.id,
+        image,
+        prompt: item.prompt,
+        createdAt: item.createdAt,
+        settings: item.settings,
+        commentary: item.commentary,
+        tags: item.tags,
+        parentId: item.parentId,
+    });
+
+    const handleExportHistoryItems = async (items: HistoryItem[]) => {
+        try {
+            downloadExportZip(await Promise.all(items.map(async item => toExportImage(item, await loadHistoryImage(item)))));
+        } catch (error) {
+            console.error("Failed to export history items:", error);
+            alert(t('export.failed'));
+        }
+    };
+
+    // Outputs saved to history export with their recorded settings; the rest only have the prompt
+    const handleExportOutputs = (outputs: GeneratedOutput[], fallbackPrompt: string) => {
+        try {
+            const exportedAt = new Date().toISOString();
+            downloadExportZip(outputs.map((output, index) => {
+                const image = parseDataUrl(output.image);
+                const item = output.historyId ? history.find(h => h.id === output.historyId) : undefined;
+                return item
+                    ? toExportImage(item, image)
+                    : { id: `output-${index + 1}`, image, prompt: fallbackPrompt, createdAt: exportedAt, commentary: output.commentary || undefined };
+            }));
+        } catch (error) {
+            console.error("Failed to export outputs:", error);
+            alert(t('export.failed'));
+        }
+    };
+
+    // Saved outputs carry their recorded settings; until then the current inputs describe them
+    const generatedOutputMetadata = (output: GeneratedOutput): ImageMetadata => {
+        const item = output.historyId ? history.find(h => h.id === output.historyId) : undefined;
+        if (item) return metadataFromSettings(item.prompt, item.settings, item.createdAt);
+        return {
+            tab: 'generate',
+            prompt: effectivePrompt,
+            promptOverride: promptOverride ?? '',
+            sceneDescription,
+            instruction: '',
+            artisticStyle,
+            lightingStyle,
+            cameraPerspective,
+            aspectRatio,
+            createdAt: new Date().toISOString(),
+            appVersion: APP_VERSION,
+        };
+    };
+
+    const editedOutputMetadata = (output: GeneratedOutput): ImageMetadata => {
+        const item = output.historyId ? history.find(h => h.id === output.historyId) : undefined;
+        if (item) return metadataFromSettings(item.prompt, item.settings, item.createdAt);
+        return metadataFromSettings(standaloneEditPrompt, undefined, new Date().toISOString());
+    };
+
+    const handleClearHistory = async () => {
         if (window.confirm(t('history.clearConfirm'))) {
-            setHistory([]);
+            try {
+                await clearHistory();
+                setHistory([]);
+            } catch (error) {
+                console.error("Failed to clear history:", error);
+            }
         }
     };
+
+    const handleHistoryEvicted = (evictedIds: string[]) => {
+        setHistory(prev => prev.filter(item => !evictedIds.includes(item.id)));
+    };
     
+    // The cast is shared between the Generate and Storyboard tabs
+    const castLists = (
+        <>
+            <EditableElementList
+                title={t('generate.characters.title')} elements={characters}
+                onAdd={() => setCharacters(prev => [...prev, { id: Date.now(), name: `${t('generate.characters.placeholder')} ${prev.length + 1}`, image: null }])}
+                onRemove={id => setCharacters(prev => prev.filter(c => c.id !== id))}
+                onNameChange={(id, name) => setCharacters(prev => prev.map(c => c.id === id ? { ...c, name } : c))}
+                onImageUpload={(id, image) => setCharacters(prev => prev.map(c => c.id === id ? { ...c, image } : c))}
+                onReorder={(startIndex, endIndex) => handleReorder(characters, setCharacters, startIndex, endIndex)}
+                onLibraryDrop={addFromLibrary(setCharacters)}
+                noun={t('common.character')}
+            />
+            <EditableElementList
+                title={t('generate.objects.title')} elements={additionalElements}
+                onAdd={() => setAdditionalElements(prev => [...prev, { id: Date.now(), name: `${t('generate.objects.placeholder')} ${prev.length + 1}`, image: null }])}
+                onRemove={id => setAdditionalElements(prev => prev.filter(c => c.id !== id))}
+                onNameChange={(id, name) => setAdditionalElements(prev => prev.map(c => c.id === id ? { ...c, name } : c))}
+                onImageUpload={(id, image) => setAdditionalElements(prev => prev.map(c => c.id === id ? { ...c, image } : c))}
+                onReorder={(startIndex, endIndex) => handleReorder(additionalElements, setAdditionalElements, startIndex, endIndex)}
+                onLibraryDrop={addFromLibrary(setAdditionalElements)}
+                noun={t('common.object')}
+            />
+        </>
+    );
+
     return (
         <div className="min-h-screen bg-transparent font-sans text-gray-200">
             <header className="bg-transparent sticky top-0 z-20">
@@ -332,6 +1217,42 @@ const App: React.FC = () => {
                         >
                             {t('header.toggleLang')}
                         </button>
+                        <button
+                            onClick={() => setIsLibraryOpen(prev => !prev)}
+                            className="flex items-center gap-2 border-2 border-fuchsia-500/50 text-fuchsia-400 font-bold py-2 px-5 rounded-lg hover:bg-fuchsia-500 hover:text-black hover:border-fuchsia-500 hover:shadow-[0_0_15px_rgba(217,70,239,0.6)] transition-all duration-300 text-sm"
+                            aria-label="Toggle character library"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+                            </svg>
+                            <span>{t('header.library')}</span>
+                        </button>
+                        <button
+                            onClick={() => setIsQueuePanelOpen(true)}
+                            className="relative flex items-center gap-2 border-2 border-cyan-500/50 text-cyan-400 font-bold py-2 px-5 rounded-lg hover:bg-cyan-500 hover:text-black hover:border-cyan-500 hover:shadow-[0_0_15px_rgba(6,182,212,0.6)] transition-all duration-300 text-sm"
+                            aria-label="Open generation queue"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M4 6h16M4 12h16M4 18h7" />
+                            </svg>
+                            <span>{t('header.queue')}</span>
+                            {activeJobCount > 0 && (
+                                <span className="absolute -top-2 -end-2 min-w-[1.25rem] h-5 px-1 rounded-full bg-fuchsia-600 text-white text-xs flex items-center justify-center">{activeJobCount}</span>
+                            )}
+                        </button>
+                        <div className="flex items-center gap-1">
+                            <button onClick={handleExportProject} className="font-bold text-cyan-400 border-2 border-cyan-500/0 hover:border-cyan-500/50 rounded-lg py-2 px-3 transition-all text-sm" title={t('project.exportHint')}>
+                                {t('project.export')}
+                            </button>
+                            <button onClick={() => projectInputRef.current?.click()} className="font-bold text-cyan-400 border-2 border-cyan-500/0 hover:border-cyan-500/50 rounded-lg py-2 px-3 transition-all text-sm" title={t('project.importHint')}>
+                                {t('project.import')}
+                            </button>
+                            <input ref={projectInputRef} type="file" accept={`${PROJECT_FILE_EXTENSION},application/json`} onChange={handleImportProjectFile} className="hidden" />
+                            <button onClick={() => metadataInputRef.current?.click()} className="font-bold text-cyan-400 border-2 border-cyan-500/0 hover:border-cyan-500/50 rounded-lg py-2 px-3 transition-all text-sm" title={t('metadata.importHint')}>
+                                {t('metadata.import')}
+                            </button>
+                            <input ref={metadataInputRef} type="file" accept="image/png,image/jpeg" onChange={handleImportFromImage} className="hidden" />
+                        </div>
                         <button
                             onClick={() => setIsHistoryPanelOpen(true)}
                             className="flex items-center gap-2 border-2 border-cyan-500/50 text-cyan-400 font-bold py-2 px-5 rounded-lg hover:bg-cyan-500 hover:text-black hover:border-cyan-500 hover:shadow-[0_0_15px_rgba(6,182,212,0.6)] transition-all duration-300 text-sm"
@@ -346,36 +1267,61 @@ const App: React.FC = () => {
                 </div>
             </header>
 
+            {/* Autosave waits for an answer, so nothing can be edited until there is one */}
+            {recoveredSession && (
+                <div className="fixed inset-0 bg-black bg-opacity-80 backdrop-blur-sm flex items-center justify-center z-50 p-4" role="alertdialog" aria-modal="true" aria-labelledby="session-found">
+                    <div className="flex flex-wrap items-center gap-3 bg-gray-800 border border-cyan-500/40 rounded-lg shadow-xl px-4 py-3 max-w-lg">
+                        <p id="session-found" className="flex-grow text-sm text-gray-200">
+                            {t('session.found').replace('{time}', new Date(recoveredSession.savedAt).toLocaleString())}
+                        </p>
+                        <button onClick={handleRestoreSession} autoFocus className="text-sm border-2 border-cyan-500/50 text-cyan-400 font-bold py-1 px-3 rounded-md hover:bg-cyan-500 hover:text-black hover:border-cyan-500 transition-colors duration-200">
+                            {t('session.restore')}
+                        </button>
+                        <button onClick={handleDiscardSession} className="text-sm text-gray-400 hover:text-red-300 transition-colors">
+                            {t('session.discard')}
+                        </button>
+                    </div>
+                </div>
+            )}
+
              <div className="container mx-auto px-6 pt-6">
-                <div className="flex border-b border-white/10">
+                <div className="flex items-center border-b border-white/10">
                     <TabButton tabName="generate" label={t('tabs.generate')} activeTab={activeTab} onClick={setActiveTab} />
+                    <TabButton tabName="storyboard" label={t('tabs.storyboard')} activeTab={activeTab} onClick={setActiveTab} />
                     <TabButton tabName="edit" label={t('tabs.edit')} activeTab={activeTab} onClick={setActiveTab} />
+                    <div className="ms-auto flex items-center gap-1 text-xs text-gray-400" aria-label={t('undo.indicator')}>
+                        <button
+                            onClick={handleUndo}
+                            disabled={!canUndo(undoHistory)}
+                            className="flex items-center gap-1 rounded-md px-2 py-1 hover:text-cyan-300 hover:bg-white/5 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-400 transition-colors"
+                            title={t('undo.undoHint')}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 rtl:-scale-x-100" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                            </svg>
+                            <span>{undoHistory.past.length}</span>
+                        </button>
+                        <button
+                            onClick={handleRedo}
+                            disabled={!canRedo(undoHistory)}
+                            className="flex items-center gap-1 rounded-md px-2 py-1 hover:text-cyan-300 hover:bg-white/5 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-400 transition-colors"
+                            title={t('undo.redoHint')}
+                        >
+                            <span>{undoHistory.future.length}</span>
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 rtl:-scale-x-100" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+                            </svg>
+                        </button>
+                    </div>
                 </div>
             </div>
             
-            <main key={activeTab} className="container mx-auto p-6 grid grid-cols-1 lg:grid-cols-12 gap-8 items-start fade-in">
+            <main key={activeTab} inert={recoveredSession !== null} className="container mx-auto p-6 grid grid-cols-1 lg:grid-cols-12 gap-8 items-start fade-in">
                 {activeTab === 'generate' ? (
                     <>
                         {/* Left Panel: Inputs */}
                         <MainPanel className="lg:col-span-4 space-y-8">
-                            <EditableElementList
-                                title={t('generate.characters.title')} elements={characters}
-                                onAdd={() => setCharacters(prev => [...prev, { id: Date.now(), name: `${t('generate.characters.placeholder')} ${prev.length + 1}`, image: null }])}
-                                onRemove={id => setCharacters(prev => prev.filter(c => c.id !== id))}
-                                onNameChange={(id, name) => setCharacters(prev => prev.map(c => c.id === id ? { ...c, name } : c))}
-                                onImageUpload={(id, image) => setCharacters(prev => prev.map(c => c.id === id ? { ...c, image } : c))}
-                                onReorder={(startIndex, endIndex) => handleReorder(characters, setCharacters, startIndex, endIndex)}
-                                noun={t('common.character')}
-                            />
-                            <EditableElementList
-                                title={t('generate.objects.title')} elements={additionalElements}
-                                onAdd={() => setAdditionalElements(prev => [...prev, { id: Date.now(), name: `${t('generate.objects.placeholder')} ${prev.length + 1}`, image: null }])}
-                                onRemove={id => setAdditionalElements(prev => prev.filter(c => c.id !== id))}
-                                onNameChange={(id, name) => setAdditionalElements(prev => prev.map(c => c.id === id ? { ...c, name } : c))}
-                                onImageUpload={(id, image) => setAdditionalElements(prev => prev.map(c => c.id === id ? { ...c, image } : c))}
-                                onReorder={(startIndex, endIndex) => handleReorder(additionalElements, setAdditionalElements, startIndex, endIndex)}
-                                noun={t('common.object')}
-                            />
+                            {castLists}
                             <section>
                                 <SectionHeader>{t('generate.scene.title')}</SectionHeader>
                                 <div className="space-y-6">
@@ -408,30 +1354,133 @@ const App: React.FC = () => {
                         <div className="lg:col-span-8 flex flex-col gap-6">
                             <MainPanel className="flex-grow flex flex-col min-h-[60vh]">
                                 <div className="flex-grow p-2 min-h-0">
-                                    <GeneratedImageDisplay images={generatedImages} isLoading={genLoading} error={genError} onView={setViewingImage} />
+                                    <GeneratedImageDisplay images={generatedImages} isLoading={genLoading} error={genError} errorPrefix={genErrorPrefix} onView={setViewingImage} onExport={(outputs) => handleExportOutputs(outputs, effectivePrompt)} metadataFor={generatedOutputMetadata} onExportImage={(output) => setExportTarget({ image: output.image, metadata: generatedOutputMetadata(output) })} />
                                 </div>
                             </MainPanel>
                             <MainPanel>
-                                <h2 className="text-xl font-bold text-cyan-300 tracking-wider mb-3">{t('generate.prompt.title')}</h2>
-                                <textarea value={generatedPrompt} readOnly rows={3} className="w-full bg-black/40 border border-cyan-500/50 rounded-lg p-3 text-cyan-200/80 focus:outline-none focus:ring-2 focus:ring-cyan-500 resize-y shadow-[inset_0_0_10px_rgba(6,182,212,0.2),0_0_15px_rgba(6,182,212,0.3)] font-mono" placeholder={t('generate.prompt.placeholder')} />
+                                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                                    <h2 className="text-xl font-bold text-cyan-300 tracking-wider flex items-center gap-3">
+                                        {t('generate.prompt.title')}
+                                        {promptOverride !== null && (
+                                            <span className="text-xs font-semibold bg-fuchsia-500/20 text-fuchsia-300 border border-fuchsia-500/40 rounded px-2 py-0.5 tracking-normal">{t('generate.prompt.overridden')}</span>
+                                        )}
+                                    </h2>
+                                    {promptOverride !== null && (
+                                        <div className="flex gap-2">
+                                            <button onClick={() => setShowPromptDiff(prev => !prev)} className="text-sm border-2 border-cyan-500/50 text-cyan-400 font-bold py-1 px-3 rounded-md hover:bg-cyan-500 hover:text-black hover:border-cyan-500 transition-colors duration-200">
+                                                {showPromptDiff ? t('generate.prompt.hideDiff') : t('generate.prompt.showDiff')}
+                                            </button>
+                                            <button onClick={() => { setPromptOverride(null); setShowPromptDiff(false); }} className="text-sm border-2 border-white/20 text-gray-300 font-bold py-1 px-3 rounded-md hover:border-fuchsia-500 hover:text-fuchsia-300 transition-colors duration-200">
+                                                {t('generate.prompt.resetToAuto')}
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="flex items-end gap-2 mb-3">
+                                    <div className="flex-grow">
+                                        <SelectInput id="promptTemplate" label={t('templates.active')} value={activeTemplate?.id ?? ''} options={templateOptions} onChange={(e) => handleSelectTemplate(e.target.value || null)} />
+                                    </div>
+                                    <button onClick={() => setIsTemplateManagerOpen(true)} className="text-sm border-2 border-cyan-500/50 text-cyan-400 font-bold py-2 px-3 rounded-md hover:bg-cyan-500 hover:text-black hover:border-cyan-500 transition-colors duration-200">
+                                        {t('templates.manage')}
+                                    </button>
+                                </div>
+                                <textarea value={effectivePrompt} onChange={(e) => setPromptOverride(e.target.value)} rows={3} className={`w-full bg-black/40 border rounded-lg p-3 text-cyan-200/80 focus:outline-none focus:ring-2 focus:ring-cyan-500 resize-y shadow-[inset_0_0_10px_rgba(6,182,212,0.2),0_0_15px_rgba(6,182,212,0.3)] font-mono ${isPromptBlocked ? 'border-red-500 ring-2 ring-red-500/70' : promptOverride !== null ? 'border-fuchsia-500/60' : 'border-cyan-500/50'}`} placeholder={t('generate.prompt.placeholder')} />
+                                {isPromptBlocked && <p className="mt-2 text-xs text-red-300">{t('errors.safetyBlocked.promptHint')}</p>}
+                                {promptOverride !== null && showPromptDiff && (
+                                    <PromptDiff autoPrompt={generatedPrompt} editedPrompt={promptOverride} />
+                                )}
                                 <div className="mt-4">
                                     <button onClick={handleGenerateClick} disabled={isGenerationDisabled} className={`w-full py-4 px-6 text-xl font-bold text-black bg-cyan-400 rounded-xl transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-cyan-500/50 
                                         ${!genLoading ? 'breathing-glow hover:shadow-[0_0_25px_rgba(6,182,212,0.8)]' : ''} 
                                         disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed disabled:shadow-none disabled:transform-none`}>
-                                        {genLoading ? t('generate.buttons.generating') : t('generate.buttons.generate')}
+                                        {genLoading ? t('generate.buttons.enqueue') : t('generate.buttons.generate')}
                                     </button>
-                                    {genLoading && <ProgressBar />}
+                                    {genLoading && <ProgressBar onCancel={handleCancelGeneration} status={genRetryStatus} />}
                                 </div>
                             </MainPanel>
                         </div>
                     </>
+                ) : activeTab === 'storyboard' ? (
+                    <>
+                        {/* Left Panel: Shared Cast & Project Style */}
+                        <MainPanel className="lg:col-span-4 space-y-8">
+                            {castLists}
+                            <section>
+                                <SectionHeader>{t('storyboard.projectStyle')}</SectionHeader>
+                                <div className="space-y-4">
+                                    <ImageUploader id="storyboard-style" label={t('generate.scene.styleLabel')} image={styleImage} onImageUpload={setStyleImage} />
+                                    <SelectInput id="storyboard-aspectRatio" label={t('imageEditor.targetRatio')} value={aspectRatio} options={ASPECT_RATIOS} onChange={(e) => setAspectRatio(e.target.value)} />
+                                    <SelectInput id="storyboard-artisticStyle" label={t('controls.styleLabel')} value={artisticStyle} options={ARTISTIC_STYLES} onChange={(e) => setArtisticStyle(e.target.value)} />
+                                </div>
+                            </section>
+                        </MainPanel>
+
+                        {/* Right Panel: Scenes */}
+                        <MainPanel className="lg:col-span-8">
+                            <StoryboardPanel
+                                scenes={storyboardScenes}
+                                statuses={sceneStatuses}
+                                lightingOptions={LIGHTING_STYLES}
+                                cameraOptions={CAMERA_PERSPECTIVES}
+                                isGeneratingAll={isGeneratingAllScenes}
+                                onAdd={handleAddScene}
+                                onRemove={handleRemoveScene}
+                                onUpdate={handleUpdateScene}
+                                onMove={handleMoveScene}
+                                onGenerate={handleGenerateScene}
+                                onGenerateAll={handleGenerateAllScenes}
+                                onPin={handlePinSceneOutput}
+                                onView={setViewingImage}
+                            />
+                        </MainPanel>
+                    </>
                 ) : (
                      <>
                         {/* Left Panel: Edit Inputs */}
                         <MainPanel className="lg:col-span-4 space-y-8">
                             <section>
                                 <SectionHeader>{t('edit.baseImage.title')}</SectionHeader>
-                                <ImageUploader id="edit-base" label={t('edit.baseImage.label')} image={editBaseImage} onImageUpload={setEditBaseImage} />
+                                <ImageUploader id="edit-base" label={t('edit.baseImage.label')} image={editBaseImage} onImageUpload={handleEditBaseImageChange} />
+                                {editBaseImage && (
+                                    <div className="mt-4 flex gap-2" role="group" aria-label={t('edit.mode.label')}>
+                                        {(['edit', 'outpaint'] as const).map(mode => (
+                                            <button
+                                                key={mode}
+                                                onClick={() => setEditMode(mode)}
+                                                aria-pressed={editMode === mode}
+                                                className={`flex-1 text-sm font-bold py-1.5 px-3 rounded-md border-2 transition-colors duration-200 ${editMode === mode ? 'bg-fuchsia-500 border-fuchsia-500 text-black' : 'border-white/20 text-gray-400 hover:border-fuchsia-500/70'}`}
+                                            >
+                                                {t(`edit.mode.${mode}`)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {editBaseImage && editMode === 'outpaint' && (
+                                    <div className="mt-4">
+                                        <OutpaintControls
+                                            image={editBaseImage}
+                                            directions={outpaintDirections}
+                                            amount={outpaintAmount}
+                                            onDirectionsChange={setOutpaintDirections}
+                                            onAmountChange={setOutpaintAmount}
+                                        />
+                                    </div>
+                                )}
+                                {editBaseImage && editMode === 'edit' && (
+                                    <div className="mt-4 space-y-2">
+                                        <div className="flex gap-2">
+                                            <button onClick={() => setIsMaskEditorOpen(true)} className="flex-1 text-sm border-2 border-fuchsia-500/50 text-fuchsia-400 font-bold py-1.5 px-3 rounded-md hover:bg-fuchsia-500 hover:text-black hover:border-fuchsia-500 transition-colors duration-200">
+                                                {editMaskImage ? t('edit.mask.edit') : t('edit.mask.paint')}
+                                            </button>
+                                            {editMaskImage && (
+                                                <button onClick={() => setEditMaskImage(null)} className="text-sm border-2 border-white/20 text-gray-400 font-bold py-1.5 px-3 rounded-md hover:border-red-500 hover:text-red-400 transition-colors duration-200">
+                                                    {t('edit.mask.remove')}
+                                                </button>
+                                            )}
+                                        </div>
+                                        <p className="text-xs text-gray-500">{editMaskImage ? t('edit.mask.active') : t('edit.mask.hint')}</p>
+                                    </div>
+                                )}
                             </section>
                             <EditableElementList
                                 title={t('edit.addCharacters.title')} elements={editAddChars}
@@ -439,6 +1488,7 @@ const App: React.FC = () => {
                                 onRemove={id => setEditAddChars(prev => prev.filter(c => c.id !== id))}
                                 onNameChange={(id, name) => setEditAddChars(prev => prev.map(c => c.id === id ? { ...c, name } : c))}
                                 onImageUpload={(id, image) => setEditAddChars(prev => prev.map(c => c.id === id ? { ...c, image } : c))}
+                                onLibraryDrop={addFromLibrary(setEditAddChars)}
                                 noun={t('common.character')}
                             />
                             <EditableElementList
@@ -447,14 +1497,16 @@ const App: React.FC = () => {
                                 onRemove={id => setEditAddObjs(prev => prev.filter(c => c.id !== id))}
                                 onNameChange={(id, name) => setEditAddObjs(prev => prev.map(c => c.id === id ? { ...c, name } : c))}
                                 onImageUpload={(id, image) => setEditAddObjs(prev => prev.map(c => c.id === id ? { ...c, image } : c))}
+                                onLibraryDrop={addFromLibrary(setEditAddObjs)}
                                 noun={t('common.object')}
                             />
                             <section>
-                                <SectionHeader>{t('edit.instruction.title')}</SectionHeader>
+                                <SectionHeader>{editMode === 'outpaint' ? t('edit.outpaint.instructionTitle') : t('edit.instruction.title')}</SectionHeader>
                                 <textarea
                                     value={standaloneEditPrompt} onChange={(e) => setStandaloneEditPrompt(e.target.value)}
-                                    rows={4} className="w-full bg-black/30 border border-white/20 text-gray-200 rounded-lg shadow-sm p-3 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 placeholder-gray-500 resize-y transition-all"
-                                    placeholder={t('edit.instruction.placeholder')}/>
+                                    rows={4} className={`w-full bg-black/30 border text-gray-200 rounded-lg shadow-sm p-3 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 placeholder-gray-500 resize-y transition-all ${isEditInstructionBlocked ? 'border-red-500 ring-2 ring-red-500/70' : 'border-white/20'}`}
+                                    placeholder={editMode === 'outpaint' ? t('edit.outpaint.instructionPlaceholder') : t('edit.instruction.placeholder')}/>
+                                {isEditInstructionBlocked && <p className="mt-2 text-xs text-red-300">{t('errors.safetyBlocked.promptHint')}</p>}
                             </section>
                         </MainPanel>
 
@@ -463,30 +1515,92 @@ const App: React.FC = () => {
                             <MainPanel className="flex-grow flex flex-col min-h-[60vh]">
                                 <div className="flex-grow p-2 min-h-0">
                                     <GeneratedImageDisplay 
-                                        images={editedImage ? [editedImage] : []} 
+                                        images={editedImages}
                                         isLoading={editLoading} 
                                         error={editError}
                                         onView={setViewingImage}
+                                        onCompare={editComparisonBase ? handleCompareEditOutput : undefined}
+                                        onContinue={handleContinueFromOutput}
+                                        onExport={(outputs) => handleExportOutputs(outputs, standaloneEditPrompt)}
+                                        metadataFor={editedOutputMetadata}
+                                        onExportImage={(output) => setExportTarget({ image: output.image, metadata: editedOutputMetadata(output) })}
                                     />
                                 </div>
                             </MainPanel>
                             <div className="flex-shrink-0">
                                 <button onClick={handleApplyStandaloneEdit} disabled={isEditDisabled} className="w-full py-4 px-6 text-xl font-bold text-black bg-fuchsia-500 rounded-xl shadow-[0_0_20px_rgba(217,70,239,0.6)] hover:bg-fuchsia-400 hover:shadow-[0_0_25px_rgba(217,70,239,0.8)] disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed disabled:shadow-none focus:outline-none focus:ring-4 focus:ring-fuchsia-500/50 transition-all duration-300 transform hover:scale-105 disabled:transform-none">
-                                    {editLoading ? t('edit.buttons.applying') : t('edit.buttons.apply')}
+                                    {editLoading ? t('edit.buttons.enqueue') : editMode === 'outpaint' ? t('edit.buttons.outpaint') : t('edit.buttons.apply')}
                                 </button>
-                                {editLoading && <ProgressBar />}
+                                {editLoading && <ProgressBar onCancel={handleCancelEdit} status={editRetryStatus} />}
                             </div>
+                            {editLineage && countLineageNodes(editLineage) > 1 && (
+                                <MainPanel>
+                                    <SectionHeader>{t('lineage.title')}</SectionHeader>
+                                    <p className="text-xs text-gray-500 mb-3">{t('lineage.hint')}</p>
+                                    <LineageTree tree={editLineage} currentId={editBaseHistoryId} onSelect={handleSelectLineageNode} onView={handleViewHistoryItem} />
+                                </MainPanel>
+                            )}
                         </div>
                     </>
                 )}
             </main>
 
-            <HistoryPanel isOpen={isHistoryPanelOpen} onClose={() => setIsHistoryPanelOpen(false)} history={history} onView={handleViewHistoryItem} onUseForEdit={handleUseForEdit} onDelete={handleDeleteFromHistory} onClear={handleClearHistory} />
-            <Modal isOpen={viewingImage !== null} onClose={() => setViewingImage(null)} imageUrl={viewingImage}>
+            <MaskEditor
+                isOpen={isMaskEditorOpen}
+                onClose={() => setIsMaskEditorOpen(false)}
+                image={editBaseImage}
+                mask={editMaskImage}
+                onApply={(mask) => { setEditMaskImage(mask); setIsMaskEditorOpen(false); }}
+            />
+            <CharacterLibraryPanel
+                isOpen={isLibraryOpen}
+                onClose={() => setIsLibraryOpen(false)}
+                characters={libraryCharacters}
+                onSave={handleSaveLibraryCharacter}
+                onDelete={handleDeleteLibraryCharacter}
+                onAddToScene={handleAddLibraryCharacterToScene}
+            />
+            <PromptTemplateManager
+                isOpen={isTemplateManagerOpen}
+                onClose={() => setIsTemplateManagerOpen(false)}
+                templates={promptTemplates}
+                activeTemplateId={activeTemplate?.id ?? null}
+                onSelect={handleSelectTemplate}
+                onSave={handleSavePromptTemplate}
+                onDelete={handleDeletePromptTemplate}
+                onImport={handleImportPromptTemplates}
+                variables={templateVariables}
+            />
+            <JobQueuePanel
+                isOpen={isQueuePanelOpen}
+                onClose={() => setIsQueuePanelOpen(false)}
+                jobs={jobs}
+                concurrency={jobConcurrency}
+                onConcurrencyChange={handleJobConcurrencyChange}
+                onCancel={jobQueue.cancel}
+                onClearFinished={jobQueue.clearFinished}
+                onView={setViewingImage}
+            />
+            <HistoryPanel isOpen={isHistoryPanelOpen} onClose={() => setIsHistoryPanelOpen(false)} history={history} onView={handleViewHistoryItem} onUseForEdit={handleUseForEdit} onRestoreSettings={handleRestoreSettings} onDelete={handleDeleteFromHistory} onDeleteMany={handleDeleteManyFromHistory} onExport={handleExportHistoryItems} onToggleFavorite={(item) => handleUpdateHistoryItem(item, { favorite: !item.favorite })} onUpdateTags={(item, tags) => handleUpdateHistoryItem(item, { tags })} onClear={handleClearHistory} onEvicted={handleHistoryEvicted} onCompare={handleCompareHistoryItems} />
+            <Modal
+                isOpen={viewingImage !== null}
+                onClose={() => setViewingImage(null)}
+                imageUrl={viewingImage}
+                onCompare={viewingImage && editComparisonBase && editedImages.some(output => output.image === viewingImage) ? () => handleCompareEditOutput(viewingImage) : undefined}
+            >
                 {viewingImage && (
                     <img src={viewingImage} alt="Full view" className="max-w-full max-h-[90vh] object-contain rounded-lg"/>
                 )}
             </Modal>
+            <Modal isOpen={comparison !== null} onClose={() => setComparison(null)}>
+                {comparison && (
+                    <div className="bg-gray-800 p-4 rounded-lg shadow-xl w-[90vw] max-w-4xl max-h-[90vh] overflow-y-auto text-white">
+                        <h2 className="text-2xl font-bold mb-4 text-cyan-300">{t('comparison.title')}</h2>
+                        <ComparisonViewer {...comparison} />
+                    </div>
+                )}
+            </Modal>
+            <ExportDialog isOpen={exportTarget !== null} onClose={() => setExportTarget(null)} image={exportTarget?.image ?? null} metadata={exportTarget?.metadata} />
         </div>
     );
 };
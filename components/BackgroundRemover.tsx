@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Modal } from './Modal';
+import type { ImageFile } from '../types';
+import { parseDataUrl } from './ImageUploader';
+import { useTranslation } from '../contexts/LanguageContext';
+import {
+  DEFAULT_TOLERANCE,
+  applyMask,
+  borderSeeds,
+  chromaKeyMask,
+  colorAt,
+  createMask,
+  floodFillMask,
+  fullRegion,
+  paintMask,
+} from '../services/backgroundRemoval';
+import type { Point, Region } from '../services/backgroundRemoval';
+
+interface BackgroundRemoverProps {
+  isOpen: boolean;
+  onClose: () => void;
+  image: ImageFile | null;
+  onApply: (newImage: ImageFile) => void;
+}
+
+// fill: remove the connected area under the click; key: remove that colour everywhere;
+// erase/restore: refine by hand with a brush
+type RemovalTool = 'fill' | 'key' | 'erase' | 'restore';
+
+const MAX_UNDO_STEPS = 20;
+// Shows where the result will be transparent
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundImage: 'conic-gradient(#374151 25%, #1f2937 0 50%, #374151 0 75%, #1f2937 0)',
+  backgroundSize: '16px 16px',
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image for background removal.'));
+        img.src = src;
+    });
+};
+
+export const BackgroundRemover: React.FC<BackgroundRemoverProps> = ({ isOpen, onClose, image, onApply }) => {
+  const { t } = useTranslation();
+  const [tool, setTool] = useState<RemovalTool>('fill');
+  const [tolerance, setTolerance] = useState<number>(DEFAULT_TOLERANCE);
+  const [brushSize, setBrushSize] = useState<number>(24);
+  const [undoStack, setUndoStack] = useState<Uint8Array[]>([]);
+  const [isReady, setIsReady] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The untouched pixels, the displayed result and the removal mask, all at full resolution
+  const sourceRef = useRef<ImageData | null>(null);
+  const outputRef = useRef<ImageData | null>(null);
+  const maskRef = useRef<Uint8Array | null>(null);
+  const lastPointRef = useRef<Point | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !image) return;
+    setIsReady(false);
+    setUndoStack([]);
+    setTool('fill');
+    let cancelled = false;
+    loadImage(`data:${image.mimeType};base64,${image.base64}`).then(img => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+        if (cancelled || !canvas || !ctx) return;
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, 0, 0);
+        const source = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        sourceRef.current = source;
+        outputRef.current = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+        maskRef.current = createMask(source);
+        setIsReady(true);
+    }).catch(error => console.error(error));
+    return () => { cancelled = true; };
+  }, [isOpen, image]);
+
+  // Only the changed region is copied back to the canvas, so brush strokes stay fast on large images
+  const redraw = useCallback((region: Region | null) => {
+    const source = sourceRef.current;
+    const output = outputRef.current;
+    const mask = maskRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!region || !source || !output || !mask || !ctx) return;
+    applyMask(source, output, mask, region);
+    ctx.putImageData(output, 0, 0, region.x, region.y, region.width, region.height);
+  }, []);
+
+  const pushUndoSnapshot = () => {
+    const mask = maskRef.current;
+    if (!mask) return;
+    setUndoStack(prev => [...prev, mask.slice()].slice(-MAX_UNDO_STEPS));
+  };
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+        x: Math.min(canvas.width - 1, Math.max(0, Math.floor((e.clientX - rect.left) * (canvas.width / rect.width)))),
+        y: Math.min(canvas.height - 1, Math.max(0, Math.floor((e.clientY - rect.top) * (canvas.height / rect.height)))),
+    };
+  };
+
+  // Brush size is expressed in screen pixels so it feels the same regardless of image resolution
+  const paintSegment = (from: Point, to: Point, canvas: HTMLCanvasElement) => {
+    const mask = maskRef.current;
+    if (!mask) return;
+    const radius = (brushSize / 2) * (canvas.width / canvas.getBoundingClientRect().width);
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / Math.max(1, radius / 2)));
+    for (let i = 0; i <= steps; i++) {
+        const point = { x: from.x + ((to.x - from.x) * i) / steps, y: from.y + ((to.y - from.y) * i) / steps };
+        redraw(paintMask(mask, canvas.width, canvas.height, point, radius, tool === 'erase' ? 1 : 0));
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const source = sourceRef.current;
+    const mask = maskRef.current;
+    if (!source || !mask) return;
+    e.preventDefault();
+    pushUndoSnapshot();
+    const point = toImagePoint(e);
+    if (tool === 'fill') {
+        redraw(floodFillMask(source, mask, [point], tolerance));
+    } else if (tool === 'key') {
+        redraw(chromaKeyMask(source, mask, colorAt(source, point), tolerance));
+    } else {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPointRef.current = point;
+        paintSegment(point, point, e.currentTarget);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    const point = toImagePoint(e);
+    paintSegment(lastPointRef.current, point, e.currentTarget);
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    lastPointRef.current = null;
+  };
+
+  const handleAuto = () => {
+    const source = sourceRef.current;
+    const mask = maskRef.current;
+    if (!source || !mask) return;
+    pushUndoSnapshot();
+    redraw(floodFillMask(source, mask, borderSeeds(source), tolerance));
+  };
+
+  const handleReset = () => {
+    const source = sourceRef.current;
+    const mask = maskRef.current;
+    if (!source || !mask) return;
+    pushUndoSnapshot();
+    mask.fill(0);
+    redraw(fullRegion(source));
+  };
+
+  const handleUndo = () => {
+    const source = sourceRef.current;
+    const mask = maskRef.current;
+    const previous = undoStack[undoStack.length - 1];
+    if (!source || !mask || !previous) return;
+    mask.set(previous);
+    setUndoStack(prev => prev.slice(0, -1));
+    redraw(fullRegion(source));
+  };
+
+  const handleApply = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    try {
+        onApply(parseDataUrl(canvas.toDataURL('image/png')));
+    } catch (error) {
+        console.error("Failed to export the cut-out image", error);
+    }
+  };
+
+  if (!image) return null;
+
+  const toolButtonClass = (active: boolean) =>
+    `py-1.5 px-3 text-sm rounded-md border transition-colors ${active ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-black/30 border-white/20 text-gray-300 hover:border-cyan-500/70'}`;
+  const isBrush = tool === 'erase' || tool === 'restore';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <div className="bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-3xl text-white">
+        <h2 className="text-2xl font-bold mb-4 text-cyan-300">{t('backgroundRemover.title')}</h2>
+        <div className="space-y-4">
+            <div className="flex justify-center items-center bg-black/20 p-2 rounded-md min-h-[12rem]">
+                <canvas
+                    ref={canvasRef}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    aria-label={t('imageEditor.preview')}
+                    className={`block max-h-[55vh] max-w-full rounded touch-none ${isReady ? '' : 'invisible'}`}
+                    style={{ ...CHECKERBOARD_STYLE, cursor: 'crosshair' }}
+                />
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={handleAuto} disabled={!isReady} className={`${toolButtonClass(false)} disabled:opacity-40`}>{t('backgroundRemover.auto')}</button>
+                <span className="w-px h-6 bg-white/10 mx-1" />
+                <button onClick={() => setTool('fill')} className={toolButtonClass(tool === 'fill')}>{t('backgroundRemover.fill')}</button>
+                <button onClick={() => setTool('key')} className={toolButtonClass(tool === 'key')}>{t('backgroundRemover.key')}</button>
+                <button onClick={() => setTool('erase')} className={toolButtonClass(tool === 'erase')}>{t('backgroundRemover.erase')}</button>
+                <button onClick={() => setTool('restore')} className={toolButtonClass(tool === 'restore')}>{t('backgroundRemover.restore')}</button>
+                <span className="w-px h-6 bg-white/10 mx-1" />
+                <button onClick={handleUndo} disabled={undoStack.length === 0} className={`${toolButtonClass(false)} disabled:opacity-40 disabled:cursor-not-allowed`}>{t('maskEditor.undo')}</button>
+                <button onClick={handleReset} disabled={!isReady} className={`${toolButtonClass(false)} disabled:opacity-40`}>{t('imageEditor.reset')}</button>
+            </div>
+            <div>
+                {isBrush ? (
+                    <>
+                        <label htmlFor="bg-brush-size" className="block text-sm font-medium text-gray-400 mb-2">
+                            {t('maskEditor.brushSize')}: {brushSize}px
+                        </label>
+                        <input
+                            id="bg-brush-size"
+                            type="range"
+                            min={4}
+                            max={150}
+                            value={brushSize}
+                            onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+                            className="w-full accent-cyan-500"
+                        />
+                    </>
+                ) : (
+                    <>
+                        <label htmlFor="bg-tolerance" className="block text-sm font-medium text-gray-400 mb-2">
+                            {t('backgroundRemover.tolerance')}: {Math.round(tolerance * 100)}%
+                        </label>
+                        <input
+                            id="bg-tolerance"
+                            type="range"
+                            min={0}
+                            max={0.6}
+                            step={0.01}
+                            value={tolerance}
+                            onChange={(e) => setTolerance(parseFloat(e.target.value))}
+                            className="w-full accent-cyan-500"
+                        />
+                    </>
+                )}
+            </div>
+            <p className="text-sm text-gray-400 text-center">{t(`backgroundRemover.hints.${tool}`)}</p>
+        </div>
+        <div className="mt-6 flex justify-end gap-4">
+            <button
+                onClick={onClose}
+                className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors"
+            >
+                {t('common.cancel')}
+            </button>
+            <button
+                onClick={handleApply}
+                disabled={!isReady}
+                className="py-2 px-4 bg-cyan-600 hover:bg-cyan-500 rounded-md transition-colors disabled:bg-gray-700 disabled:cursor-not-allowed"
+            >
+                {t('imageEditor.apply')}
+            </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
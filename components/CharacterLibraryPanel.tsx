@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from 'react';
+import type { CharacterReference, ImageFile, LibraryCharacter, ReferenceView, SelectOption } from '../types';
+import { ImageUploader } from './ImageUploader';
+import { SelectInput } from './SelectInput';
+import { LIBRARY_CHARACTER_DRAG_TYPE } from '../services/characterLibrary';
+import { useTranslation } from '../contexts/LanguageContext';
+
+interface CharacterLibraryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  characters: LibraryCharacter[];
+  onSave: (character: LibraryCharacter) => void;
+  onDelete: (id: string) => void;
+  onAddToScene: (character: LibraryCharacter) => void;
+}
+
+const REFERENCE_VIEWS: ReferenceView[] = ['front', 'side', 'back', 'expressions', 'other'];
+
+const createEmptyCharacter = (): LibraryCharacter => ({
+  id: `char-${Date.now()}`,
+  name: '',
+  description: '',
+  tags: [],
+  references: [],
+  updatedAt: new Date().toISOString(),
+});
+
+const toDataUrl = (image: ImageFile) => `data:${image.mimeType};base64,${image.base64}`;
+
+const CharacterForm: React.FC<{
+  initial: LibraryCharacter;
+  onSave: (character: LibraryCharacter) => void;
+  onCancel: () => void;
+}> = ({ initial, onSave, onCancel }) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState(initial.name);
+  const [description, setDescription] = useState(initial.description);
+  const [tagsInput, setTagsInput] = useState(initial.tags.join(', '));
+  const [references, setReferences] = useState<CharacterReference[]>(initial.references);
+  const [newReferenceKey, setNewReferenceKey] = useState(0);
+
+  const viewOptions: SelectOption[] = useMemo(
+    () => REFERENCE_VIEWS.map(view => ({ value: view, label: t(`library.views.${view}`) })),
+    [t]
+  );
+
+  const handleAddReference = (image: ImageFile | null) => {
+    if (!image) return;
+    // The first reference defaults to the front view, the rest to side
+    const view: ReferenceView = references.length === 0 ? 'front' : 'side';
+    setReferences(prev => [...prev, { id: `ref-${Date.now()}`, view, image }]);
+    // Remount the empty uploader so the same file can be picked again
+    setNewReferenceKey(prev => prev + 1);
+  };
+
+  const handleReferenceImage = (id: string, image: ImageFile | null) => {
+    setReferences(prev => image
+      ? prev.map(ref => ref.id === id ? { ...ref, image } : ref)
+      : prev.filter(ref => ref.id !== id));
+  };
+
+  const handleSubmit = () => {
+    onSave({
+      ...initial,
+      name: name.trim(),
+      description: description.trim(),
+      tags: tagsInput.split(',').map(tag => tag.trim()).filter(Boolean),
+      references,
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  const inputClass = "w-full bg-black/30 border border-white/20 text-gray-200 rounded-lg shadow-sm p-2 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 placeholder-gray-500 transition-all";
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="library-name" className="block text-sm font-medium text-gray-400 mb-2">{t('common.name')}</label>
+        <input id="library-name" type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <label htmlFor="library-description" className="block text-sm font-medium text-gray-400 mb-2">{t('library.description')}</label>
+        <textarea id="library-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={3} className={`${inputClass} resize-y`} placeholder={t('library.descriptionPlaceholder')} />
+      </div>
+      <div>
+        <label htmlFor="library-tags" className="block text-sm font-medium text-gray-400 mb-2">{t('library.tags')}</label>
+        <input id="library-tags" type="text" value={tagsInput} onChange={(e) => setTagsInput(e.target.value)} className={inputClass} placeholder={t('library.tagsPlaceholder')} />
+      </div>
+      <div>
+        <p className="block text-sm font-medium text-gray-400 mb-2">{t('library.references')}</p>
+        <div className="grid grid-cols-2 gap-4">
+          {references.map((ref, index) => (
+            <div key={ref.id} className="space-y-2">
+              <ImageUploader
+                id={`library-ref-${ref.id}`}
+                label={`${t('library.reference')} ${index + 1}`}
+                image={ref.image}
+                onImageUpload={(image) => handleReferenceImage(ref.id, image)}
+              />
+              <SelectInput
+                id={`library-ref-view-${ref.id}`}
+                label={t('library.view')}
+                value={ref.view}
+                options={viewOptions}
+                onChange={(e) => setReferences(prev => prev.map(r => r.id === ref.id ? { ...r, view: e.target.value as ReferenceView } : r))}
+              />
+            </div>
+          ))}
+          <ImageUploader
+            key={newReferenceKey}
+            id={`library-ref-new-${newReferenceKey}`}
+            label={t('library.addReference')}
+            image={null}
+            onImageUpload={handleAddReference}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end gap-3 pt-2">
+        <button onClick={onCancel} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors text-sm">
+          {t('common.cancel')}
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={name.trim() === '' || references.length === 0}
+          className="py-2 px-4 bg-cyan-600 hover:bg-cyan-500 rounded-md transition-colors text-sm disabled:bg-gray-700 disabled:cursor-not-allowed"
+        >
+          {t('library.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const CharacterLibraryPanel: React.FC<CharacterLibraryPanelProps> = ({
+  isOpen,
+  onClose,
+  characters,
+  onSave,
+  onDelete,
+  onAddToScene,
+}) => {
+  const { t } = useTranslation();
+  const [editing, setEditing] = useState<LibraryCharacter | null>(null);
+  const [query, setQuery] = useState('');
+
+  const filteredCharacters = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return characters;
+    return characters.filter(c =>
+      c.name.toLowerCase().includes(needle) || c.tags.some(tag => tag.toLowerCase().includes(needle))
+    );
+  }, [characters, query]);
+
+  const handleDragStart = (e: React.DragEvent<HTMLLIElement>, character: LibraryCharacter) => {
+    e.dataTransfer.effectAllowed = 'copy';
+    e.dataTransfer.setData(LIBRARY_CHARACTER_DRAG_TYPE, character.id);
+  };
+
+  const handleSave = (character: LibraryCharacter) => {
+    onSave(character);
+    setEditing(null);
+  };
+
+  const handleDelete = (character: LibraryCharacter) => {
+    if (window.confirm(t('library.deleteConfirm').replace('{name}', character.name))) {
+      onDelete(character.id);
+    }
+  };
+
+  // No overlay: the panel stays open while characters are dragged onto the element lists
+  return (
+    <aside
+      className={`fixed top-0 end-0 h-full w-full max-w-sm bg-gray-900/90 backdrop-blur-lg border-s border-white/10 shadow-2xl z-30 transform transition-transform duration-300 ease-in-out ${
+        isOpen ? 'translate-x-0' : 'translate-x-full rtl:-translate-x-full'
+      }`}
+      aria-label={t('library.title')}
+    >
+      <div className="flex flex-col h-full">
+        <header className="flex items-center justify-between p-4 border-b border-white/10 flex-shrink-0">
+          <h2 className="text-xl font-bold text-cyan-300 tracking-wider">{editing ? (editing.name || t('library.newCharacter')) : t('library.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('library.close')}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </header>
+
+        <div className="flex-grow overflow-y-auto p-4">
+          {editing ? (
+            <CharacterForm key={editing.id} initial={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+          ) : (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <input
+                  type="search"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={t('library.search')}
+                  className="flex-grow bg-black/30 border border-white/20 text-gray-200 rounded-lg p-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 placeholder-gray-500"
+                />
+                <button
+                  onClick={() => setEditing(createEmptyCharacter())}
+                  className="text-sm border-2 border-cyan-500/50 text-cyan-400 font-bold py-1 px-3 rounded-md hover:bg-cyan-500 hover:text-black hover:border-cyan-500 transition-colors duration-200"
+                >
+                  {t('common.add')}
+                </button>
+              </div>
+              {filteredCharacters.length > 0 ? (
+                <>
+                  <p className="text-xs text-gray-500">{t('library.dragHint')}</p>
+                  <ul className="space-y-3">
+                    {filteredCharacters.map(character => (
+                      <li
+                        key={character.id}
+                        draggable
+                        onDragStart={(e) => handleDragStart(e, character)}
+                        className="flex gap-3 bg-black/20 border border-white/10 rounded-lg p-2 cursor-grab hover:border-cyan-500/50 transition-colors"
+                      >
+                        <div className="w-16 h-16 flex-shrink-0 rounded-md overflow-hidden bg-black/30">
+                          {character.references[0] && (
+                            <img src={toDataUrl(character.references[0].image)} alt={character.name} className="w-full h-full object-cover" draggable={false} />
+                          )}
+                        </div>
+                        <div className="flex-grow min-w-0">
+                          <p className="font-semibold text-white truncate">{character.name}</p>
+                          <p className="text-xs text-gray-500">{t('library.referenceCount').replace('{count}', String(character.references.length))}</p>
+                          {character.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {character.tags.map(tag => (
+                                <span key={tag} className="text-[10px] bg-cyan-500/20 text-cyan-300 rounded px-1.5 py-0.5">{tag}</span>
+                              ))}
+                            </div>
+                          )}
+                          <div className="flex gap-2 mt-2">
+                            <button onClick={() => onAddToScene(character)} className="text-xs bg-black/50 border border-white/20 hover:bg-green-500 hover:text-black rounded px-2 py-0.5 transition-colors">{t('library.addToScene')}</button>
+                            <button onClick={() => setEditing(character)} className="text-xs bg-black/50 border border-white/20 hover:bg-cyan-500 hover:text-black rounded px-2 py-0.5 transition-colors">{t('library.edit')}</button>
+                            <button onClick={() => handleDelete(character)} className="text-xs bg-black/50 border border-white/20 hover:bg-red-600 rounded px-2 py-0.5 transition-colors">{t('common.remove')}</button>
+                          </div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              ) : (
+                <div className="text-center text-gray-500 py-12">
+                  <p>{characters.length === 0 ? t('library.empty') : t('library.noMatches')}</p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from '../contexts/LanguageContext';
+import { differenceOverlay } from '../services/imageDiff';
+
+export interface ComparisonViewerProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+type ComparisonMode = 'sideBySide' | 'swipe' | 'difference';
+
+const COMPARISON_MODES: ComparisonMode[] = ['sideBySide', 'swipe', 'difference'];
+// The difference image is only for judging changes, so it is computed at a capped size
+const MAX_DIFF_SIDE = 1024;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image for comparison.'));
+        img.src = src;
+    });
+};
+
+/**
+ * Renders the difference overlay at the "after" image's proportions; the "before" image is
+ * stretched to match, so results of a different size (e.g. outpainting) still line up.
+ */
+const renderDifference = async (before: string, after: string): Promise<{ url: string; changed: number }> => {
+    const [beforeImg, afterImg] = await Promise.all([loadImage(before), loadImage(after)]);
+    const scale = Math.min(1, MAX_DIFF_SIDE / Math.max(afterImg.naturalWidth, afterImg.naturalHeight));
+    const width = Math.max(1, Math.round(afterImg.naturalWidth * scale));
+    const height = Math.max(1, Math.round(afterImg.naturalHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context.');
+    ctx.drawImage(beforeImg, 0, 0, width, height);
+    const beforeData = ctx.getImageData(0, 0, width, height);
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(afterImg, 0, 0, width, height);
+    const afterData = ctx.getImageData(0, 0, width, height);
+
+    const output = ctx.createImageData(width, height);
+    const changed = differenceOverlay(beforeData, afterData, output);
+    ctx.putImageData(output, 0, 0);
+    return { url: canvas.toDataURL('image/png'), changed };
+};
+
+export const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ before, after, beforeLabel, afterLabel }) => {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<ComparisonMode>('sideBySide');
+  const [swipePosition, setSwipePosition] = useState(50);
+  const [difference, setDifference] = useState<{ url: string; changed: number } | null>(null);
+  const [differenceError, setDifferenceError] = useState(false);
+  const swipeAreaRef = useRef<HTMLDivElement>(null);
+
+  // Only computed once the difference mode is first opened for this pair
+  useEffect(() => {
+    setDifference(null);
+    setDifferenceError(false);
+  }, [before, after]);
+
+  useEffect(() => {
+    if (mode !== 'difference' || difference || differenceError) return;
+    let cancelled = false;
+    renderDifference(before, after)
+      .then(result => { if (!cancelled) setDifference(result); })
+      .catch(error => {
+        console.error("Failed to compute the image difference", error);
+        if (!cancelled) setDifferenceError(true);
+      });
+    return () => { cancelled = true; };
+  }, [mode, before, after, difference, differenceError]);
+
+  const updateSwipe = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = swipeAreaRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setSwipePosition(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handleSwipePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    updateSwipe(e);
+  };
+
+  const handleSwipePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) updateSwipe(e);
+  };
+
+  const modeButtonClass = (active: boolean) =>
+    `py-1.5 px-3 text-sm rounded-md border transition-colors ${active ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-black/30 border-white/20 text-gray-300 hover:border-cyan-500/70'}`;
+  const captionClass = "absolute top-2 px-2 py-0.5 text-xs font-bold bg-black/60 text-white rounded pointer-events-none";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap justify-center gap-2" role="group" aria-label={t('comparison.mode')}>
+        {COMPARISON_MODES.map(option => (
+          <button key={option} onClick={() => setMode(option)} aria-pressed={mode === option} className={modeButtonClass(mode === option)}>
+            {t(`comparison.modes.${option}`)}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'sideBySide' && (
+        <div className="grid grid-cols-2 gap-2">
+          {[{ src: before, label: beforeLabel }, { src: after, label: afterLabel }].map(({ src, label }, index) => (
+            <figure key={index} className="relative flex justify-center items-center bg-black/30 rounded-md overflow-hidden">
+              <img src={src} alt={label} className="max-w-full max-h-[70vh] object-contain" />
+              <figcaption className={`${captionClass} start-2`}>{label}</figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+
+      {/* The slider follows the images left to right, also in right-to-left layouts */}
+      {mode === 'swipe' && (
+        <div dir="ltr" className="space-y-3">
+          <div
+            ref={swipeAreaRef}
+            onPointerDown={handleSwipePointerDown}
+            onPointerMove={handleSwipePointerMove}
+            className="relative mx-auto w-fit select-none touch-none cursor-ew-resize rounded-md overflow-hidden"
+          >
+            <img src={after} alt={afterLabel} draggable={false} className="block max-w-full max-h-[70vh] object-contain" />
+            <img
+              src={before}
+              alt={beforeLabel}
+              draggable={false}
+              className="absolute inset-0 w-full h-full"
+              style={{ clipPath: `inset(0 ${100 - swipePosition}% 0 0)` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow-[0_0_6px_rgba(0,0,0,0.8)] pointer-events-none" style={{ left: `${swipePosition}%` }} />
+            <span className={`${captionClass} left-2`}>{beforeLabel}</span>
+            <span className={`${captionClass} right-2`}>{afterLabel}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(swipePosition)}
+            onChange={(e) => setSwipePosition(parseInt(e.target.value, 10))}
+            aria-label={t('comparison.swipePosition')}
+            className="w-full accent-cyan-500"
+          />
+        </div>
+      )}
+
+      {mode === 'difference' && (
+        <div className="flex flex-col items-center gap-2">
+          {difference ? (
+            <>
+              <img src={difference.url} alt={t('comparison.modes.difference')} className="max-w-full max-h-[70vh] object-contain rounded-md" />
+              <p className="text-sm text-gray-400">
+                {t('comparison.changed').replace('{percent}', (difference.changed * 100).toFixed(1))}
+              </p>
+            </>
+          ) : differenceError ? (
+            <p className="text-sm text-red-400 py-12">{t('comparison.differenceFailed')}</p>
+          ) : (
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-cyan-400 my-12" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,7 +2,9 @@ import React, { useEffect, useRef, useState, memo } from 'react';
 import type { Character, ImageFile } from '../types';
 import { ImageUploader } from './ImageUploader';
 import { ImageEditor } from './ImageEditor';
+import { BackgroundRemover } from './BackgroundRemover';
 import { useTranslation } from '../contexts/LanguageContext';
+import { LIBRARY_CHARACTER_DRAG_TYPE } from '../services/characterLibrary';
 
 interface EditableElementListProps {
   title: string;
@@ -12,10 +14,13 @@ interface EditableElementListProps {
   onNameChange: (id: number, name: string) => void;
   onImageUpload: (id: number, image: ImageFile | null, fileName?: string) => void;
   onReorder?: (startIndex: number, endIndex: number) => void;
+  onLibraryDrop?: (libraryId: string) => void;
   noun: string; // e.g., "Character", "Object"
   isNameEditable?: boolean;
 }
 
+const isLibraryDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(LIBRARY_CHARACTER_DRAG_TYPE);
+
 /** Child component for a single item — keeps its own localName state.
  *  Calls onNameChange on blur or Enter to avoid parent re-renders on every keystroke.
  */
@@ -53,6 +58,7 @@ const EditableItem: React.FC<{
   const { t } = useTranslation();
   const [localName, setLocalName] = useState<string>(elem.name || '');
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isBackgroundModalOpen, setIsBackgroundModalOpen] = useState(false);
   const [imageToEdit, setImageToEdit] = useState<ImageFile | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
 
@@ -90,15 +96,22 @@ const EditableItem: React.FC<{
     }
   };
   
+  const handleRemoveBackgroundClick = () => {
+    if (elem.image) {
+        setImageToEdit(elem.image);
+        setIsBackgroundModalOpen(true);
+    }
+  };
+  
   const handleEditorOnClose = () => {
     setIsEditModalOpen(false);
+    setIsBackgroundModalOpen(false);
     setImageToEdit(null);
   };
 
   const handleEditorOnApply = (newImage: ImageFile) => {
     onImageUpload(elem.id, newImage);
-    setIsEditModalOpen(false);
-    setImageToEdit(null);
+    handleEditorOnClose();
   };
 
 
@@ -122,7 +135,16 @@ const EditableItem: React.FC<{
           image={elem.image}
           onImageUpload={handleInitialImageUpload}
           onEdit={shouldEnableEditing ? handleEditClick : undefined}
+          onRemoveBackground={shouldEnableEditing ? handleRemoveBackgroundClick : undefined}
         >
+          {elem.references && elem.references.length > 0 && (
+            <span
+              className="absolute top-9 start-2 text-[10px] font-bold bg-fuchsia-600/90 text-white rounded px-1.5 py-0.5 pointer-events-none"
+              title={t('library.linkedReferences')}
+            >
+              +{elem.references.length}
+            </span>
+          )}
           {isNameEditable && (
             <input
               ref={inputRef}
@@ -150,12 +172,20 @@ const EditableItem: React.FC<{
       </div>
 
       {shouldEnableEditing && (
-        <ImageEditor
-          isOpen={isEditModalOpen}
-          onClose={handleEditorOnClose}
-          image={imageToEdit}
-          onApply={handleEditorOnApply}
-        />
+        <>
+          <ImageEditor
+            isOpen={isEditModalOpen}
+            onClose={handleEditorOnClose}
+            image={imageToEdit}
+            onApply={handleEditorOnApply}
+          />
+          <BackgroundRemover
+            isOpen={isBackgroundModalOpen}
+            onClose={handleEditorOnClose}
+            image={imageToEdit}
+            onApply={handleEditorOnApply}
+          />
+        </>
       )}
     </>
   );
@@ -169,12 +199,14 @@ export const EditableElementList: React.FC<EditableElementListProps> = ({
   onNameChange,
   onImageUpload,
   onReorder,
+  onLibraryDrop,
   noun,
   isNameEditable = true,
 }) => {
   const { t } = useTranslation();
   const [draggedItemId, setDraggedItemId] = useState<number | null>(null);
   const [dragOverItemId, setDragOverItemId] = useState<number | null>(null);
+  const [isLibraryDragOver, setIsLibraryDragOver] = useState(false);
 
   const handleDragStart = (e: React.DragEvent<HTMLDivElement>, id: number, index: number) => {
     e.dataTransfer.effectAllowed = 'move';
@@ -200,6 +232,8 @@ export const EditableElementList: React.FC<EditableElementListProps> = ({
 
   const handleDrop = (e: React.DragEvent<HTMLDivElement>, dropIndex: number) => {
     e.preventDefault();
+    // Library drops bubble up to the section handler below
+    if (isLibraryDrag(e)) return;
     if (onReorder) {
       const dragIndex = parseInt(e.dataTransfer.getData('text/plain'), 10);
       if (dragIndex !== dropIndex) {
@@ -215,8 +249,33 @@ export const EditableElementList: React.FC<EditableElementListProps> = ({
     setDragOverItemId(null);
   };
 
+  const handleLibraryDragOver = (e: React.DragEvent<HTMLElement>) => {
+    if (!onLibraryDrop || !isLibraryDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsLibraryDragOver(true);
+  };
+
+  const handleLibraryDragLeave = (e: React.DragEvent<HTMLElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsLibraryDragOver(false);
+    }
+  };
+
+  const handleLibraryDrop = (e: React.DragEvent<HTMLElement>) => {
+    setIsLibraryDragOver(false);
+    if (!onLibraryDrop || !isLibraryDrag(e)) return;
+    e.preventDefault();
+    onLibraryDrop(e.dataTransfer.getData(LIBRARY_CHARACTER_DRAG_TYPE));
+  };
+
   return (
-    <section>
+    <section
+      onDragOver={handleLibraryDragOver}
+      onDragLeave={handleLibraryDragLeave}
+      onDrop={handleLibraryDrop}
+      className={`rounded-lg transition-all ${isLibraryDragOver ? 'ring-2 ring-fuchsia-500 ring-offset-4 ring-offset-gray-900' : ''}`}
+    >
       <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-3">
         <h2 className="text-xl font-bold text-cyan-300 tracking-wider">{title}</h2>
         <button
@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from './Modal';
+import { useTranslation } from '../contexts/LanguageContext';
+import {
+  DEFAULT_QUALITY,
+  DEFAULT_SHARPEN,
+  DPI_PRESETS,
+  EXPORT_FORMATS,
+  LONGEST_SIDE_PRESETS,
+  PRINT_SIZES,
+  exceedsExportLimits,
+  exportFileBaseName,
+  planExport,
+  resampleSteps,
+  resolveRequestedSize,
+  sharpen,
+} from '../services/imageExport';
+import type { ExportFormat, ExportPlan, ExportSize, RequestedSize } from '../services/imageExport';
+import type { Size } from '../services/imageTransform';
+import { extensionForMimeType } from '../services/exportBundle';
+import { embedImageDpi, embedImageMetadata, transformDataUrl } from '../services/imageMetadata';
+import type { ImageMetadata } from '../services/imageMetadata';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  image: string | null; // data URL
+  metadata?: ImageMetadata;
+}
+
+type SizeMode = ExportSize['kind'];
+
+const SIZE_MODES: SizeMode[] = ['original', 'longest', 'exact', 'print'];
+const PRESET_NAMES: Record<number, string> = { 1920: 'Full HD', 2560: '2K', 3840: '4K', 7680: '8K' };
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image for export.'));
+        img.src = src;
+    });
+};
+
+const createCanvas = ({ width, height }: Size) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    return { canvas, ctx };
+};
+
+// Crops, then resamples in steps of at most 2x, then sharpens what the resampling softened
+const renderExport = async (image: string, plan: ExportPlan, format: ExportFormat, quality: number, sharpenAmount: number): Promise<string> => {
+    const img = await loadImage(image);
+    const cropSize = { width: Math.round(plan.crop.width), height: Math.round(plan.crop.height) };
+    let { canvas, ctx } = createCanvas(cropSize);
+    ctx.drawImage(img, plan.crop.x, plan.crop.y, plan.crop.width, plan.crop.height, 0, 0, cropSize.width, cropSize.height);
+
+    const resized = cropSize.width !== plan.width || cropSize.height !== plan.height;
+    if (resized) {
+        for (const step of resampleSteps(cropSize, plan)) {
+            const next = createCanvas(step);
+            next.ctx.drawImage(canvas, 0, 0, step.width, step.height);
+            ({ canvas, ctx } = next);
+        }
+        if (sharpenAmount > 0) {
+            const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+            pixels.data.set(sharpen(pixels, sharpenAmount));
+            ctx.putImageData(pixels, 0, 0);
+        }
+    }
+
+    // JPEG has no transparency, and the browser would turn it black
+    if (format === 'jpeg') {
+        const flattened = createCanvas(plan);
+        flattened.ctx.fillStyle = '#ffffff';
+        flattened.ctx.fillRect(0, 0, plan.width, plan.height);
+        flattened.ctx.drawImage(canvas, 0, 0);
+        canvas = flattened.canvas;
+    }
+    const { mimeType, lossy } = EXPORT_FORMATS[format];
+    return canvas.toDataURL(mimeType, lossy ? quality : undefined);
+};
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, image, metadata }) => {
+  const { t } = useTranslation();
+  const [sourceSize, setSourceSize] = useState<Size | null>(null);
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [quality, setQuality] = useState(DEFAULT_QUALITY);
+  const [sizeMode, setSizeMode] = useState<SizeMode>('longest');
+  const [longestSide, setLongestSide] = useState(3840);
+  const [exactSize, setExactSize] = useState<RequestedSize>({ width: null, height: null });
+  const [lockRatio, setLockRatio] = useState(true);
+  const [paper, setPaper] = useState('8x10');
+  const [dpi, setDpi] = useState(300);
+  const [sharpenAmount, setSharpenAmount] = useState(DEFAULT_SHARPEN);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !image) return;
+    let cancelled = false;
+    setSourceSize(null);
+    loadImage(image).then(img => {
+        if (cancelled) return;
+        const size = { width: img.naturalWidth, height: img.naturalHeight };
+        setSourceSize(size);
+        setExactSize(size);
+    }).catch(error => console.error("Failed to load image for export:", error));
+    return () => { cancelled = true; };
+  }, [isOpen, image]);
+
+  if (!image) return null;
+
+  const size: ExportSize =
+    sizeMode === 'original' ? { kind: 'original' }
+    : sizeMode === 'longest' ? { kind: 'longest', pixels: longestSide }
+    : sizeMode === 'exact' ? { kind: 'exact', ...(sourceSize ? resolveRequestedSize(sourceSize, exactSize) : { width: 0, height: 0 }) }
+    : { kind: 'print', paper, dpi };
+  const plan = sourceSize ? planExport(sourceSize, size) : null;
+  const tooLarge = plan ? exceedsExportLimits(plan) : false;
+  const isResized = !!plan && !!sourceSize && (plan.width !== sourceSize.width || plan.height !== sourceSize.height);
+
+  // With the ratio locked, the other side follows the source image's proportions; an emptied side does so too
+  const handleExactChange = (side: keyof Size, input: string) => {
+    if (!sourceSize) return;
+    if (input.trim() === '') {
+        setExactSize(prev => ({ ...prev, [side]: null }));
+        return;
+    }
+    const value = parseInt(input, 10);
+    if (!(value > 0)) return;
+    if (!lockRatio) {
+        setExactSize(prev => ({ ...prev, [side]: value }));
+    } else if (side === 'width') {
+        setExactSize({ width: value, height: Math.max(1, Math.round((value * sourceSize.height) / sourceSize.width)) });
+    } else {
+        setExactSize({ width: Math.max(1, Math.round((value * sourceSize.width) / sourceSize.height)), height: value });
+    }
+  };
+
+  const withMetadata = (bytes: Uint8Array) => {
+    if (!metadata) return bytes;
+    try {
+        return embedImageMetadata(bytes, metadata);
+    } catch (error) {
+        // The image itself matters more than its metadata, and its print size still applies
+        console.error("Failed to embed image metadata:", error);
+        return bytes;
+    }
+  };
+
+  const handleExport = async () => {
+    if (!plan || tooLarge) return;
+    setIsExporting(true);
+    try {
+        let url = await renderExport(image, plan, format, quality, isResized ? sharpenAmount : 0);
+        url = transformDataUrl(url, bytes => {
+            const tagged = withMetadata(bytes);
+            return size.kind === 'print' ? embedImageDpi(tagged, size.dpi) : tagged;
+        });
+        // Browsers without an encoder for the format silently produce a PNG instead
+        const producedType = url.slice(5, url.indexOf(';'));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${exportFileBaseName(plan)}.${extensionForMimeType(producedType)}`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        if (producedType !== EXPORT_FORMATS[format].mimeType) {
+            alert(t('exportDialog.formatUnsupported').replace('{format}', format.toUpperCase()));
+        }
+        onClose();
+    } catch (error) {
+        console.error("Failed to export image:", error);
+        alert(t('exportDialog.failed'));
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
+  const optionButtonClass = (active: boolean) =>
+    `py-1.5 px-3 text-sm rounded-md border transition-colors ${active ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-black/30 border-white/20 text-gray-300 hover:border-cyan-500/70'}`;
+  const fieldClass = "w-full bg-black/30 border border-white/20 text-gray-200 rounded-md p-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+  const labelClass = "block text-sm font-medium text-gray-400 mb-2";
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <div className="bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-3xl text-white">
+        <h2 className="text-2xl font-bold mb-4 text-cyan-300">{t('exportDialog.title')}</h2>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+            <div className="md:col-span-2 flex flex-col items-center justify-center bg-black/20 p-2 rounded-md">
+                <img src={image} alt={t('imageEditor.preview')} className="max-h-64 max-w-full object-contain rounded" />
+                {sourceSize && (
+                    <p className="mt-2 text-xs text-gray-500">{t('exportDialog.source').replace('{width}', String(sourceSize.width)).replace('{height}', String(sourceSize.height))}</p>
+                )}
+            </div>
+            <div className="md:col-span-3 space-y-4">
+                <div>
+                    <span className={labelClass}>{t('exportDialog.format')}</span>
+                    <div className="flex gap-2">
+                        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(option => (
+                            <button key={option} onClick={() => setFormat(option)} className={optionButtonClass(format === option)}>{option.toUpperCase()}</button>
+                        ))}
+                    </div>
+                </div>
+                {EXPORT_FORMATS[format].lossy && (
+                    <div>
+                        <label htmlFor="export-quality" className={labelClass}>{t('exportDialog.quality')}: {Math.round(quality * 100)}%</label>
+                        <input id="export-quality" type="range" min={0.5} max={1} step={0.01} value={quality} onChange={(e) => setQuality(parseFloat(e.target.value))} className="w-full accent-cyan-500" />
+                    </div>
+                )}
+                <div>
+                    <span className={labelClass}>{t('exportDialog.size')}</span>
+                    <div className="flex flex-wrap gap-2">
+                        {SIZE_MODES.map(mode => (
+                            <button key={mode} onClick={() => setSizeMode(mode)} className={optionButtonClass(sizeMode === mode)}>{t(`exportDialog.sizeModes.${mode}`)}</button>
+                        ))}
+                    </div>
+                </div>
+                {sizeMode === 'longest' && (
+                    <select value={longestSide} onChange={(e) => setLongestSide(parseInt(e.target.value, 10))} aria-label={t('exportDialog.sizeModes.longest')} className={fieldClass}>
+                        {LONGEST_SIDE_PRESETS.map(pixels => (
+                            <option key={pixels} value={pixels} className="bg-gray-800">{`${pixels} px (${PRESET_NAMES[pixels]})`}</option>
+                        ))}
+                    </select>
+                )}
+                {sizeMode === 'exact' && (
+                    <div className="flex items-center gap-2">
+                        <input type="number" min={1} value={exactSize.width ?? ''} placeholder={plan ? String(plan.width) : undefined} onChange={(e) => handleExactChange('width', e.target.value)} aria-label={t('exportDialog.width')} className={fieldClass} />
+                        <span className="text-gray-500">×</span>
+                        <input type="number" min={1} value={exactSize.height ?? ''} placeholder={plan ? String(plan.height) : undefined} onChange={(e) => handleExactChange('height', e.target.value)} aria-label={t('exportDialog.height')} className={fieldClass} />
+                        <label className="flex items-center gap-1.5 text-sm text-gray-300 whitespace-nowrap">
+                            <input type="checkbox" checked={lockRatio} onChange={(e) => setLockRatio(e.target.checked)} className="accent-cyan-500" />
+                            {t('exportDialog.lockRatio')}
+                        </label>
+                    </div>
+                )}
+                {sizeMode === 'print' && (
+                    <div className="grid grid-cols-2 gap-2">
+                        <select value={paper} onChange={(e) => setPaper(e.target.value)} aria-label={t('exportDialog.paper')} className={fieldClass}>
+                            {PRINT_SIZES.map(option => (
+                                <option key={option.id} value={option.id} className="bg-gray-800">{option.label}</option>
+                            ))}
+                        </select>
+                        <select value={dpi} onChange={(e) => setDpi(parseInt(e.target.value, 10))} aria-label={t('exportDialog.dpi')} className={fieldClass}>
+                            {DPI_PRESETS.map(option => (
+                                <option key={option} value={option} className="bg-gray-800">{`${option} DPI`}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="export-sharpen" className={labelClass}>{t('exportDialog.sharpen')}: {Math.round(sharpenAmount * 100)}%</label>
+                    <input id="export-sharpen" type="range" min={0} max={1} step={0.05} value={sharpenAmount} disabled={!isResized} onChange={(e) => setSharpenAmount(parseFloat(e.target.value))} className="w-full accent-cyan-500 disabled:opacity-40" />
+                </div>
+                {plan && (
+                    <p className={`text-sm ${tooLarge ? 'text-red-400' : 'text-gray-300'}`}>
+                        {tooLarge
+                            ? t('exportDialog.tooLarge')
+                            : size.kind === 'print'
+                                ? t('exportDialog.printSummary')
+                                    .replace('{width}', String(plan.width)).replace('{height}', String(plan.height))
+                                    .replace('{inchesWide}', (plan.width / size.dpi).toFixed(1)).replace('{inchesHigh}', (plan.height / size.dpi).toFixed(1))
+                                    .replace('{dpi}', String(size.dpi))
+                                : t('exportDialog.summary').replace('{width}', String(plan.width)).replace('{height}', String(plan.height))}
+                    </p>
+                )}
+            </div>
+        </div>
+        <div className="mt-6 flex justify-end gap-4">
+            <button onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+                {t('common.cancel')}
+            </button>
+            <button
+                onClick={handleExport}
+                disabled={!plan || tooLarge || isExporting}
+                className="py-2 px-4 bg-cyan-600 hover:bg-cyan-500 rounded-md transition-colors disabled:bg-gray-700 disabled:cursor-not-allowed"
+            >
+                {isExporting ? t('common.processing') : t('common.download')}
+            </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
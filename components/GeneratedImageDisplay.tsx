@@ -1,12 +1,28 @@
 import React, { useState } from 'react';
 import { useTranslation } from '../contexts/LanguageContext';
-import { resizeImage } from './ImageUploader';
+import { GenerationErrorMessage } from './GenerationErrorMessage';
+import type { GeneratedOutput } from '../types';
+import { embedMetadataInDataUrl } from '../services/imageMetadata';
+import type { ImageMetadata } from '../services/imageMetadata';
+import { extensionForMimeType } from '../services/exportBundle';
 
 interface GeneratedImageDisplayProps {
-  images: string[];
+  images: GeneratedOutput[];
   isLoading: boolean;
-  error: string | null;
+  error: Error | string | null;
+  // Shown before the error when some images succeeded, e.g. "1 of 4 images failed:"
+  errorPrefix?: string;
   onView: (image: string) => void;
+  // Offered on each image when there is something to compare it against, e.g. an edit's base image
+  onCompare?: (image: string) => void;
+  // Makes the image the base for the next edit
+  onContinue?: (output: GeneratedOutput) => void;
+  // Downloads the chosen outputs as one ZIP
+  onExport?: (outputs: GeneratedOutput[]) => void;
+  // What to embed in downloaded files about how the image was made
+  metadataFor?: (output: GeneratedOutput) => ImageMetadata;
+  // Opens the export dialog for other formats and sizes
+  onExportImage?: (output: GeneratedOutput) => void;
 }
 
 const LoadingSpinner: React.FC = () => {
@@ -20,66 +36,109 @@ const LoadingSpinner: React.FC = () => {
     );
 };
 
+// The extension follows the data URL's type, so JPEG results are not saved as .png
 const downloadImage = (imageUrl: string, fileName: string) => {
     const link = document.createElement('a');
     link.href = imageUrl;
-    link.download = `${fileName}.png`;
+    link.download = `${fileName}.${extensionForMimeType(imageUrl.slice(5, imageUrl.indexOf(';')))}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
 };
 
-const ImageWithControls: React.FC<{image: string; onView: () => void;}> = ({ image, onView }) => {
+// Text the model returned with the image, plus the finish reason when it was not a normal stop
+const OutputNotes: React.FC<{ output: GeneratedOutput }> = ({ output }) => {
     const { t } = useTranslation();
-    const [isResizing, setIsResizing] = useState<null | '2k' | '4k'>(null);
+    const unusualFinish = output.finishReason && output.finishReason !== 'STOP' ? output.finishReason : null;
+    if (!output.commentary && !unusualFinish) return null;
+    return (
+        <div className="flex-shrink-0 max-h-24 overflow-y-auto px-3 py-2 text-xs text-gray-300 bg-black/40 border-t border-white/10">
+            {output.commentary && (
+                <p className="whitespace-pre-wrap"><span className="font-bold text-cyan-300/80">{t('output.commentary')}: </span>{output.commentary}</p>
+            )}
+            {unusualFinish && (
+                <p className="mt-1 text-amber-300/80">{t('output.finishReason').replace('{reason}', unusualFinish)}</p>
+            )}
+        </div>
+    );
+};
+
+const ImageWithControls: React.FC<{output: GeneratedOutput; onView: () => void; onCompare?: () => void; onContinue?: () => void; isSelected?: boolean; onToggleSelected?: () => void; metadata?: () => ImageMetadata; onExport?: () => void;}> = ({ output, onView, onCompare, onContinue, isSelected, onToggleSelected, metadata, onExport }) => {
+    const { t } = useTranslation();
+    const { image } = output;
 
-    const handleResizeAndDownload = async (resolution: '2k' | '4k') => {
-        setIsResizing(resolution);
+    const withMetadata = (imageUrl: string) => {
+        if (!metadata) return imageUrl;
         try {
-            const targetSize = resolution === '2k' ? 2560 : 3840;
-            const fileName = `generated-image-${resolution}-${Date.now()}`;
-            const resizedImageUrl = await resizeImage(image, targetSize);
-            downloadImage(resizedImageUrl, fileName);
-        } catch(error) {
-            console.error(`Failed to download ${resolution} image:`, error);
-            alert(`Sorry, there was an error creating the ${resolution} download. Please try again.`);
-        } finally {
-            setIsResizing(null);
+            return embedMetadataInDataUrl(imageUrl, metadata());
+        } catch (error) {
+            // The image itself matters more than its metadata
+            console.error("Failed to embed image metadata:", error);
+            return imageUrl;
         }
     };
-    
-    const buttonClass = "text-sm flex items-center justify-center gap-2 bg-black/50 backdrop-blur-sm border border-white/20 rounded-md px-3 py-1.5 w-full transition-all";
-    const disabledClass = "disabled:bg-gray-600 disabled:cursor-wait disabled:text-gray-400 disabled:border-gray-500 disabled:hover:bg-gray-600";
 
+    const buttonClass = "text-sm flex items-center justify-center gap-2 bg-black/50 backdrop-blur-sm border border-white/20 rounded-md px-3 py-1.5 w-full transition-all";
 
     return (
-        <div className="relative group bg-black/20 rounded-lg overflow-hidden shadow-lg border border-white/10 flex justify-center items-center h-full">
-            <img src={image} alt="Generated story scene" className="max-w-full max-h-full object-contain transition-transform duration-300 group-hover:scale-105" />
-            <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-70 transition-all flex flex-col items-center justify-center p-2">
-                <div className="opacity-0 group-hover:opacity-100 transition-opacity text-white text-center flex flex-col gap-2 w-full max-w-[160px]">
-                    <button onClick={onView} className={`${buttonClass} hover:bg-cyan-500 hover:border-cyan-500 hover:text-black`}>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5v-4m0 0h-4m4 0l-5-5" /></svg>
-                        {t('common.view')}
-                    </button>
-                    <button onClick={() => downloadImage(image, `generated-image-original-${Date.now()}`)} className={`${buttonClass} hover:bg-green-500 hover:border-green-500 hover:text-black`}>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-                        {t('output.downloadOriginal')}
-                    </button>
-                     <button onClick={() => handleResizeAndDownload('2k')} disabled={!!isResizing} className={`${buttonClass} hover:bg-purple-500 hover:border-purple-500 hover:text-black ${disabledClass}`}>
-                        {isResizing === '2k' ? t('common.processing') : t('output.download2k')}
-                    </button>
-                     <button onClick={() => handleResizeAndDownload('4k')} disabled={!!isResizing} className={`${buttonClass} hover:bg-purple-500 hover:border-purple-500 hover:text-black ${disabledClass}`}>
-                        {isResizing === '4k' ? t('common.processing') : t('output.download4k')}
-                    </button>
+        <div className="bg-black/20 rounded-lg overflow-hidden shadow-lg border border-white/10 flex flex-col h-full min-h-0">
+            <div className="relative group flex-grow min-h-0 flex justify-center items-center">
+                <img src={image} alt="Generated story scene" className="max-w-full max-h-full object-contain transition-transform duration-300 group-hover:scale-105" />
+                <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-70 transition-all flex flex-col items-center justify-center p-2">
+                    <div className="opacity-0 group-hover:opacity-100 transition-opacity text-white text-center flex flex-col gap-2 w-full max-w-[160px]">
+                        <button onClick={onView} className={`${buttonClass} hover:bg-cyan-500 hover:border-cyan-500 hover:text-black`}>
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5v-4m0 0h-4m4 0l-5-5" /></svg>
+                            {t('common.view')}
+                        </button>
+                        {onCompare && (
+                            <button onClick={onCompare} className={`${buttonClass} hover:bg-fuchsia-500 hover:border-fuchsia-500 hover:text-black`}>
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16M8 6H5a1 1 0 00-1 1v10a1 1 0 001 1h3m8-12h3a1 1 0 011 1v10a1 1 0 01-1 1h-3" /></svg>
+                                {t('comparison.compare')}
+                            </button>
+                        )}
+                        {onContinue && (
+                            <button onClick={onContinue} className={`${buttonClass} hover:bg-fuchsia-500 hover:border-fuchsia-500 hover:text-black`}>
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" /></svg>
+                                {t('lineage.continue')}
+                            </button>
+                        )}
+                        <button onClick={() => downloadImage(withMetadata(image), `generated-image-original-${Date.now()}`)} className={`${buttonClass} hover:bg-green-500 hover:border-green-500 hover:text-black`}>
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                            {t('output.downloadOriginal')}
+                        </button>
+                        {onExport && (
+                            <button onClick={onExport} className={`${buttonClass} hover:bg-purple-500 hover:border-purple-500 hover:text-black`}>
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5v-4m0 0h-4m4 0l-5-5" /></svg>
+                                {t('output.exportAs')}
+                            </button>
+                        )}
+                    </div>
                 </div>
+                {onToggleSelected && (
+                    <label className={`absolute top-2 start-2 flex items-center justify-center w-6 h-6 rounded bg-black/60 border cursor-pointer transition-opacity ${isSelected ? 'border-cyan-400 opacity-100' : 'border-white/40 opacity-0 group-hover:opacity-100 focus-within:opacity-100'}`}>
+                        <input type="checkbox" checked={!!isSelected} onChange={onToggleSelected} aria-label={t('export.selectOutput')} className="accent-cyan-500" />
+                    </label>
+                )}
             </div>
+            <OutputNotes output={output} />
         </div>
     );
 };
 
 
-export const GeneratedImageDisplay: React.FC<GeneratedImageDisplayProps> = ({ images, isLoading, error, onView }) => {
+export const GeneratedImageDisplay: React.FC<GeneratedImageDisplayProps> = ({ images, isLoading, error, errorPrefix, onView, onCompare, onContinue, onExport, metadataFor, onExportImage }) => {
   const { t } = useTranslation();
+  // Keyed by data URL, so outputs replaced by a new batch drop out of the selection
+  const [selectedImages, setSelectedImages] = useState<Set<string>>(() => new Set());
+  const selectedOutputs = images.filter(output => selectedImages.has(output.image));
+
+  const toggleSelected = (image: string) => {
+    setSelectedImages(prev => {
+      const next = new Set(prev);
+      if (next.has(image)) next.delete(image); else next.add(image);
+      return next;
+    });
+  };
   
   const numImages = images.length;
   let gridClass = 'grid-cols-1 grid-rows-1';
@@ -94,22 +153,46 @@ export const GeneratedImageDisplay: React.FC<GeneratedImageDisplayProps> = ({ im
     <div className="w-full h-full flex items-center justify-center p-2 relative overflow-hidden">
       <div className="absolute inset-0 bg-grid-white/[0.05] [mask-image:linear-gradient(to_bottom,white_5%,transparent_95%)]"></div>
        <div className="relative w-full h-full flex items-center justify-center">
-        {isLoading && <LoadingSpinner />}
-        {!isLoading && error && (
-          <div className="text-center text-red-400 p-8 bg-red-900/20 rounded-lg border border-red-500/30">
-            <h3 className="text-xl font-bold">{t('output.errorTitle')}</h3>
-            <p className="mt-2 text-sm">{error}</p>
-          </div>
+        {/* Images are shown as soon as they arrive; the spinner only covers the wait for the first one */}
+        {isLoading && images.length === 0 && <LoadingSpinner />}
+        {!isLoading && error && images.length === 0 && (
+          <GenerationErrorMessage error={error} />
         )}
-        {!isLoading && !error && images.length > 0 && (
-            <div className={`w-full h-full p-2 grid ${gridClass} gap-4`}>
-                {images.map((image, index) => (
-                    <ImageWithControls 
-                        key={index} 
-                        image={image} 
-                        onView={() => onView(image)} 
-                    />
-                ))}
+        {images.length > 0 && (
+            <div className="w-full h-full flex flex-col gap-2">
+                {error && (
+                    <GenerationErrorMessage error={error} prefix={errorPrefix} compact />
+                )}
+                {onExport && (
+                    <div className="flex items-center justify-end gap-3 px-2 text-xs text-gray-400">
+                        {selectedOutputs.length > 0 && (
+                            <button onClick={() => setSelectedImages(new Set())} className="hover:text-white">{t('export.clearSelection')}</button>
+                        )}
+                        <button
+                            onClick={() => onExport(selectedOutputs.length > 0 ? selectedOutputs : images)}
+                            className="font-bold text-green-300 border border-green-500/40 rounded-md px-2.5 py-1 hover:bg-green-500 hover:text-black transition-colors"
+                        >
+                            {selectedOutputs.length > 0
+                                ? t('export.downloadSelected').replace('{count}', String(selectedOutputs.length))
+                                : t('export.downloadAll')}
+                        </button>
+                    </div>
+                )}
+                <div className={`w-full flex-grow min-h-0 p-2 grid ${gridClass} gap-4`}>
+                    {images.map((output, index) => (
+                        <ImageWithControls 
+                            key={index} 
+                            output={output} 
+                            onView={() => onView(output.image)} 
+                            onCompare={onCompare && (() => onCompare(output.image))}
+                            onContinue={onContinue && (() => onContinue(output))}
+                            isSelected={selectedImages.has(output.image)}
+                            onToggleSelected={onExport && (() => toggleSelected(output.image))}
+                            metadata={metadataFor && (() => metadataFor(output))}
+                            onExport={onExportImage && (() => onExportImage(output))}
+                        />
+                    ))}
+                </div>
             </div>
         )}
         {!isLoading && !error && images.length === 0 && (
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from '../contexts/LanguageContext';
+import { isGenerationError } from '../services/generationErrors';
+import type { GenerationError } from '../services/generationErrors';
+
+interface GenerationErrorMessageProps {
+  error: Error | string;
+  // Compact banners sit above partial results and in storyboard cards
+  compact?: boolean;
+  prefix?: string;
+}
+
+// Seconds left until a quota error's retry hint expires, updated every second
+const useSecondsUntil = (timestamp: number | null): number | null => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (timestamp === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [timestamp]);
+  return timestamp === null ? null : Math.max(0, Math.ceil((timestamp - now) / 1000));
+};
+
+const useErrorText = (error: Error | string) => {
+  const { t } = useTranslation();
+  const typed: GenerationError | null = isGenerationError(error) ? error : null;
+  const secondsLeft = useSecondsUntil(typed?.retryAt ?? null);
+
+  if (!typed || typed.code === 'unknown') {
+    return { title: t('output.errorTitle'), hint: typeof error === 'string' ? error : error.message, detail: null };
+  }
+
+  const lines = [t(`errors.${typed.code}.hint`)];
+  if (typed.code === 'safetyBlocked' && typed.safetyCategories.length > 0) {
+    const categories = typed.safetyCategories.map(category => {
+      const key = `errors.categories.${category}`;
+      const label = t(key);
+      return label === key ? category : label;
+    });
+    lines.push(t('errors.safetyBlocked.categories').replace('{categories}', categories.join(', ')));
+  }
+  if (typed.code === 'quota' && secondsLeft !== null) {
+    lines.push(secondsLeft > 0 ? t('errors.quota.retryIn').replace('{seconds}', String(secondsLeft)) : t('errors.quota.retryNow'));
+  }
+  return { title: t(`errors.${typed.code}.title`), hint: lines.join(' '), detail: typed.message };
+};
+
+export const GenerationErrorMessage: React.FC<GenerationErrorMessageProps> = ({ error, compact = false, prefix }) => {
+  const { title, hint, detail } = useErrorText(error);
+
+  if (compact) {
+    return (
+      <div className="text-sm text-red-300 bg-red-900/20 border border-red-500/30 rounded-lg px-3 py-2" role="alert">
+        <p>
+          {prefix && <span>{prefix} </span>}
+          <span className="font-bold">{title}.</span> {hint}
+        </p>
+        {detail && <p className="mt-1 text-xs text-red-400/60 break-words">{detail}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-center text-red-400 p-8 bg-red-900/20 rounded-lg border border-red-500/30 max-w-lg" role="alert">
+      <h3 className="text-xl font-bold">{title}</h3>
+      <p className="mt-2 text-sm">{hint}</p>
+      {detail && <p className="mt-3 text-xs text-red-400/60 break-words">{detail}</p>}
+    </div>
+  );
+};
@@ -1,7 +1,18 @@
-
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import type { HistoryItem } from '../types';
 import { useTranslation } from '../contexts/LanguageContext';
+import { getArtisticStyleOptions, getAspectRatioOptions } from '../constants';
+import { enforceHistoryLimits, getHistoryStorageConfig, setHistoryStorageConfig } from '../services/historyStore';
+import {
+  EMPTY_HISTORY_FILTER,
+  collectHistoryTags,
+  collectSettingValues,
+  countActiveFilters,
+  filterHistory,
+  normalizeTags,
+} from '../services/historyFilter';
+import type { HistoryFilter, HistoryTabFilter } from '../services/historyFilter';
+import { virtualGridWindow } from '../services/virtualGrid';
 
 interface HistoryPanelProps {
   isOpen: boolean;
@@ -9,20 +20,149 @@ interface HistoryPanelProps {
   history: HistoryItem[];
   onView: (item: HistoryItem) => void;
   onUseForEdit: (item: HistoryItem) => void;
+  onRestoreSettings: (item: HistoryItem) => void;
   onDelete: (id: string) => void;
+  onDeleteMany: (ids: string[]) => void;
+  onExport: (items: HistoryItem[]) => void;
+  onToggleFavorite: (item: HistoryItem) => void;
+  onUpdateTags: (item: HistoryItem, tags: string[]) => void;
   onClear: () => void;
+  onEvicted: (ids: string[]) => void;
+  onCompare: (first: HistoryItem, second: HistoryItem) => void;
 }
 
+const MAX_ITEM_OPTIONS = [50, 100, 250, 500, 1000];
+const GRID_COLUMNS = 3;
+const GRID_GAP = 12; // matches gap-3
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const fieldClass = "w-full bg-black/30 border border-white/20 text-gray-200 rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-2 focus:ring-cyan-500";
+const toolbarButtonClass = (active: boolean) =>
+  `text-xs font-bold rounded-md border px-2.5 py-1.5 transition-colors ${active ? 'bg-cyan-600 border-cyan-500 text-white' : 'border-white/20 text-gray-300 hover:border-cyan-500/70'}`;
+
 export const HistoryPanel: React.FC<HistoryPanelProps> = ({
   isOpen,
   onClose,
   history,
   onView,
   onUseForEdit,
+  onRestoreSettings,
   onDelete,
+  onDeleteMany,
+  onExport,
+  onToggleFavorite,
+  onUpdateTags,
   onClear,
+  onEvicted,
+  onCompare,
 }) => {
   const { t } = useTranslation();
+  const [maxItems, setMaxItems] = useState<number>(() => getHistoryStorageConfig().maxItems);
+  // The first image picked for a comparison, waiting for the second
+  const [compareFirst, setCompareFirst] = useState<HistoryItem | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const [showFilters, setShowFilters] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [tagEditor, setTagEditor] = useState<{ item: HistoryItem; value: string } | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [gridSize, setGridSize] = useState({ width: 0, viewportHeight: 0 });
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLUListElement>(null);
+  const totalBytes = history.reduce((sum, item) => sum + item.byteSize, 0);
+
+  const filteredHistory = useMemo(() => filterHistory(history, filter), [history, filter]);
+  const tagOptions = useMemo(() => collectHistoryTags(history), [history]);
+  const styleOptions = useMemo(() => {
+    const labels = new Map(getArtisticStyleOptions(t).map(option => [option.value, option.label]));
+    return collectSettingValues(history, 'artisticStyle').map(value => ({ value, label: labels.get(value) ?? value }));
+  }, [history, t]);
+  const aspectOptions = useMemo(() => {
+    const labels = new Map(getAspectRatioOptions(t).map(option => [option.value, option.label]));
+    return collectSettingValues(history, 'aspectRatio').map(value => ({ value, label: labels.get(value) ?? value }));
+  }, [history, t]);
+  const activeFilterCount = countActiveFilters(filter);
+  // Deleted or evicted items drop out of the selection on their own
+  const selectedItems = useMemo(() => history.filter(item => selectedIds.has(item.id)), [history, selectedIds]);
+
+  // The grid is measured so only the rows near the viewport are rendered
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    const grid = gridRef.current;
+    if (!isOpen || !scroller || !grid) return;
+    const measure = () => setGridSize({ width: grid.clientWidth, viewportHeight: scroller.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(scroller);
+    observer.observe(grid);
+    return () => observer.disconnect();
+  }, [isOpen, filteredHistory.length > 0]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [filter]);
+
+  const cellSize = gridSize.width > 0 ? (gridSize.width - GRID_GAP * (GRID_COLUMNS - 1)) / GRID_COLUMNS : 0;
+  const visible = virtualGridWindow({
+    itemCount: filteredHistory.length,
+    columns: GRID_COLUMNS,
+    rowHeight: cellSize > 0 ? cellSize + GRID_GAP : 0,
+    scrollTop,
+    viewportHeight: gridSize.viewportHeight,
+  });
+
+  const handleMaxItemsChange = async (value: number) => {
+    setMaxItems(value);
+    const config = { ...getHistoryStorageConfig(), maxItems: value };
+    setHistoryStorageConfig(config);
+    try {
+      onEvicted(await enforceHistoryLimits(config));
+    } catch (error) {
+      console.error("Failed to apply history limit:", error);
+    }
+  };
+
+  const handleCompareClick = (item: HistoryItem) => {
+    if (!compareFirst) {
+      setCompareFirst(item);
+    } else if (compareFirst.id === item.id) {
+      setCompareFirst(null);
+    } else {
+      onCompare(compareFirst, item);
+      setCompareFirst(null);
+    }
+  };
+
+  const updateFilter = (changes: Partial<HistoryFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleStopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleDeleteSelected = () => {
+    onDeleteMany(selectedItems.map(item => item.id));
+    setSelectedIds(new Set());
+  };
+
+  const handleSaveTags = () => {
+    if (!tagEditor) return;
+    onUpdateTags(tagEditor.item, normalizeTags(tagEditor.value));
+    setTagEditor(null);
+  };
+
+  const overlayButtonClass = "text-xs bg-black/50 backdrop-blur-sm border border-white/20 hover:text-black rounded px-2 py-1 w-full transition-colors";
+
   return (
     <>
       {/* Overlay */}
@@ -33,10 +173,10 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
         onClick={onClose}
         aria-hidden="true"
       />
-      
+
       {/* Panel */}
       <aside
-        className={`fixed top-0 end-0 h-full w-full max-w-sm bg-gray-900/80 backdrop-blur-lg border-s border-white/10 shadow-2xl z-30 transform transition-transform duration-300 ease-in-out ${
+        className={`fixed top-0 end-0 h-full w-full max-w-xl bg-gray-900/80 backdrop-blur-lg border-s border-white/10 shadow-2xl z-30 transform transition-transform duration-300 ease-in-out ${
           isOpen ? 'translate-x-0' : 'translate-x-full rtl:-translate-x-full'
         }`}
         aria-label={t('history.title')}
@@ -52,23 +192,197 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
             </button>
           </header>
 
+          {/* Search, filters and selection */}
+          {history.length > 0 && (
+            <div className="p-4 border-b border-white/10 flex-shrink-0 space-y-3">
+              <div className="flex gap-2">
+                <input
+                  type="search"
+                  value={filter.query}
+                  onChange={(e) => updateFilter({ query: e.target.value })}
+                  placeholder={t('history.search')}
+                  aria-label={t('history.search')}
+                  className="flex-grow min-w-0 bg-black/30 border border-white/20 text-gray-200 rounded-lg p-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 placeholder-gray-500"
+                />
+                <button onClick={() => setShowFilters(prev => !prev)} aria-expanded={showFilters} className={toolbarButtonClass(showFilters || activeFilterCount > 0)}>
+                  {activeFilterCount > 0 ? `${t('history.filters.title')} (${activeFilterCount})` : t('history.filters.title')}
+                </button>
+                <button onClick={() => isSelecting ? handleStopSelecting() : setIsSelecting(true)} className={toolbarButtonClass(isSelecting)}>
+                  {isSelecting ? t('history.select.done') : t('history.select.start')}
+                </button>
+              </div>
+
+              {showFilters && (
+                <div className="grid grid-cols-2 gap-3 text-xs text-gray-400">
+                  <label className="space-y-1">
+                    <span>{t('history.filters.from')}</span>
+                    <input type="date" value={filter.from} max={filter.to || undefined} onChange={(e) => updateFilter({ from: e.target.value })} className={fieldClass} />
+                  </label>
+                  <label className="space-y-1">
+                    <span>{t('history.filters.to')}</span>
+                    <input type="date" value={filter.to} min={filter.from || undefined} onChange={(e) => updateFilter({ to: e.target.value })} className={fieldClass} />
+                  </label>
+                  <label className="space-y-1">
+                    <span>{t('history.filters.tab')}</span>
+                    <select value={filter.tab} onChange={(e) => updateFilter({ tab: e.target.value as HistoryTabFilter })} className={fieldClass}>
+                      <option value="all" className="bg-gray-800">{t('history.filters.any')}</option>
+                      <option value="gen" className="bg-gray-800">{t('tabs.generate')}</option>
+                      <option value="edit" className="bg-gray-800">{t('tabs.edit')}</option>
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span>{t('history.filters.tag')}</span>
+                    <select value={filter.tag} onChange={(e) => updateFilter({ tag: e.target.value })} className={fieldClass}>
+                      <option value="" className="bg-gray-800">{t('history.filters.any')}</option>
+                      {tagOptions.map(tag => <option key={tag} value={tag} className="bg-gray-800">{tag}</option>)}
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span>{t('history.filters.style')}</span>
+                    <select value={filter.style} onChange={(e) => updateFilter({ style: e.target.value })} className={fieldClass}>
+                      <option value="" className="bg-gray-800">{t('history.filters.any')}</option>
+                      {styleOptions.map(option => <option key={option.value} value={option.value} className="bg-gray-800">{option.label}</option>)}
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span>{t('history.filters.aspectRatio')}</span>
+                    <select value={filter.aspectRatio} onChange={(e) => updateFilter({ aspectRatio: e.target.value })} className={fieldClass}>
+                      <option value="" className="bg-gray-800">{t('history.filters.any')}</option>
+                      {aspectOptions.map(option => <option key={option.value} value={option.value} className="bg-gray-800">{option.label}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-gray-300">
+                    <input type="checkbox" checked={filter.favoritesOnly} onChange={(e) => updateFilter({ favoritesOnly: e.target.checked })} className="accent-cyan-500" />
+                    {t('history.filters.favoritesOnly')}
+                  </label>
+                  <button
+                    onClick={() => setFilter(prev => ({ ...EMPTY_HISTORY_FILTER, query: prev.query }))}
+                    disabled={activeFilterCount === 0}
+                    className="justify-self-end text-cyan-400 hover:text-cyan-300 disabled:text-gray-600"
+                  >
+                    {t('history.filters.reset')}
+                  </button>
+                </div>
+              )}
+
+              {filteredHistory.length !== history.length && (
+                <p className="text-xs text-gray-500">
+                  {t('history.filters.showing').replace('{shown}', String(filteredHistory.length)).replace('{total}', String(history.length))}
+                </p>
+              )}
+            </div>
+          )}
+
+          {isSelecting && (
+            <div className="flex flex-wrap items-center gap-2 px-4 py-2 text-xs text-cyan-100 bg-cyan-900/30 border-b border-cyan-500/30 flex-shrink-0">
+              <span className="me-auto">{t('history.select.count').replace('{count}', String(selectedItems.length))}</span>
+              <button onClick={() => setSelectedIds(new Set(filteredHistory.map(item => item.id)))} className="font-bold hover:text-white">{t('history.select.all')}</button>
+              <button onClick={() => setSelectedIds(new Set())} disabled={selectedItems.length === 0} className="font-bold hover:text-white disabled:text-gray-600">{t('history.select.none')}</button>
+              <button onClick={() => onExport(selectedItems)} disabled={selectedItems.length === 0} className="font-bold text-green-300 hover:text-green-200 disabled:text-gray-600">{t('history.select.export')}</button>
+              <button onClick={handleDeleteSelected} disabled={selectedItems.length === 0} className="font-bold text-red-300 hover:text-red-200 disabled:text-gray-600">{t('history.select.delete')}</button>
+            </div>
+          )}
+
+          {compareFirst && (
+            <div className="flex items-center justify-between gap-2 px-4 py-2 text-xs text-fuchsia-200 bg-fuchsia-900/40 border-b border-fuchsia-500/30 flex-shrink-0">
+              <span>{t('history.comparePick')}</span>
+              <button onClick={() => setCompareFirst(null)} className="font-bold hover:text-white">{t('common.cancel')}</button>
+            </div>
+          )}
+
+          {tagEditor && (
+            <div className="flex items-center gap-2 px-4 py-2 border-b border-white/10 flex-shrink-0">
+              <input
+                type="text"
+                autoFocus
+                value={tagEditor.value}
+                onChange={(e) => setTagEditor({ ...tagEditor, value: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSaveTags(); if (e.key === 'Escape') setTagEditor(null); }}
+                placeholder={t('history.tags.placeholder')}
+                aria-label={t('history.tags.edit')}
+                className="flex-grow min-w-0 bg-black/30 border border-white/20 text-gray-200 rounded-md p-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 placeholder-gray-500"
+              />
+              <button onClick={handleSaveTags} className="text-xs font-bold text-cyan-400 hover:text-cyan-300">{t('history.tags.save')}</button>
+              <button onClick={() => setTagEditor(null)} className="text-xs font-bold text-gray-400 hover:text-white">{t('common.cancel')}</button>
+            </div>
+          )}
+
           {/* History List */}
-          <div className="flex-grow overflow-y-auto p-4">
-            {history.length > 0 ? (
-              <ul className="grid grid-cols-2 gap-4">
-                {history.map((item) => (
-                  <li key={item.id} className="relative group aspect-square bg-black/20 rounded-lg overflow-hidden shadow-md border border-white/10">
+          <div ref={scrollRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)} className="flex-grow overflow-y-auto p-4">
+            {filteredHistory.length > 0 ? (
+              <ul
+                ref={gridRef}
+                className="grid grid-cols-3 gap-3"
+                style={{ paddingTop: visible.paddingTop, paddingBottom: visible.paddingBottom }}
+              >
+                {filteredHistory.slice(visible.startIndex, visible.endIndex).map((item) => {
+                  const isSelected = selectedIds.has(item.id);
+                  return (
+                  <li key={item.id} className={`relative group aspect-square bg-black/20 rounded-lg overflow-hidden shadow-md border ${isSelected || compareFirst?.id === item.id ? 'border-fuchsia-500 ring-2 ring-fuchsia-500' : 'border-white/10'}`}>
                     <img
-                      src={`data:${item.image.mimeType};base64,${item.image.base64}`}
+                      src={`data:${item.thumbnail.mimeType};base64,${item.thumbnail.base64}`}
                       alt={item.prompt.substring(0, 50)}
+                      loading="lazy"
                       className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
                     />
+                    {isSelecting ? (
+                      <button
+                        onClick={() => toggleSelected(item.id)}
+                        aria-pressed={isSelected}
+                        aria-label={item.prompt.substring(0, 50)}
+                        className={`absolute inset-0 flex items-start justify-start p-2 transition-colors ${isSelected ? 'bg-fuchsia-500/20' : 'hover:bg-white/10'}`}
+                      >
+                        <span className={`w-5 h-5 rounded border-2 flex items-center justify-center text-xs font-bold ${isSelected ? 'bg-fuchsia-500 border-fuchsia-500 text-black' : 'bg-black/50 border-white/60'}`}>
+                          {isSelected && '✓'}
+                        </span>
+                      </button>
+                    ) : (
                     <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-70 transition-all flex flex-col items-center justify-center p-2">
-                      <div className="opacity-0 group-hover:opacity-100 transition-opacity text-white text-center flex flex-col gap-2 w-full max-w-[120px]">
-                         <button onClick={() => onView(item)} className="text-xs bg-black/50 backdrop-blur-sm border border-white/20 hover:bg-cyan-500 hover:text-black rounded px-2 py-1 w-full transition-colors">{t('common.view')}</button>
-                         <button onClick={() => onUseForEdit(item)} className="text-xs bg-black/50 backdrop-blur-sm border border-white/20 hover:bg-green-500 hover:text-black rounded px-2 py-1 w-full transition-colors">{t('history.useForEdit')}</button>
+                      <div className="opacity-0 group-hover:opacity-100 transition-opacity text-white text-center flex flex-col gap-1.5 w-full max-w-[120px]">
+                         <button onClick={() => onView(item)} className={`${overlayButtonClass} hover:bg-cyan-500`}>{t('common.view')}</button>
+                         <button onClick={() => onUseForEdit(item)} className={`${overlayButtonClass} hover:bg-green-500`}>{t('history.useForEdit')}</button>
+                         {item.settings && (
+                           <button onClick={() => onRestoreSettings(item)} className={`${overlayButtonClass} hover:bg-fuchsia-500`}>{t('history.restoreSettings')}</button>
+                         )}
+                         <button onClick={() => handleCompareClick(item)} className={`${overlayButtonClass} hover:bg-fuchsia-500`}>
+                           {compareFirst === null ? t('comparison.compare') : compareFirst.id === item.id ? t('common.cancel') : t('history.compareWith')}
+                         </button>
+                         <button onClick={() => setTagEditor({ item, value: (item.tags ?? []).join(', ') })} className={`${overlayButtonClass} hover:bg-cyan-500`}>{t('history.tags.edit')}</button>
                       </div>
                     </div>
+                    )}
+                    {!isSelecting && (
+                      <button
+                        onClick={() => onToggleFavorite(item)}
+                        aria-pressed={!!item.favorite}
+                        aria-label={item.favorite ? t('history.unfavorite') : t('history.favorite')}
+                        title={item.favorite ? t('history.unfavorite') : t('history.favorite')}
+                        className={`absolute top-1 start-1 rounded-full p-0.5 transition-opacity ${item.favorite ? 'text-yellow-300' : 'text-white/80 opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 drop-shadow" viewBox="0 0 20 20" fill={item.favorite ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth={1.5}>
+                          <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                        </svg>
+                      </button>
+                    )}
+                    {item.commentary && (
+                      <span
+                        className="absolute bottom-1 start-1 bg-black/60 text-cyan-300 rounded-full p-1 group-hover:opacity-0 transition-opacity"
+                        title={t('history.commentary').replace('{text}', item.commentary)}
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                        </svg>
+                      </span>
+                    )}
+                    {item.tags && item.tags.length > 0 && (
+                      <span
+                        className="absolute bottom-1 end-1 max-w-[70%] truncate bg-black/60 text-gray-200 text-[10px] rounded px-1.5 py-0.5 group-hover:opacity-0 transition-opacity"
+                        title={item.tags.join(', ')}
+                      >
+                        {item.tags.join(', ')}
+                      </span>
+                    )}
+                    {!isSelecting && (
                      <button
                         onClick={() => onDelete(item.id)}
                         className="absolute top-1 end-1 bg-red-600 text-white rounded-full p-0.5 w-5 h-5 flex items-center justify-center hover:bg-red-500 transition-all opacity-0 group-hover:opacity-100 focus:opacity-100"
@@ -78,12 +392,14 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
                         </svg>
                     </button>
+                    )}
                   </li>
-                ))}
+                  );
+                })}
               </ul>
             ) : (
               <div className="flex items-center justify-center h-full text-center text-gray-500">
-                <p>{t('history.empty')}</p>
+                <p>{history.length > 0 ? t('history.filters.noMatches') : t('history.empty')}</p>
               </div>
             )}
           </div>
@@ -91,8 +407,21 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
           {/* Footer */}
           {history.length > 0 && (
             <footer className="p-4 border-t border-white/10 flex-shrink-0 space-y-3">
-               <p className="text-xs text-center text-gray-500">
-                {t('history.limitNote')}
+              <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                <label htmlFor="history-max-items">{t('history.keepLast')}</label>
+                <select
+                  id="history-max-items"
+                  value={maxItems}
+                  onChange={(e) => handleMaxItemsChange(parseInt(e.target.value, 10))}
+                  className="bg-black/30 border border-white/20 text-gray-200 rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                >
+                  {MAX_ITEM_OPTIONS.map(option => (
+                    <option key={option} value={option} className="bg-gray-800 text-white">{option}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-center text-gray-500">
+                {t('history.limitNote').replace('{count}', String(history.length)).replace('{size}', formatMegabytes(totalBytes))}
               </p>
               <button
                 onClick={onClear}
@@ -106,4 +435,4 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
       </aside>
     </>
   );
-};
\ No newline at end of file
+};
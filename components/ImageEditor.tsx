@@ -5,6 +5,20 @@ import { getAspectRatioOptions } from '../constants';
 import type { ImageFile } from '../types';
 import { parseDataUrl } from './ImageUploader';
 import { useTranslation } from '../contexts/LanguageContext';
+import {
+  IDENTITY_TRANSFORM,
+  MAX_STRAIGHTEN_DEGREES,
+  largestCrop,
+  moveCrop,
+  padToRatio,
+  parseAspectRatio,
+  resizeCrop,
+  rotateQuarter,
+  rotationRadians,
+  roundCrop,
+  transformedSize,
+} from '../services/imageTransform';
+import type { CropHandle, ImageTransform, Rect } from '../services/imageTransform';
 
 interface ImageEditorProps {
   isOpen: boolean;
@@ -13,114 +27,266 @@ interface ImageEditorProps {
   onApply: (newImage: ImageFile) => void;
 }
 
-const parseAspectRatio = (ratioStr: string): number => {
-    const parts = ratioStr.split(':');
-    if (parts.length !== 2) return 16 / 9; // default
-    try {
-      const num = parseFloat(parts[0]);
-      const den = parseFloat(parts[1]);
-      if (den === 0) return 16/9;
-      return num / den;
-    } catch(e) {
-      return 16/9;
+// Crop cuts the image down to the box; pad keeps all of it and adds transparency to reach the ratio
+type FitMode = 'crop' | 'pad';
+
+const FREE_RATIO = 'free';
+const CROP_HANDLES: CropHandle[] = ['nw', 'ne', 'sw', 'se'];
+// Shows where the result will be transparent
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundImage: 'conic-gradient(#374151 25%, #1f2937 0 50%, #374151 0 75%, #1f2937 0)',
+  backgroundSize: '16px 16px',
+};
+
+interface CropDrag {
+  handle: CropHandle | 'move';
+  startX: number;
+  startY: number;
+  startRect: Rect;
+  // Image pixels per screen pixel of the preview
+  scale: number;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image for editing.'));
+        img.src = src;
+    });
+};
+
+/** Draws the rotated and flipped image onto a canvas just big enough to hold it. */
+const renderTransformed = (img: HTMLImageElement, transform: ImageTransform): HTMLCanvasElement => {
+    const source = { width: img.naturalWidth, height: img.naturalHeight };
+    const size = transformedSize(source, transform);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    // Flips are applied after the rotation so they always mirror what the user sees
+    ctx.translate(size.width / 2, size.height / 2);
+    ctx.scale(transform.flipHorizontal ? -1 : 1, transform.flipVertical ? -1 : 1);
+    ctx.rotate(rotationRadians(transform));
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, -source.width / 2, -source.height / 2);
+    return canvas;
+};
+
+/** The final output: the crop box cut out of the transformed image, or the whole of it padded to the ratio. */
+const renderOutput = (transformed: HTMLCanvasElement, mode: FitMode, crop: Rect | null, ratio: number | null): HTMLCanvasElement => {
+    const bounds = { width: transformed.width, height: transformed.height };
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    if (mode === 'pad' && ratio !== null) {
+        const size = padToRatio(bounds, ratio);
+        canvas.width = size.width;
+        canvas.height = size.height;
+        // The default canvas state is transparent, so the padding needs no fill
+        ctx.drawImage(transformed, (size.width - bounds.width) / 2, (size.height - bounds.height) / 2);
+    } else {
+        const area = roundCrop(crop ?? largestCrop(bounds, null), bounds);
+        canvas.width = area.width;
+        canvas.height = area.height;
+        ctx.drawImage(transformed, -area.x, -area.y);
     }
+    return canvas;
 };
 
 export const ImageEditor: React.FC<ImageEditorProps> = ({ isOpen, onClose, image, onApply }) => {
   const { t } = useTranslation();
   const ASPECT_RATIOS = useMemo(() => getAspectRatioOptions(t), [t]);
-  const [aspectRatio, setAspectRatio] = useState<string>(ASPECT_RATIOS[0].value);
+  const [mode, setMode] = useState<FitMode>('crop');
+  const [aspectRatio, setAspectRatio] = useState<string>(FREE_RATIO);
+  const [transform, setTransform] = useState<ImageTransform>(IDENTITY_TRANSFORM);
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<Rect | null>(null);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<CropDrag | null>(null);
 
+  const ratio = parseAspectRatio(aspectRatio);
+  const ratioOptions = useMemo(
+    () => mode === 'crop' ? [{ value: FREE_RATIO, label: t('imageEditor.freeRatio') }, ...ASPECT_RATIOS] : ASPECT_RATIOS,
+    [mode, ASPECT_RATIOS, t]
+  );
+
+  useEffect(() => {
+    if (!isOpen || !image) return;
+    // Reset state when modal opens
+    setMode('crop');
+    setAspectRatio(FREE_RATIO);
+    setTransform(IDENTITY_TRANSFORM);
+    setSource(null);
+    let cancelled = false;
+    loadImage(`data:${image.mimeType};base64,${image.base64}`)
+        .then(img => { if (!cancelled) setSource(img); })
+        .catch(error => console.error(error));
+    return () => { cancelled = true; };
+  }, [isOpen, image]);
+
+  const transformed = useMemo(() => source ? renderTransformed(source, transform) : null, [source, transform]);
+  const boundsWidth = transformed?.width ?? 0;
+  const boundsHeight = transformed?.height ?? 0;
+
+  // Any change to the geometry or ratio starts again from the largest box that fits
   useEffect(() => {
-    if (isOpen) {
-        // Reset state when modal opens
+    if (boundsWidth === 0) return;
+    setCrop(largestCrop({ width: boundsWidth, height: boundsHeight }, ratio));
+  }, [boundsWidth, boundsHeight, ratio]);
+
+  // Live preview: the transformed image in crop mode, the padded result in pad mode
+  useEffect(() => {
+    const canvas = previewRef.current;
+    if (!canvas || !transformed) return;
+    const preview = mode === 'pad' ? renderOutput(transformed, mode, null, ratio) : transformed;
+    canvas.width = preview.width;
+    canvas.height = preview.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(preview, 0, 0);
+  }, [transformed, mode, ratio]);
+
+  const handleModeChange = (next: FitMode) => {
+    setMode(next);
+    if (next === 'pad' && aspectRatio === FREE_RATIO) {
         setAspectRatio(ASPECT_RATIOS[0].value);
     }
-  }, [isOpen, ASPECT_RATIOS]);
-  
-  const handleApply = async () => {
-    if (!image || !canvasRef.current) return;
-    setIsProcessing(true);
+  };
 
-    const img = new Image();
-    img.onload = () => {
-        const canvas = canvasRef.current;
-        if (!canvas) {
-            setIsProcessing(false);
-            return;
-        }
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            setIsProcessing(false);
-            return;
-        }
-
-        const originalWidth = img.naturalWidth;
-        const originalHeight = img.naturalHeight;
-        const originalAspectRatio = originalWidth / originalHeight;
-        const targetAspectRatio = parseAspectRatio(aspectRatio);
-        
-        let newWidth, newHeight;
-
-        if (originalAspectRatio > targetAspectRatio) {
-            // Original is wider than target, so match width and increase height
-            newWidth = originalWidth;
-            newHeight = originalWidth / targetAspectRatio;
-        } else {
-            // Original is taller than target, so match height and increase width
-            newHeight = originalHeight;
-            newWidth = originalHeight * targetAspectRatio;
-        }
-
-        canvas.width = Math.round(newWidth);
-        canvas.height = Math.round(newHeight);
-        
-        // The default canvas state is transparent, so we don't need to fill it.
-
-        const xOffset = (canvas.width - originalWidth) / 2;
-        const yOffset = (canvas.height - originalHeight) / 2;
-
-        ctx.drawImage(img, xOffset, yOffset, originalWidth, originalHeight);
-        
-        // Always save as PNG to support transparency
-        const dataUrl = canvas.toDataURL('image/png', 1.0);
-        try {
-            const newImageFile = parseDataUrl(dataUrl);
-            onApply(newImageFile);
-        } catch (error) {
-            console.error("Failed to parse new image data URL", error);
-        } finally {
-            setIsProcessing(false);
-        }
+  const handleCropPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const handle = (e.target as HTMLElement).dataset.cropHandle as CropDrag['handle'] | undefined;
+    if (!handle || !crop || !previewRef.current) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+        handle,
+        startX: e.clientX,
+        startY: e.clientY,
+        startRect: crop,
+        scale: boundsWidth / previewRef.current.getBoundingClientRect().width,
     };
-    img.onerror = () => {
-        console.error("Failed to load image for editing.");
+  };
+
+  const handleCropPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const bounds = { width: boundsWidth, height: boundsHeight };
+    const dx = (e.clientX - drag.startX) * drag.scale;
+    const dy = (e.clientY - drag.startY) * drag.scale;
+    setCrop(drag.handle === 'move'
+        ? moveCrop(drag.startRect, dx, dy, bounds)
+        : resizeCrop(drag.startRect, drag.handle, dx, dy, ratio, bounds));
+  };
+
+  const handleCropPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    dragRef.current = null;
+  };
+
+  const handleApply = () => {
+    if (!transformed) return;
+    setIsProcessing(true);
+    try {
+        // Always save as PNG to keep the transparent padding and straightened corners
+        const output = renderOutput(transformed, mode, crop, ratio);
+        onApply(parseDataUrl(output.toDataURL('image/png')));
+    } catch (error) {
+        console.error("Failed to apply image edits", error);
+    } finally {
         setIsProcessing(false);
-    };
-    img.crossOrigin = "anonymous";
-    img.src = `data:${image.mimeType};base64,${image.base64}`;
+    }
   };
 
   if (!image) return null;
 
+  const toolButtonClass = (active: boolean) =>
+    `py-1.5 px-3 text-sm rounded-md border transition-colors ${active ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-black/30 border-white/20 text-gray-300 hover:border-cyan-500/70'}`;
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
   return (
     <Modal isOpen={isOpen} onClose={onClose}>
-      <div className="bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-lg text-white">
+      <div className="bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-3xl text-white">
         <h2 className="text-2xl font-bold mb-4 text-cyan-300">{t('imageEditor.title')}</h2>
         <div className="space-y-4">
-            <div className="flex justify-center items-center bg-black/20 p-2 rounded-md">
-                <img src={`data:${image.mimeType};base64,${image.base64}`} alt={t('imageEditor.preview')} className="max-h-64 object-contain rounded" />
+            <div className="flex justify-center items-center bg-black/20 p-2 rounded-md min-h-[12rem]">
+                {transformed ? (
+                    <div
+                        className="relative inline-block overflow-hidden touch-none"
+                        onPointerDown={handleCropPointerDown}
+                        onPointerMove={handleCropPointerMove}
+                        onPointerUp={handleCropPointerUp}
+                        onPointerCancel={handleCropPointerUp}
+                    >
+                        <canvas ref={previewRef} aria-label={t('imageEditor.preview')} className="block max-h-[50vh] max-w-full rounded" style={CHECKERBOARD_STYLE} />
+                        {mode === 'crop' && crop && (
+                            <div
+                                data-crop-handle="move"
+                                className="absolute border-2 border-cyan-400 cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                                style={{
+                                    left: percent(crop.x, boundsWidth),
+                                    top: percent(crop.y, boundsHeight),
+                                    width: percent(crop.width, boundsWidth),
+                                    height: percent(crop.height, boundsHeight),
+                                }}
+                            >
+                                {CROP_HANDLES.map(handle => (
+                                    <span
+                                        key={handle}
+                                        data-crop-handle={handle}
+                                        className={`absolute w-3.5 h-3.5 bg-cyan-400 border border-black rounded-sm ${handle.includes('n') ? '-top-2' : '-bottom-2'} ${handle.includes('w') ? '-left-2' : '-right-2'} ${handle === 'nw' || handle === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                                    />
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-400"></div>
+                )}
             </div>
-            <SelectInput 
-                id="edit-aspect-ratio"
-                label={t('imageEditor.targetRatio')}
-                value={aspectRatio}
-                options={ASPECT_RATIOS}
-                onChange={(e) => setAspectRatio(e.target.value)}
-            />
-            <p className="text-sm text-gray-400 text-center">{t('imageEditor.description')}</p>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={() => handleModeChange('crop')} className={toolButtonClass(mode === 'crop')}>{t('imageEditor.crop')}</button>
+                <button onClick={() => handleModeChange('pad')} className={toolButtonClass(mode === 'pad')}>{t('imageEditor.pad')}</button>
+                <span className="w-px h-6 bg-white/10 mx-1" />
+                <button onClick={() => setTransform(prev => rotateQuarter(prev, -1))} className={toolButtonClass(false)}>{t('imageEditor.rotateLeft')}</button>
+                <button onClick={() => setTransform(prev => rotateQuarter(prev, 1))} className={toolButtonClass(false)}>{t('imageEditor.rotateRight')}</button>
+                <button onClick={() => setTransform(prev => ({ ...prev, flipHorizontal: !prev.flipHorizontal }))} className={toolButtonClass(transform.flipHorizontal)}>{t('imageEditor.flipHorizontal')}</button>
+                <button onClick={() => setTransform(prev => ({ ...prev, flipVertical: !prev.flipVertical }))} className={toolButtonClass(transform.flipVertical)}>{t('imageEditor.flipVertical')}</button>
+                <button onClick={() => setTransform(IDENTITY_TRANSFORM)} className={toolButtonClass(false)}>{t('imageEditor.reset')}</button>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+                <SelectInput
+                    id="edit-aspect-ratio"
+                    label={t('imageEditor.targetRatio')}
+                    value={aspectRatio}
+                    options={ratioOptions}
+                    onChange={(e) => setAspectRatio(e.target.value)}
+                />
+                <div>
+                    <label htmlFor="edit-straighten" className="block text-sm font-medium text-gray-400 mb-2">
+                        {t('imageEditor.straighten')}: {transform.straighten.toFixed(1)}°
+                    </label>
+                    <input
+                        id="edit-straighten"
+                        type="range"
+                        min={-MAX_STRAIGHTEN_DEGREES}
+                        max={MAX_STRAIGHTEN_DEGREES}
+                        step={0.5}
+                        value={transform.straighten}
+                        onChange={(e) => setTransform(prev => ({ ...prev, straighten: parseFloat(e.target.value) }))}
+                        onDoubleClick={() => setTransform(prev => ({ ...prev, straighten: 0 }))}
+                        className="w-full accent-cyan-500"
+                    />
+                </div>
+            </div>
+            <p className="text-sm text-gray-400 text-center">{mode === 'crop' ? t('imageEditor.cropHint') : t('imageEditor.description')}</p>
         </div>
         <div className="mt-6 flex justify-end gap-4">
             <button
@@ -131,14 +297,13 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ isOpen, onClose, image
             </button>
             <button
                 onClick={handleApply}
-                disabled={isProcessing}
+                disabled={isProcessing || !transformed}
                 className="py-2 px-4 bg-cyan-600 hover:bg-cyan-500 rounded-md transition-colors disabled:bg-gray-700 disabled:cursor-not-allowed"
             >
                 {isProcessing ? t('imageEditor.applying') : t('imageEditor.apply')}
             </button>
         </div>
-        <canvas ref={canvasRef} className="hidden"></canvas>
       </div>
     </Modal>
   );
-};
\ No newline at end of file
+};
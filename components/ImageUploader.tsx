@@ -8,6 +8,7 @@ interface ImageUploaderProps {
   onImageUpload: (imageFile: ImageFile | null) => void;
   image: ImageFile | null;
   onEdit?: () => void;
+  onRemoveBackground?: () => void;
   children?: React.ReactNode;
 }
 
@@ -63,7 +64,7 @@ export const resizeImage = (imageUrl: string, targetLongestSide: number): Promis
 };
 
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ id, label, onImageUpload, image, onEdit, children }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ id, label, onImageUpload, image, onEdit, onRemoveBackground, children }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { t } = useTranslation();
 
@@ -140,6 +141,17 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ id, label, onImage
                         </svg>
                     </button>
                 )}
+                {onRemoveBackground && (
+                    <button 
+                        onClick={(e) => { e.stopPropagation(); onRemoveBackground(); }}
+                        aria-label={t('imageUploader.removeBackground')}
+                        title={t('imageUploader.removeBackground')}
+                        className="bg-black bg-opacity-50 text-white rounded-full p-1.5 hover:bg-cyan-600 transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-500 opacity-0 group-hover:opacity-100">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" />
+                        </svg>
+                    </button>
+                )}
             </div>
           </>
         ) : (
@@ -0,0 +1,155 @@
+import React from 'react';
+import { useTranslation } from '../contexts/LanguageContext';
+import { MAX_JOB_CONCURRENCY, isJobActive } from '../services/jobQueue';
+import type { Job, JobStatus } from '../services/jobQueue';
+
+interface JobQueuePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  jobs: Job[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onCancel: (id: string) => void;
+  onClearFinished: () => void;
+  onView: (image: string) => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  pending: 'text-gray-300 border-white/20',
+  running: 'text-cyan-300 border-cyan-500/50',
+  done: 'text-green-300 border-green-500/50',
+  failed: 'text-red-300 border-red-500/50',
+  cancelled: 'text-gray-500 border-white/10',
+};
+
+const CONCURRENCY_OPTIONS = Array.from({ length: MAX_JOB_CONCURRENCY }, (_, i) => i + 1);
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const JobQueuePanel: React.FC<JobQueuePanelProps> = ({
+  isOpen,
+  onClose,
+  jobs,
+  concurrency,
+  onConcurrencyChange,
+  onCancel,
+  onClearFinished,
+  onView,
+}) => {
+  const { t } = useTranslation();
+  // Newest first, like the history panel
+  const orderedJobs = [...jobs].reverse();
+  const hasFinished = jobs.some(job => !isJobActive(job));
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className={`fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm z-20 transition-opacity ${
+          isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'
+        }`}
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      {/* Panel */}
+      <aside
+        className={`fixed top-0 end-0 h-full w-full max-w-sm bg-gray-900/80 backdrop-blur-lg border-s border-white/10 shadow-2xl z-30 transform transition-transform duration-300 ease-in-out ${
+          isOpen ? 'translate-x-0' : 'translate-x-full rtl:-translate-x-full'
+        }`}
+        aria-label={t('queue.title')}
+      >
+        <div className="flex flex-col h-full">
+          {/* Header */}
+          <header className="flex items-center justify-between p-4 border-b border-white/10 flex-shrink-0">
+            <h2 className="text-xl font-bold text-cyan-300 tracking-wider">{t('queue.title')}</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('queue.close')}>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </header>
+
+          {/* Job List */}
+          <div className="flex-grow overflow-y-auto p-4">
+            {orderedJobs.length > 0 ? (
+              <ul className="space-y-3">
+                {orderedJobs.map(job => (
+                  <li key={job.id} className="flex gap-3 bg-black/20 rounded-lg border border-white/10 p-3">
+                    <div className="w-14 h-14 flex-shrink-0 rounded-md overflow-hidden bg-black/40 border border-white/10 flex items-center justify-center">
+                      {job.result ? (
+                        <button onClick={() => onView(job.result!.images[0])} className="w-full h-full" aria-label={t('common.view')}>
+                          <img src={job.result.images[0]} alt={job.label.substring(0, 50)} className="w-full h-full object-cover" />
+                        </button>
+                      ) : job.status === 'running' ? (
+                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cyan-400"></div>
+                      ) : null}
+                    </div>
+                    <div className="flex-grow min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className={`text-[10px] uppercase tracking-wider font-bold border rounded px-1.5 py-0.5 ${STATUS_STYLES[job.status]}`}>
+                          {t(`queue.status.${job.status}`)}
+                        </span>
+                        <span className="text-[10px] uppercase tracking-wider text-gray-500">{t(`queue.kind.${job.kind}`)}</span>
+                        <span className="ms-auto text-[10px] text-gray-500">{formatTime(job.createdAt)}</span>
+                      </div>
+                      <p className="text-xs text-gray-300 line-clamp-2" title={job.label}>{job.label}</p>
+                      {job.retry && (
+                        <p className="text-xs text-amber-300/80 mt-1">
+                          {t('queue.retrying').replace('{attempt}', String(job.retry.attempt))}
+                        </p>
+                      )}
+                      {job.error && (
+                        <p className="text-xs text-red-400 mt-1 line-clamp-3" title={job.error}>
+                          {job.errorCode && job.errorCode !== 'unknown' ? t(`errors.${job.errorCode}.title`) : job.error}
+                        </p>
+                      )}
+                    </div>
+                    {isJobActive(job) && (
+                      <button
+                        onClick={() => onCancel(job.id)}
+                        className="self-start text-xs text-gray-400 hover:text-red-300 transition-colors"
+                        aria-label={t('queue.cancelJob')}
+                      >
+                        {t('common.cancel')}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="flex items-center justify-center h-full text-center text-gray-500">
+                <p>{t('queue.empty')}</p>
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <footer className="p-4 border-t border-white/10 flex-shrink-0 space-y-3">
+            <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+              <label htmlFor="queue-concurrency">{t('queue.concurrency')}</label>
+              <select
+                id="queue-concurrency"
+                value={concurrency}
+                onChange={(e) => onConcurrencyChange(parseInt(e.target.value, 10))}
+                className="bg-black/30 border border-white/20 text-gray-200 rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              >
+                {CONCURRENCY_OPTIONS.map(option => (
+                  <option key={option} value={option} className="bg-gray-800 text-white">{option}</option>
+                ))}
+              </select>
+            </div>
+            {hasFinished && (
+              <button
+                onClick={onClearFinished}
+                className="w-full py-2 px-4 text-sm font-bold text-gray-200 border-2 border-white/20 rounded-lg hover:border-cyan-500 hover:text-cyan-300 transition-all"
+              >
+                {t('queue.clearFinished')}
+              </button>
+            )}
+          </footer>
+        </div>
+      </aside>
+    </>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import type { HistoryItem } from '../types';
+import { useTranslation } from '../contexts/LanguageContext';
+import type { LineageNode } from '../services/editLineage';
+
+interface LineageTreeProps {
+  tree: LineageNode;
+  currentId: string | null;
+  onSelect: (item: HistoryItem) => void;
+  onView: (item: HistoryItem) => void;
+}
+
+// The user's own words are more recognisable than the full prompt sent to the model
+const nodeCaption = (item: HistoryItem): string => {
+  if (item.settings?.tab === 'edit' && item.settings.instruction.trim()) return item.settings.instruction;
+  if (item.settings?.tab === 'generate' && item.settings.sceneDescription.trim()) return item.settings.sceneDescription;
+  return item.prompt;
+};
+
+const LineageBranch: React.FC<{ node: LineageNode } & Omit<LineageTreeProps, 'tree'>> = ({ node, currentId, onSelect, onView }) => {
+  const { t } = useTranslation();
+  const { item } = node;
+  const isCurrent = item.id === currentId;
+
+  return (
+    <li>
+      <div className={`group flex items-center gap-2 rounded-md p-1 transition-colors ${isCurrent ? 'bg-fuchsia-500/20 ring-1 ring-fuchsia-500' : 'hover:bg-white/5'}`}>
+        <button
+          onClick={() => onSelect(item)}
+          className="flex flex-1 min-w-0 items-center gap-2 text-start"
+          title={isCurrent ? t('lineage.current') : t('lineage.jump')}
+        >
+          <img
+            src={`data:${item.thumbnail.mimeType};base64,${item.thumbnail.base64}`}
+            alt=""
+            className="w-10 h-10 flex-shrink-0 rounded object-cover border border-white/10"
+          />
+          <span className="min-w-0">
+            <span className="block text-xs text-gray-500">{new Date(item.createdAt).toLocaleString()}</span>
+            <span className="block truncate text-sm text-gray-200">{nodeCaption(item)}</span>
+          </span>
+        </button>
+        <button
+          onClick={() => onView(item)}
+          className="text-xs text-gray-400 hover:text-cyan-300 px-1 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+        >
+          {t('common.view')}
+        </button>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ms-5 ps-2 border-s border-white/10 space-y-1 mt-1">
+          {node.children.map(child => (
+            <LineageBranch key={child.item.id} node={child} currentId={currentId} onSelect={onSelect} onView={onView} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/** Every version in an edit session; picking one makes it the base, and new edits branch from it. */
+export const LineageTree: React.FC<LineageTreeProps> = ({ tree, currentId, onSelect, onView }) => (
+  <ul className="space-y-1 max-h-72 overflow-y-auto pe-1">
+    <LineageBranch node={tree} currentId={currentId} onSelect={onSelect} onView={onView} />
+  </ul>
+);
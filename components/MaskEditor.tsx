@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Modal } from './Modal';
+import type { ImageFile } from '../types';
+import { parseDataUrl } from './ImageUploader';
+import { useTranslation } from '../contexts/LanguageContext';
+
+interface MaskEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  image: ImageFile | null;
+  mask: ImageFile | null;
+  onApply: (mask: ImageFile | null) => void;
+}
+
+type MaskTool = 'brush' | 'eraser';
+
+const MAX_UNDO_STEPS = 20;
+// Painted strokes are kept in this colour on the working canvas and only turned
+// into a black/white mask on export.
+const OVERLAY_RGB: [number, number, number] = [217, 70, 239];
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image for masking.'));
+        img.src = src;
+    });
+};
+
+/**
+ * Converts the working overlay into a PNG where white marks the region to edit
+ * and black the region to keep. Returns null when nothing has been painted.
+ */
+const exportMask = (canvas: HTMLCanvasElement): ImageFile | null => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    const source = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    const output = document.createElement('canvas');
+    output.width = canvas.width;
+    output.height = canvas.height;
+    const outCtx = output.getContext('2d');
+    if (!outCtx) return null;
+    const result = outCtx.createImageData(canvas.width, canvas.height);
+
+    let hasPaint = false;
+    for (let i = 0; i < source.data.length; i += 4) {
+        const value = source.data[i + 3] > 127 ? 255 : 0;
+        if (value) hasPaint = true;
+        result.data[i] = value;
+        result.data[i + 1] = value;
+        result.data[i + 2] = value;
+        result.data[i + 3] = 255;
+    }
+    if (!hasPaint) return null;
+
+    outCtx.putImageData(result, 0, 0);
+    return parseDataUrl(output.toDataURL('image/png'));
+};
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, onClose, image, mask, onApply }) => {
+  const { t } = useTranslation();
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [undoStack, setUndoStack] = useState<ImageData[]>([]);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Size the working canvas to the base image and load any existing mask into it
+  useEffect(() => {
+    if (!isOpen || !image) return;
+    let cancelled = false;
+    setUndoStack([]);
+    setTool('brush');
+
+    const setup = async () => {
+        try {
+            const base = await loadImage(`data:${image.mimeType};base64,${image.base64}`);
+            const canvas = canvasRef.current;
+            const ctx = canvas?.getContext('2d');
+            if (cancelled || !canvas || !ctx) return;
+            canvas.width = base.naturalWidth;
+            canvas.height = base.naturalHeight;
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+            if (mask) {
+                const maskImg = await loadImage(`data:${mask.mimeType};base64,${mask.base64}`);
+                if (cancelled) return;
+                ctx.drawImage(maskImg, 0, 0, canvas.width, canvas.height);
+                const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+                for (let i = 0; i < data.data.length; i += 4) {
+                    const isMasked = data.data[i] > 127;
+                    data.data[i] = OVERLAY_RGB[0];
+                    data.data[i + 1] = OVERLAY_RGB[1];
+                    data.data[i + 2] = OVERLAY_RGB[2];
+                    data.data[i + 3] = isMasked ? 255 : 0;
+                }
+                ctx.putImageData(data, 0, 0);
+            }
+        } catch (error) {
+            console.error("Failed to prepare mask canvas:", error);
+        }
+    };
+    setup();
+
+    return () => { cancelled = true; };
+  }, [isOpen, image, mask]);
+
+  const getContext = () => canvasRef.current?.getContext('2d') ?? null;
+
+  const pushUndoSnapshot = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    const snapshot = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    setUndoStack(prev => [...prev, snapshot].slice(-MAX_UNDO_STEPS));
+  }, []);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+        x: (e.clientX - rect.left) * (canvas.width / rect.width),
+        y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const drawSegment = (from: { x: number; y: number }, to: { x: number; y: number }, canvas: HTMLCanvasElement) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    // Brush size is expressed in screen pixels so it feels the same regardless of image resolution
+    const scale = canvas.width / canvas.getBoundingClientRect().width;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = `rgb(${OVERLAY_RGB.join(',')})`;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    pushUndoSnapshot();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawingRef.current = true;
+    const point = toCanvasPoint(e);
+    lastPointRef.current = point;
+    drawSegment(point, point, e.currentTarget);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current || !lastPointRef.current) return;
+    const point = toCanvasPoint(e);
+    drawSegment(lastPointRef.current, point, e.currentTarget);
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    isDrawingRef.current = false;
+    lastPointRef.current = null;
+  };
+
+  const handleUndo = () => {
+    const ctx = getContext();
+    const previous = undoStack[undoStack.length - 1];
+    if (!ctx || !previous) return;
+    ctx.putImageData(previous, 0, 0);
+    setUndoStack(prev => prev.slice(0, -1));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    pushUndoSnapshot();
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const handleInvert = () => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    pushUndoSnapshot();
+    const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 0; i < data.data.length; i += 4) {
+        data.data[i] = OVERLAY_RGB[0];
+        data.data[i + 1] = OVERLAY_RGB[1];
+        data.data[i + 2] = OVERLAY_RGB[2];
+        data.data[i + 3] = 255 - data.data[i + 3];
+    }
+    ctx.putImageData(data, 0, 0);
+  };
+
+  const handleApply = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    try {
+        onApply(exportMask(canvas));
+    } catch (error) {
+        console.error("Failed to export mask", error);
+    }
+  };
+
+  if (!image) return null;
+
+  const toolButtonClass = (active: boolean) =>
+    `py-1.5 px-3 text-sm rounded-md border transition-colors ${active ? 'bg-fuchsia-600 border-fuchsia-500 text-white' : 'bg-black/30 border-white/20 text-gray-300 hover:border-fuchsia-500/70'}`;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <div className="bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-3xl text-white">
+        <h2 className="text-2xl font-bold mb-4 text-cyan-300">{t('maskEditor.title')}</h2>
+        <div className="space-y-4">
+            <div className="flex justify-center items-center bg-black/20 p-2 rounded-md">
+                <div className="relative inline-block">
+                    <img src={`data:${image.mimeType};base64,${image.base64}`} alt={t('imageEditor.preview')} className="block max-h-[55vh] max-w-full object-contain rounded select-none" draggable={false} />
+                    <canvas
+                        ref={canvasRef}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
+                        className="absolute inset-0 w-full h-full opacity-60 touch-none"
+                        style={{ cursor: 'crosshair' }}
+                    />
+                </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={() => setTool('brush')} className={toolButtonClass(tool === 'brush')}>{t('maskEditor.brush')}</button>
+                <button onClick={() => setTool('eraser')} className={toolButtonClass(tool === 'eraser')}>{t('maskEditor.eraser')}</button>
+                <button onClick={handleInvert} className={toolButtonClass(false)}>{t('maskEditor.invert')}</button>
+                <button onClick={handleClear} className={toolButtonClass(false)}>{t('maskEditor.clear')}</button>
+                <button onClick={handleUndo} disabled={undoStack.length === 0} className={`${toolButtonClass(false)} disabled:opacity-40 disabled:cursor-not-allowed`}>{t('maskEditor.undo')}</button>
+            </div>
+            <div>
+                <label htmlFor="mask-brush-size" className="block text-sm font-medium text-gray-400 mb-2">
+                    {t('maskEditor.brushSize')}: {brushSize}px
+                </label>
+                <input
+                    id="mask-brush-size"
+                    type="range"
+                    min={4}
+                    max={150}
+                    value={brushSize}
+                    onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+                    className="w-full accent-fuchsia-500"
+                />
+            </div>
+            <p className="text-sm text-gray-400 text-center">{t('maskEditor.description')}</p>
+        </div>
+        <div className="mt-6 flex justify-end gap-4">
+            <button
+                onClick={onClose}
+                className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors"
+            >
+                {t('common.cancel')}
+            </button>
+            <button
+                onClick={handleApply}
+                className="py-2 px-4 bg-cyan-600 hover:bg-cyan-500 rounded-md transition-colors"
+            >
+                {t('maskEditor.apply')}
+            </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -1,14 +1,16 @@
 import React from 'react';
 import { useTranslation } from '../contexts/LanguageContext';
+import { extensionForMimeType } from '../services/exportBundle';
 
 interface ModalProps {
   isOpen: boolean;
   onClose: () => void;
   children: React.ReactNode;
   imageUrl?: string | null;
+  onCompare?: () => void;
 }
 
-export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children, imageUrl }) => {
+export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children, imageUrl, onCompare }) => {
   const { t } = useTranslation();
   if (!isOpen) return null;
 
@@ -16,7 +18,7 @@ export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children, imageUr
     if (!imageUrl) return;
     const link = document.createElement('a');
     link.href = imageUrl;
-    link.download = `cinematic-scene-${Date.now()}.png`;
+    link.download = `cinematic-scene-${Date.now()}.${extensionForMimeType(imageUrl.slice(5, imageUrl.indexOf(';')))}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -43,6 +45,15 @@ export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children, imageUr
           </svg>
         </button>
         {children}
+        {imageUrl && onCompare && (
+            <button
+              onClick={onCompare}
+              className="absolute bottom-4 start-4 flex items-center gap-2 bg-fuchsia-600 text-white rounded-full py-2 px-4 hover:bg-fuchsia-500 transition-all z-10 shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-fuchsia-500"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16M8 6H5a1 1 0 00-1 1v10a1 1 0 001 1h3m8-12h3a1 1 0 011 1v10a1 1 0 01-1 1h-3" /></svg>
+              <span>{t('comparison.compare')}</span>
+            </button>
+        )}
         {imageUrl && (
             <button
               onClick={handleDownload}
@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ImageFile } from '../types';
+import { SelectInput } from './SelectInput';
+import { parseDataUrl } from './ImageUploader';
+import { useTranslation } from '../contexts/LanguageContext';
+import { getAspectRatioOptions } from '../constants';
+import {
+  OUTPAINT_PERCENTAGES,
+  computeOutpaintPadding,
+  hasPadding,
+  keptRect,
+  paddedSize,
+} from '../services/outpaint';
+import type { OutpaintAmount, OutpaintDirection } from '../services/outpaint';
+import type { Size } from '../services/imageTransform';
+
+interface OutpaintControlsProps {
+  image: ImageFile;
+  directions: OutpaintDirection[];
+  amount: OutpaintAmount;
+  onDirectionsChange: (directions: OutpaintDirection[]) => void;
+  onAmountChange: (amount: OutpaintAmount) => void;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image for outpainting.'));
+        img.src = src;
+    });
+};
+
+// The amount select stores both kinds of amount as one string value
+const encodeAmount = (amount: OutpaintAmount): string =>
+  amount.kind === 'percent' ? `percent:${amount.percent}` : `ratio:${amount.ratio}`;
+
+const decodeAmount = (value: string): OutpaintAmount => {
+  const [kind, ...rest] = value.split(':');
+  return kind === 'percent' ? { kind: 'percent', percent: Number(rest[0]) } : { kind: 'ratio', ratio: rest.join(':') };
+};
+
+/**
+ * Builds what the model needs to outpaint `image`: a copy on a larger transparent canvas, and a
+ * black and white mask that is white over the new area (plus a thin seam into the original).
+ */
+export const buildOutpaintImages = async (
+  image: ImageFile,
+  directions: OutpaintDirection[],
+  amount: OutpaintAmount
+): Promise<{ image: ImageFile; mask: ImageFile }> => {
+    const img = await loadImage(`data:${image.mimeType};base64,${image.base64}`);
+    const size = { width: img.naturalWidth, height: img.naturalHeight };
+    const padding = computeOutpaintPadding(size, directions, amount);
+    if (!hasPadding(padding)) {
+        throw new Error('The chosen amount does not extend the image in any of the selected directions.');
+    }
+    const canvasSize = paddedSize(size, padding);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = canvasSize.width;
+    canvas.height = canvasSize.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context.');
+    ctx.drawImage(img, padding.left, padding.top);
+    const padded = parseDataUrl(canvas.toDataURL('image/png'));
+
+    const kept = keptRect(size, padding);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(kept.x, kept.y, kept.width, kept.height);
+    const mask = parseDataUrl(canvas.toDataURL('image/png'));
+
+    return { image: padded, mask };
+};
+
+export const OutpaintControls: React.FC<OutpaintControlsProps> = ({ image, directions, amount, onDirectionsChange, onAmountChange }) => {
+  const { t } = useTranslation();
+  const [imageSize, setImageSize] = useState<Size | null>(null);
+  const imageUrl = `data:${image.mimeType};base64,${image.base64}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setImageSize(null);
+    loadImage(imageUrl)
+      .then(img => { if (!cancelled) setImageSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(error => console.error(error));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  const amountOptions = useMemo(() => [
+    ...OUTPAINT_PERCENTAGES.map(percent => ({
+      value: encodeAmount({ kind: 'percent', percent }),
+      label: t('edit.outpaint.percent').replace('{percent}', String(percent)),
+    })),
+    ...getAspectRatioOptions(t).map(option => ({
+      value: encodeAmount({ kind: 'ratio', ratio: option.value }),
+      label: t('edit.outpaint.toRatio').replace('{ratio}', option.label),
+    })),
+  ], [t]);
+
+  const padding = imageSize ? computeOutpaintPadding(imageSize, directions, amount) : null;
+  const resultSize = imageSize && padding ? paddedSize(imageSize, padding) : null;
+
+  const toggleDirection = (direction: OutpaintDirection) => {
+    onDirectionsChange(directions.includes(direction) ? directions.filter(d => d !== direction) : [...directions, direction]);
+  };
+
+  const directionButton = (direction: OutpaintDirection, arrow: string) => {
+    const active = directions.includes(direction);
+    return (
+      <button
+        onClick={() => toggleDirection(direction)}
+        aria-pressed={active}
+        aria-label={t(`edit.outpaint.directions.${direction}`)}
+        title={t(`edit.outpaint.directions.${direction}`)}
+        className={`w-9 h-9 rounded-md border text-lg font-bold transition-colors ${active ? 'bg-fuchsia-600 border-fuchsia-500 text-white' : 'bg-black/30 border-white/20 text-gray-400 hover:border-fuchsia-500/70'}`}
+      >
+        {arrow}
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-[auto_1fr_auto] grid-rows-[auto_1fr_auto] gap-2 items-center justify-items-center">
+        <div />
+        {directionButton('top', '↑')}
+        <div />
+        {directionButton('left', '←')}
+        <img src={imageUrl} alt={t('edit.baseImage.title')} className="max-h-24 rounded border border-white/10 object-contain" />
+        {directionButton('right', '→')}
+        <div />
+        {directionButton('bottom', '↓')}
+        <div />
+      </div>
+      <SelectInput
+        id="outpaint-amount"
+        label={t('edit.outpaint.amount')}
+        value={encodeAmount(amount)}
+        options={amountOptions}
+        onChange={(e) => onAmountChange(decodeAmount(e.target.value))}
+      />
+      {imageSize && resultSize && padding && (
+        hasPadding(padding) ? (
+          <p className="text-xs text-gray-500">
+            {t('edit.outpaint.size')
+              .replace('{from}', `${imageSize.width}×${imageSize.height}`)
+              .replace('{to}', `${resultSize.width}×${resultSize.height}`)}
+          </p>
+        ) : (
+          <p className="text-xs text-amber-300">
+            {directions.length === 0 ? t('edit.outpaint.noDirection') : t('edit.outpaint.noGrowth')}
+          </p>
+        )
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,36 @@
 import React from 'react';
+import { useTranslation } from '../contexts/LanguageContext';
 
-export const ProgressBar: React.FC = () => {
+interface ProgressBarProps {
+  // Shows a Cancel button next to the bar when provided
+  onCancel?: () => void;
+  // Short status line under the bar, e.g. a retry notice
+  status?: string | null;
+}
+
+export const ProgressBar: React.FC<ProgressBarProps> = ({ onCancel, status }) => {
+  const { t } = useTranslation();
   return (
-    <div className="w-full h-2 bg-black/30 rounded-full overflow-hidden mt-4 border border-cyan-500/20 shadow-inner">
-      <div 
-        className="h-full bg-cyan-400 rounded-full progress-bar-indicator"
-        style={{
-          boxShadow: '0 0 8px rgba(6, 182, 212, 0.8)'
-        }}
-      ></div>
+    <div className="mt-4">
+      <div className="flex items-center gap-3">
+        <div className="flex-grow h-2 bg-black/30 rounded-full overflow-hidden border border-cyan-500/20 shadow-inner">
+          <div
+            className="h-full bg-cyan-400 rounded-full progress-bar-indicator"
+            style={{
+              boxShadow: '0 0 8px rgba(6, 182, 212, 0.8)'
+            }}
+          ></div>
+        </div>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="text-sm border-2 border-white/20 text-gray-300 font-bold py-1 px-3 rounded-md hover:border-red-500 hover:text-red-300 transition-colors duration-200"
+          >
+            {t('common.cancel')}
+          </button>
+        )}
+      </div>
+      {status && <p className="mt-2 text-xs text-amber-300/80">{status}</p>}
     </div>
   );
 };
@@ -0,0 +1,33 @@
+import React, { useMemo } from 'react';
+import { diffWords } from '../services/textDiff';
+import { useTranslation } from '../contexts/LanguageContext';
+
+interface PromptDiffProps {
+  autoPrompt: string;
+  editedPrompt: string;
+}
+
+export const PromptDiff: React.FC<PromptDiffProps> = ({ autoPrompt, editedPrompt }) => {
+  const { t } = useTranslation();
+  const segments = useMemo(() => diffWords(autoPrompt, editedPrompt), [autoPrompt, editedPrompt]);
+
+  return (
+    <div className="mt-3">
+      <div className="flex gap-4 text-xs text-gray-400 mb-2">
+        <span><span className="inline-block w-3 h-3 rounded-sm bg-red-500/40 align-middle me-1"></span>{t('generate.prompt.diffRemoved')}</span>
+        <span><span className="inline-block w-3 h-3 rounded-sm bg-green-500/40 align-middle me-1"></span>{t('generate.prompt.diffAdded')}</span>
+      </div>
+      <p className="w-full bg-black/40 border border-white/10 rounded-lg p-3 text-sm text-gray-300 font-mono whitespace-pre-wrap break-words" dir="ltr">
+        {segments.map((segment, index) => {
+          if (segment.type === 'added') {
+            return <ins key={index} className="bg-green-500/30 text-green-200 no-underline rounded-sm">{segment.text}</ins>;
+          }
+          if (segment.type === 'removed') {
+            return <del key={index} className="bg-red-500/30 text-red-200 rounded-sm">{segment.text}</del>;
+          }
+          return <span key={index}>{segment.text}</span>;
+        })}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Modal } from './Modal';
+import type { PromptTemplate } from '../types';
+import {
+  DEFAULT_TEMPLATE_BODY,
+  TEMPLATE_VARIABLES,
+  parsePromptTemplateFile,
+  renderTemplate,
+  serializePromptTemplates,
+  validateTemplate,
+} from '../services/promptTemplates';
+import type { TemplateValidation, TemplateVariables } from '../services/promptTemplates';
+import { useTranslation } from '../contexts/LanguageContext';
+
+interface PromptTemplateManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  templates: PromptTemplate[];
+  activeTemplateId: string | null;
+  onSelect: (id: string | null) => void;
+  onSave: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+  onImport: (templates: PromptTemplate[]) => void;
+  // Values from the current Generate tab, used for the live preview and validation
+  variables: TemplateVariables;
+}
+
+/** One translated line per problem, shared by the manager and the pre-generation check. */
+export const describeTemplateIssues = (validation: TemplateValidation, t: (key: string) => string): string[] => [
+  ...validation.syntaxErrors.map(error => t(`templates.errors.${error.code}`).replace('{tag}', error.tag)),
+  ...validation.unknownVariables.map(name => t('templates.errors.unknownVariable').replace('{name}', name)),
+  ...validation.missingVariables.map(name => t('templates.errors.missingVariable').replace('{name}', name)),
+];
+
+const inputClass = "w-full bg-black/30 border border-white/20 text-gray-200 rounded-lg p-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 placeholder-gray-500";
+
+const smallButtonClass = "text-sm border-2 border-cyan-500/50 text-cyan-400 font-bold py-1 px-3 rounded-md hover:bg-cyan-500 hover:text-black hover:border-cyan-500 transition-colors duration-200";
+
+const createEmptyTemplate = (): PromptTemplate => ({
+  id: `template-${Date.now()}`,
+  name: '',
+  body: DEFAULT_TEMPLATE_BODY,
+  updatedAt: new Date().toISOString(),
+});
+
+export const PromptTemplateManager: React.FC<PromptTemplateManagerProps> = ({
+  isOpen,
+  onClose,
+  templates,
+  activeTemplateId,
+  onSelect,
+  onSave,
+  onDelete,
+  onImport,
+  variables,
+}) => {
+  const { t } = useTranslation();
+  const [editing, setEditing] = useState<PromptTemplate | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const issues = useMemo(
+    () => (editing ? describeTemplateIssues(validateTemplate(editing.body, variables), t) : []),
+    [editing, variables, t]
+  );
+  const preview = useMemo(() => (editing ? renderTemplate(editing.body, variables) : ''), [editing, variables]);
+
+  const handleClose = () => {
+    setEditing(null);
+    setImportError(null);
+    onClose();
+  };
+
+  const handleSave = () => {
+    if (!editing || !editing.name.trim()) return;
+    onSave({ ...editing, name: editing.name.trim(), updatedAt: new Date().toISOString() });
+    setEditing(null);
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (window.confirm(t('templates.deleteConfirm').replace('{name}', template.name))) {
+      onDelete(template.id);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializePromptTemplates(templates)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `prompt-templates-${Date.now()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePromptTemplateFile(await file.text());
+      setImportError(null);
+      onImport(imported);
+    } catch (error) {
+      console.error("Failed to import prompt templates:", error);
+      setImportError(t('templates.importFailed'));
+    }
+  };
+
+  const radioClass = (active: boolean) =>
+    `flex items-center gap-3 p-3 rounded-lg border transition-colors ${active ? 'border-cyan-500/70 bg-cyan-500/10' : 'border-white/10 bg-black/20 hover:border-white/30'}`;
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose}>
+      <div className="bg-gray-800 p-6 rounded-lg shadow-xl w-[min(56rem,90vw)] max-h-[85vh] overflow-y-auto text-white">
+        <h2 className="text-2xl font-bold mb-4 text-cyan-300">{editing ? (editing.name || t('templates.newTemplate')) : t('templates.title')}</h2>
+
+        {editing ? (
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="template-name" className="block text-sm font-medium text-gray-400 mb-2">{t('common.name')}</label>
+              <input id="template-name" type="text" value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="template-body" className="block text-sm font-medium text-gray-400 mb-2">{t('templates.body')}</label>
+              <textarea id="template-body" value={editing.body} onChange={(e) => setEditing({ ...editing, body: e.target.value })} rows={8} className={`${inputClass} font-mono resize-y`} />
+            </div>
+            <div className="text-xs text-gray-400 space-y-1">
+              <p>{t('templates.syntaxHint')}</p>
+              <div className="flex flex-wrap gap-2">
+                {TEMPLATE_VARIABLES.map(name => (
+                  <code key={name} title={t(`templates.variables.${name}`)} className="bg-black/40 border border-white/10 rounded px-1.5 py-0.5 text-cyan-300">{`{{${name}}}`}</code>
+                ))}
+              </div>
+            </div>
+            {issues.length > 0 ? (
+              <ul className="text-sm text-red-400 list-disc ps-5 space-y-1">
+                {issues.map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+            ) : (
+              <p className="text-sm text-green-400">{t('templates.valid')}</p>
+            )}
+            <div>
+              <p className="block text-sm font-medium text-gray-400 mb-2">{t('templates.preview')}</p>
+              <p className="bg-black/40 border border-cyan-500/30 rounded-lg p-3 text-sm text-cyan-200/80 font-mono whitespace-pre-wrap">{preview}</p>
+            </div>
+            <div className="flex justify-end gap-4">
+              <button onClick={() => setEditing(null)} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+                {t('common.cancel')}
+              </button>
+              <button onClick={handleSave} disabled={!editing.name.trim()} className="py-2 px-4 bg-cyan-600 hover:bg-cyan-500 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed">
+                {t('templates.save')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-400">{t('templates.description')}</p>
+            <ul className="space-y-2">
+              <li>
+                <label className={radioClass(activeTemplateId === null)}>
+                  <input type="radio" name="active-template" checked={activeTemplateId === null} onChange={() => onSelect(null)} className="accent-cyan-500" />
+                  <span className="flex-grow font-semibold">{t('templates.builtIn')}</span>
+                </label>
+              </li>
+              {templates.map(template => (
+                <li key={template.id}>
+                  <div className={radioClass(activeTemplateId === template.id)}>
+                    <input
+                      type="radio"
+                      name="active-template"
+                      id={`template-${template.id}`}
+                      checked={activeTemplateId === template.id}
+                      onChange={() => onSelect(template.id)}
+                      className="accent-cyan-500"
+                    />
+                    <label htmlFor={`template-${template.id}`} className="flex-grow min-w-0">
+                      <span className="block font-semibold truncate">{template.name}</span>
+                      <span className="block text-xs text-gray-500 font-mono truncate">{template.body}</span>
+                    </label>
+                    <button onClick={() => setEditing(template)} className="text-xs text-cyan-400 hover:text-cyan-300">{t('templates.edit')}</button>
+                    <button onClick={() => handleDelete(template)} className="text-xs text-red-400 hover:text-red-300">{t('common.remove')}</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {importError && <p className="text-sm text-red-400">{importError}</p>}
+            <div className="flex flex-wrap gap-2 justify-end">
+              <button onClick={() => fileInputRef.current?.click()} className={smallButtonClass}>{t('templates.import')}</button>
+              <button onClick={handleExport} disabled={templates.length === 0} className={`${smallButtonClass} disabled:opacity-40 disabled:cursor-not-allowed`}>{t('templates.export')}</button>
+              <button onClick={() => setEditing(createEmptyTemplate())} className={smallButtonClass}>{t('common.add')}</button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
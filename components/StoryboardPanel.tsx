@@ -0,0 +1,202 @@
+import React from 'react';
+import type { SelectOption, StoryboardScene } from '../types';
+import { ImageUploader } from './ImageUploader';
+import { SelectInput } from './SelectInput';
+import { ProgressBar } from './ProgressBar';
+import { GenerationErrorMessage } from './GenerationErrorMessage';
+import { isGenerationError } from '../services/generationErrors';
+import { useTranslation } from '../contexts/LanguageContext';
+
+export interface SceneGenerationStatus {
+  isLoading: boolean;
+  error: Error | string | null;
+}
+
+interface StoryboardPanelProps {
+  scenes: StoryboardScene[];
+  statuses: Record<string, SceneGenerationStatus>;
+  lightingOptions: SelectOption[];
+  cameraOptions: SelectOption[];
+  isGeneratingAll: boolean;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<StoryboardScene>) => void;
+  onMove: (startIndex: number, endIndex: number) => void;
+  onGenerate: (id: string) => void;
+  onGenerateAll: () => void;
+  onPin: (id: string, outputIndex: number | null) => void;
+  onView: (image: string) => void;
+}
+
+const SceneCard: React.FC<{
+  scene: StoryboardScene;
+  index: number;
+  total: number;
+  status: SceneGenerationStatus | undefined;
+  lightingOptions: SelectOption[];
+  cameraOptions: SelectOption[];
+  isGeneratingAll: boolean;
+  onRemove: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<StoryboardScene>) => void;
+  onMove: (startIndex: number, endIndex: number) => void;
+  onGenerate: (id: string) => void;
+  onPin: (id: string, outputIndex: number | null) => void;
+  onView: (image: string) => void;
+}> = ({ scene, index, total, status, lightingOptions, cameraOptions, isGeneratingAll, onRemove, onUpdate, onMove, onGenerate, onPin, onView }) => {
+  const { t } = useTranslation();
+  const isLoading = status?.isLoading ?? false;
+  const isBlocked = isGenerationError(status?.error) && status.error.code === 'safetyBlocked';
+  const pinnedImage = scene.pinnedOutputIndex !== null ? scene.outputs[scene.pinnedOutputIndex] : undefined;
+  const iconButtonClass = "text-gray-400 hover:text-cyan-300 disabled:opacity-30 disabled:cursor-not-allowed p-1 rounded transition-colors";
+
+  return (
+    <li className="bg-black/20 border border-white/10 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-cyan-300 tracking-wider">{t('storyboard.scene')} {index + 1}</h3>
+        <div className="flex items-center gap-1">
+          <button onClick={() => onMove(index, index - 1)} disabled={index === 0} className={iconButtonClass} aria-label={t('storyboard.moveUp')}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" /></svg>
+          </button>
+          <button onClick={() => onMove(index, index + 1)} disabled={index === total - 1} className={iconButtonClass} aria-label={t('storyboard.moveDown')}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+          </button>
+          <button onClick={() => onRemove(scene.id)} disabled={isLoading} className="text-gray-400 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed p-1 rounded transition-colors" aria-label={t('storyboard.remove')}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2 space-y-4">
+          <textarea
+            value={scene.description}
+            onChange={(e) => onUpdate(scene.id, { description: e.target.value })}
+            rows={3}
+            className={`w-full bg-black/30 border text-gray-200 rounded-lg shadow-sm p-3 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 placeholder-gray-500 resize-y transition-all ${isBlocked ? 'border-red-500 ring-2 ring-red-500/70' : 'border-white/20'}`}
+            placeholder={t('generate.scene.descriptionPlaceholder')}
+            aria-label={t('generate.scene.descriptionLabel')}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <SelectInput id={`storyboard-lighting-${scene.id}`} label={t('storyboard.lighting')} value={scene.lightingStyle} options={lightingOptions} onChange={(e) => onUpdate(scene.id, { lightingStyle: e.target.value })} />
+            <SelectInput id={`storyboard-camera-${scene.id}`} label={t('storyboard.camera')} value={scene.cameraPerspective} options={cameraOptions} onChange={(e) => onUpdate(scene.id, { cameraPerspective: e.target.value })} />
+          </div>
+        </div>
+        <ImageUploader
+          id={`storyboard-location-${scene.id}`}
+          label={t('generate.scene.locationLabel')}
+          image={scene.locationImage}
+          onImageUpload={(image) => onUpdate(scene.id, { locationImage: image })}
+        />
+      </div>
+
+      {scene.outputs.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-400 mb-2">{pinnedImage ? t('storyboard.pinnedHint') : t('storyboard.pinHint')}</p>
+          <ul className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+            {scene.outputs.map((output, outputIndex) => {
+              const isPinned = scene.pinnedOutputIndex === outputIndex;
+              return (
+                <li key={outputIndex} className={`relative group aspect-video bg-black/30 rounded-lg overflow-hidden border-2 ${isPinned ? 'border-fuchsia-500 shadow-[0_0_12px_rgba(217,70,239,0.6)]' : 'border-white/10'}`}>
+                  <img src={output} alt={`${t('storyboard.scene')} ${index + 1}`} className="w-full h-full object-cover cursor-zoom-in" onClick={() => onView(output)} />
+                  <button
+                    onClick={() => onPin(scene.id, isPinned ? null : outputIndex)}
+                    className={`absolute top-1 end-1 text-xs font-bold rounded px-2 py-0.5 transition-all ${isPinned ? 'bg-fuchsia-600 text-white' : 'bg-black/60 text-gray-200 opacity-0 group-hover:opacity-100 hover:bg-fuchsia-500 hover:text-black'}`}
+                  >
+                    {isPinned ? t('storyboard.unpin') : t('storyboard.pin')}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {status?.error && !isLoading && (
+        <GenerationErrorMessage error={status.error} compact />
+      )}
+
+      <div>
+        <button
+          onClick={() => onGenerate(scene.id)}
+          disabled={isLoading || isGeneratingAll}
+          className="w-full py-2 px-4 text-sm font-bold text-black bg-cyan-400 rounded-lg hover:bg-cyan-300 transition-all disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          {isLoading ? t('generate.buttons.generating') : scene.outputs.length > 0 ? t('storyboard.generateAgain') : t('storyboard.generate')}
+        </button>
+        {isLoading && <ProgressBar />}
+      </div>
+    </li>
+  );
+};
+
+export const StoryboardPanel: React.FC<StoryboardPanelProps> = ({
+  scenes,
+  statuses,
+  lightingOptions,
+  cameraOptions,
+  isGeneratingAll,
+  onAdd,
+  onRemove,
+  onUpdate,
+  onMove,
+  onGenerate,
+  onGenerateAll,
+  onPin,
+  onView,
+}) => {
+  const { t } = useTranslation();
+  const pinnedCount = scenes.filter(s => s.pinnedOutputIndex !== null).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 border-b border-white/10 pb-3">
+        <div>
+          <h2 className="text-xl font-bold text-cyan-300 tracking-wider">{t('storyboard.title')}</h2>
+          <p className="text-xs text-gray-500 mt-1">{t('storyboard.pinnedCount').replace('{pinned}', String(pinnedCount)).replace('{total}', String(scenes.length))}</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onAdd}
+            className="text-sm border-2 border-cyan-500/50 text-cyan-400 font-bold py-1 px-3 rounded-md hover:bg-cyan-500 hover:text-black hover:border-cyan-500 transition-colors duration-200"
+          >
+            {t('storyboard.addScene')}
+          </button>
+          <button
+            onClick={onGenerateAll}
+            disabled={isGeneratingAll || scenes.length === 0}
+            className="text-sm bg-fuchsia-500 text-black font-bold py-1 px-3 rounded-md hover:bg-fuchsia-400 transition-colors duration-200 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            {isGeneratingAll ? t('generate.buttons.generating') : t('storyboard.generateAll')}
+          </button>
+        </div>
+      </div>
+
+      {scenes.length > 0 ? (
+        <ol className="space-y-4">
+          {scenes.map((scene, index) => (
+            <SceneCard
+              key={scene.id}
+              scene={scene}
+              index={index}
+              total={scenes.length}
+              status={statuses[scene.id]}
+              lightingOptions={lightingOptions}
+              cameraOptions={cameraOptions}
+              isGeneratingAll={isGeneratingAll}
+              onRemove={onRemove}
+              onUpdate={onUpdate}
+              onMove={onMove}
+              onGenerate={onGenerate}
+              onPin={onPin}
+              onView={onView}
+            />
+          ))}
+        </ol>
+      ) : (
+        <div className="text-center text-gray-500 p-8">
+          <p>{t('storyboard.empty')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyMask,
+  borderSeeds,
+  chromaKeyMask,
+  createMask,
+  floodFillMask,
+  fullRegion,
+  paintMask,
+} from './backgroundRemoval';
+import type { PixelBuffer, RGB } from './backgroundRemoval';
+
+const WHITE: RGB = [255, 255, 255];
+const RED: RGB = [200, 20, 20];
+
+// Builds an image from rows of single-letter colour codes
+const image = (rows: string[], palette: Record<string, RGB>): PixelBuffer => {
+  const height = rows.length;
+  const width = rows[0].length;
+  const data = new Uint8ClampedArray(width * height * 4);
+  rows.forEach((row, y) => [...row].forEach((code, x) => {
+    const i = (y * width + x) * 4;
+    data.set([...palette[code], 255], i);
+  }));
+  return { data, width, height };
+};
+
+const maskRows = (mask: Uint8Array, width: number) =>
+  Array.from({ length: mask.length / width }, (_, y) => Array.from(mask.slice(y * width, (y + 1) * width)).join(''));
+
+// A red subject on white, with a white island inside it and a separate red dot on the border
+const scene = image([
+  'wwwwwr',
+  'wrrrww',
+  'wrwrww',
+  'wrrrww',
+  'wwwwww',
+], { w: WHITE, r: RED });
+
+describe('floodFillMask', () => {
+  it('removes only the background connected to the seed', () => {
+    const mask = createMask(scene);
+    const region = floodFillMask(scene, mask, [{ x: 0, y: 0 }], 0.1);
+    expect(maskRows(mask, scene.width)).toEqual([
+      '111110',
+      '100011',
+      '100011',
+      '100011',
+      '111111',
+    ]);
+    expect(region).toEqual({ x: 0, y: 0, width: 6, height: 5 });
+  });
+
+  it('spreads into similar colours as the tolerance grows', () => {
+    const mask = createMask(scene);
+    floodFillMask(scene, mask, [{ x: 0, y: 0 }], 1);
+    expect(mask.every(value => value === 1)).toBe(true);
+  });
+
+  it('reports nothing when every reachable pixel is already removed', () => {
+    const mask = createMask(scene);
+    floodFillMask(scene, mask, [{ x: 0, y: 0 }], 0.1);
+    expect(floodFillMask(scene, mask, [{ x: 0, y: 0 }], 0.1)).toBeNull();
+  });
+
+  it('treats transparent pixels as background', () => {
+    const padded = image(['wrw'], { w: WHITE, r: RED });
+    padded.data[3] = 0;
+    padded.data.set([0, 0, 0], 0);
+    const mask = createMask(padded);
+    floodFillMask(padded, mask, [{ x: 0, y: 0 }], 0.1);
+    expect(Array.from(mask)).toEqual([1, 0, 0]);
+  });
+});
+
+describe('chromaKeyMask', () => {
+  it('removes matching colours anywhere in the image', () => {
+    const mask = createMask(scene);
+    chromaKeyMask(scene, mask, WHITE, 0.1);
+    expect(maskRows(mask, scene.width)[2]).toBe('101011');
+  });
+});
+
+describe('borderSeeds', () => {
+  it('stays inside the image and covers the corners', () => {
+    const seeds = borderSeeds(scene, 3);
+    expect(seeds.every(({ x, y }) => x >= 0 && y >= 0 && x < scene.width && y < scene.height)).toBe(true);
+    expect(seeds).toEqual(expect.arrayContaining([{ x: 0, y: 0 }, { x: 5, y: 4 }]));
+  });
+});
+
+describe('paintMask', () => {
+  it('paints and restores a clipped circle', () => {
+    const mask = new Uint8Array(25);
+    const region = paintMask(mask, 5, 5, { x: 0, y: 0 }, 1, 1);
+    expect(region).toEqual({ x: 0, y: 0, width: 2, height: 2 });
+    expect(maskRows(mask, 5).slice(0, 2)).toEqual(['11000', '10000']);
+
+    paintMask(mask, 5, 5, { x: 0, y: 0 }, 1, 0);
+    expect(mask.every(value => value === 0)).toBe(true);
+  });
+});
+
+describe('applyMask', () => {
+  it('clears the alpha of masked pixels and restores the rest', () => {
+    const output = { ...scene, data: new Uint8ClampedArray(scene.data.length) };
+    const mask = createMask(scene);
+    mask[0] = 1;
+    applyMask(scene, output, mask, fullRegion(scene));
+    expect(output.data[3]).toBe(0);
+    expect(Array.from(output.data.slice(4, 8))).toEqual([...WHITE, 255]);
+  });
+});
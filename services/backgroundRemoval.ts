@@ -0,0 +1,181 @@
+/**
+ * Offline background removal on raw RGBA pixels. Everything works on a removal mask with one
+ * byte per pixel (1 = made transparent), so tools can be combined and undone cheaply.
+ */
+
+// ImageData satisfies this, but tests can build one without a DOM
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type RGB = [number, number, number];
+
+// Share of the largest possible RGB distance; 0 only matches the exact colour
+export const DEFAULT_TOLERANCE = 0.15;
+// Pixels this transparent already count as background for the fill
+const TRANSPARENT_ALPHA = 16;
+const MAX_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+export const createMask = ({ width, height }: PixelBuffer): Uint8Array => new Uint8Array(width * height);
+
+export const colorAt = ({ data, width }: PixelBuffer, { x, y }: Point): RGB => {
+  const i = (y * width + x) * 4;
+  return [data[i], data[i + 1], data[i + 2]];
+};
+
+const matches = (data: Uint8ClampedArray, pixel: number, [r, g, b]: RGB, tolerance: number): boolean => {
+  const i = pixel * 4;
+  if (data[i + 3] <= TRANSPARENT_ALPHA) return true;
+  const dr = data[i] - r;
+  const dg = data[i + 1] - g;
+  const db = data[i + 2] - b;
+  return Math.sqrt(dr * dr + dg * dg + db * db) / MAX_DISTANCE <= tolerance;
+};
+
+// Grows a bounding box pixel by pixel; converted to a Region once the tool is done
+class Bounds {
+  minX = Infinity;
+  minY = Infinity;
+  maxX = -Infinity;
+  maxY = -Infinity;
+
+  add(x: number, y: number) {
+    if (x < this.minX) this.minX = x;
+    if (y < this.minY) this.minY = y;
+    if (x > this.maxX) this.maxX = x;
+    if (y > this.maxY) this.maxY = y;
+  }
+
+  toRegion(): Region | null {
+    if (this.maxX < this.minX) return null;
+    return { x: this.minX, y: this.minY, width: this.maxX - this.minX + 1, height: this.maxY - this.minY + 1 };
+  }
+}
+
+/**
+ * Marks every pixel connected to a seed whose colour is within `tolerance` of that seed's colour.
+ * Returns the region that changed, or null when nothing new was removed.
+ */
+export const floodFillMask = (buffer: PixelBuffer, mask: Uint8Array, seeds: Point[], tolerance: number): Region | null => {
+  const { data, width, height } = buffer;
+  const changed = new Bounds();
+  const visited = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+
+  for (const seed of seeds) {
+    if (seed.x < 0 || seed.y < 0 || seed.x >= width || seed.y >= height) continue;
+    const start = seed.y * width + seed.x;
+    if (visited[start]) continue;
+    const color = colorAt(buffer, seed);
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+
+    while (top > 0) {
+      const pixel = stack[--top];
+      if (!matches(data, pixel, color, tolerance)) continue;
+      const x = pixel % width;
+      const y = (pixel - x) / width;
+      if (!mask[pixel]) {
+        mask[pixel] = 1;
+        changed.add(x, y);
+      }
+      const neighbours = [
+        x > 0 ? pixel - 1 : -1,
+        x < width - 1 ? pixel + 1 : -1,
+        y > 0 ? pixel - width : -1,
+        y < height - 1 ? pixel + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && !visited[next]) {
+          visited[next] = 1;
+          stack[top++] = next;
+        }
+      }
+    }
+  }
+  return changed.toRegion();
+};
+
+/** Marks every pixel in the image within `tolerance` of `color`, connected or not. */
+export const chromaKeyMask = (buffer: PixelBuffer, mask: Uint8Array, color: RGB, tolerance: number): Region | null => {
+  const { data, width } = buffer;
+  const changed = new Bounds();
+  for (let pixel = 0; pixel < mask.length; pixel++) {
+    if (!mask[pixel] && matches(data, pixel, color, tolerance)) {
+      mask[pixel] = 1;
+      changed.add(pixel % width, Math.floor(pixel / width));
+    }
+  }
+  return changed.toRegion();
+};
+
+/** Seeds along the image border, where the background usually is. */
+export const borderSeeds = ({ width, height }: PixelBuffer, perSide = 8): Point[] => {
+  const seeds: Point[] = [];
+  for (let i = 0; i < perSide; i++) {
+    const x = Math.round((i / (perSide - 1)) * (width - 1));
+    const y = Math.round((i / (perSide - 1)) * (height - 1));
+    seeds.push({ x, y: 0 }, { x, y: height - 1 }, { x: 0, y }, { x: width - 1, y });
+  }
+  return seeds;
+};
+
+/** Paints a filled circle into the mask: 1 erases, 0 restores. Returns the region it covered. */
+export const paintMask = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  center: Point,
+  radius: number,
+  value: 0 | 1
+): Region | null => {
+  const changed = new Bounds();
+  const r = Math.max(0.5, radius);
+  const minX = Math.max(0, Math.floor(center.x - r));
+  const maxX = Math.min(width - 1, Math.ceil(center.x + r));
+  const minY = Math.max(0, Math.floor(center.y - r));
+  const maxY = Math.min(height - 1, Math.ceil(center.y + r));
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const dx = x - center.x;
+      const dy = y - center.y;
+      if (dx * dx + dy * dy <= r * r) {
+        mask[y * width + x] = value;
+        changed.add(x, y);
+      }
+    }
+  }
+  return changed.toRegion();
+};
+
+/** Copies `source` into `output` inside `region`, clearing the alpha of masked pixels. */
+export const applyMask = (source: PixelBuffer, output: PixelBuffer, mask: Uint8Array, region: Region) => {
+  const { width } = source;
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      const pixel = y * width + x;
+      const i = pixel * 4;
+      output.data[i] = source.data[i];
+      output.data[i + 1] = source.data[i + 1];
+      output.data[i + 2] = source.data[i + 2];
+      output.data[i + 3] = mask[pixel] ? 0 : source.data[i + 3];
+    }
+  }
+};
+
+export const fullRegion = ({ width, height }: PixelBuffer): Region => ({ x: 0, y: 0, width, height });
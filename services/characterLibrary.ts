@@ -0,0 +1,30 @@
+import type { Character, LibraryCharacter } from '../types';
+import { STORES, deleteRecord, getAllRecords, putRecord } from './db';
+
+export const LIBRARY_CHARACTER_DRAG_TYPE = 'application/x-boukiane-character';
+
+export const loadLibraryCharacters = async (): Promise<LibraryCharacter[]> => {
+  const characters = await getAllRecords<LibraryCharacter>(STORES.characters);
+  return characters.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveLibraryCharacter = (character: LibraryCharacter): Promise<void> => {
+  return putRecord(STORES.characters, character);
+};
+
+export const deleteLibraryCharacter = (id: string): Promise<void> => {
+  return deleteRecord(STORES.characters, id);
+};
+
+/** Turns a library entry into an element for an `EditableElementList`; the first reference becomes the main image. */
+export const libraryCharacterToElement = (character: LibraryCharacter): Character => {
+  const [primary, ...extra] = character.references;
+  return {
+    id: Date.now(),
+    name: character.name,
+    image: primary?.image ?? null,
+    libraryId: character.id,
+    description: character.description,
+    references: extra,
+  };
+};
@@ -0,0 +1,130 @@
+const DB_NAME = 'boukiane';
+const DB_VERSION = 5;
+
+export const STORES = {
+  characters: 'characters',
+  history: 'history',
+  historyOriginals: 'historyOriginals',
+  historyInputs: 'historyInputs',
+  promptTemplates: 'promptTemplates',
+  session: 'session',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Each entry upgrades the schema from the previous version; never edit a shipped step, append a new one.
+const migrations: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db) => {
+    db.createObjectStore(STORES.characters, { keyPath: 'id' });
+  },
+  (db) => {
+    // Thumbnails and metadata are listed eagerly; full-resolution originals are fetched on demand.
+    const history = db.createObjectStore(STORES.history, { keyPath: 'id' });
+    history.createIndex('createdAt', 'createdAt');
+    db.createObjectStore(STORES.historyOriginals, { keyPath: 'id' });
+  },
+  (db) => {
+    // Input images referenced by history settings, keyed by content hash so repeats are stored once
+    db.createObjectStore(STORES.historyInputs, { keyPath: 'id' });
+  },
+  (db) => {
+    db.createObjectStore(STORES.promptTemplates, { keyPath: 'id' });
+  },
+  (db) => {
+    // A single autosaved copy of the working state, for recovery after the tab is closed
+    db.createObjectStore(STORES.session, { keyPath: 'id' });
+  },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction;
+        if (!tx) return;
+        for (let version = event.oldVersion; version < migrations.length; version++) {
+          migrations[version](request.result, tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The database is open in another tab with an older version.'));
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/** Runs `work` inside one transaction across several stores and resolves once it commits. */
+export const runTransaction = async (
+  storeNames: StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  work(tx);
+  return transactionDone(tx);
+};
+
+export const getAllRecords = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readonly');
+  return requestToPromise<T[]>(tx.objectStore(storeName).getAll());
+};
+
+export const getRecord = async <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readonly');
+  return requestToPromise<T | undefined>(tx.objectStore(storeName).get(key));
+};
+
+export const hasRecord = async (storeName: StoreName, key: IDBValidKey): Promise<boolean> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readonly');
+  return (await requestToPromise(tx.objectStore(storeName).getKey(key))) !== undefined;
+};
+
+export const putRecord = async <T>(storeName: StoreName, value: T): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).put(value);
+  return transactionDone(tx);
+};
+
+export const deleteRecord = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).delete(key);
+  return transactionDone(tx);
+};
+
+export const clearStore = async (storeName: StoreName): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).clear();
+  return transactionDone(tx);
+};
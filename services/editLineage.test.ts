@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import type { HistoryItem } from '../types';
+import { buildLineageTree, countLineageNodes, lineageRoot } from './editLineage';
+import type { LineageNode } from './editLineage';
+
+const item = (id: string, parentId?: string, minute = 0): HistoryItem => ({
+  id,
+  parentId,
+  thumbnail: { base64: id, mimeType: 'image/png' },
+  prompt: id,
+  createdAt: `2025-01-01T00:${String(minute).padStart(2, '0')}:00.000Z`,
+  byteSize: 1,
+});
+
+// Outline of a tree as nested ids, e.g. "a(b(c) d)"
+const outline = (node: LineageNode): string =>
+  node.children.length === 0 ? node.item.id : `${node.item.id}(${node.children.map(outline).join(' ')})`;
+
+// a is the source image; b and d are two forks from it, c continues b
+const history = [item('d', 'a', 3), item('c', 'b', 2), item('b', 'a', 1), item('a', undefined, 0), item('x', undefined, 4)];
+
+describe('lineageRoot', () => {
+  it('walks up to the oldest ancestor', () => {
+    expect(lineageRoot(history, 'c')?.id).toBe('a');
+    expect(lineageRoot(history, 'x')?.id).toBe('x');
+    expect(lineageRoot(history, 'missing')).toBeNull();
+  });
+
+  it('stops at a parent that is no longer in history', () => {
+    expect(lineageRoot(history.filter(h => h.id !== 'a'), 'c')?.id).toBe('b');
+  });
+
+  it('survives a cycle', () => {
+    expect(lineageRoot([item('p', 'q'), item('q', 'p')], 'p')).not.toBeNull();
+  });
+});
+
+describe('buildLineageTree', () => {
+  it('shows every branch from the root, oldest first', () => {
+    const tree = buildLineageTree(history, 'd');
+    expect(tree && outline(tree)).toBe('a(b(c) d)');
+    expect(tree && countLineageNodes(tree)).toBe(4);
+  });
+
+  it('is a single node for an image that was never edited', () => {
+    const tree = buildLineageTree(history, 'x');
+    expect(tree && outline(tree)).toBe('x');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Edit chains: every edit saved to history points at the history item it was made from, so the
+ * items of one editing session form a tree that can be browsed, jumped back into and forked.
+ */
+import type { HistoryItem } from '../types';
+
+export interface LineageNode {
+  item: HistoryItem;
+  children: LineageNode[];
+}
+
+/**
+ * The oldest ancestor of `id` that is still in history. A parent that was deleted or evicted
+ * ends the chain there. Returns null when `id` itself is not in history.
+ */
+export const lineageRoot = (history: HistoryItem[], id: string): HistoryItem | null => {
+  const byId = new Map(history.map(item => [item.id, item]));
+  let current = byId.get(id);
+  if (!current) return null;
+  const seen = new Set<string>([current.id]);
+  while (current.parentId) {
+    const parent = byId.get(current.parentId);
+    // A cycle can only come from corrupt data, but must not hang the UI
+    if (!parent || seen.has(parent.id)) break;
+    seen.add(parent.id);
+    current = parent;
+  }
+  return current;
+};
+
+/** The whole tree `id` belongs to, with siblings oldest first. */
+export const buildLineageTree = (history: HistoryItem[], id: string): LineageNode | null => {
+  const root = lineageRoot(history, id);
+  if (!root) return null;
+
+  const childrenOf = new Map<string, HistoryItem[]>();
+  for (const item of history) {
+    if (!item.parentId || item.id === root.id) continue;
+    const siblings = childrenOf.get(item.parentId) ?? [];
+    siblings.push(item);
+    childrenOf.set(item.parentId, siblings);
+  }
+
+  const visited = new Set<string>();
+  const build = (item: HistoryItem): LineageNode => {
+    visited.add(item.id);
+    const children = (childrenOf.get(item.id) ?? [])
+      .filter(child => !visited.has(child.id))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return { item, children: children.map(build) };
+  };
+  return build(root);
+};
+
+export const countLineageNodes = (node: LineageNode): number =>
+  1 + node.children.reduce((sum, child) => sum + countLineageNodes(child), 0);
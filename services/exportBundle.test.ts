@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { buildExportZip, exportFileName, manifestToCsv, toManifestRecord } from './exportBundle';
+import type { ExportImage } from './exportBundle';
+
+const png = { base64: 'iVBORw0KGgo=', mimeType: 'image/png' };
+
+const generated: ExportImage = {
+  id: 'gen-1',
+  image: png,
+  prompt: 'A cinematic wide shot of two figures at dawn.',
+  createdAt: '2026-10-19T08:00:00.000Z',
+  settings: {
+    tab: 'generate',
+    sceneDescription: 'A duel at dawn',
+    artisticStyle: 'cinematic',
+    lightingStyle: 'golden hour',
+    cameraPerspective: 'wide shot',
+    aspectRatio: '16:9',
+    characters: [],
+    objects: [],
+    locationImageRef: null,
+    styleImageRef: null,
+  },
+  tags: ['hero', 'night'],
+};
+
+describe('exportFileName', () => {
+  it('numbers files and names them after the user text', () => {
+    expect(exportFileName(generated, 6, 12)).toBe('007-a-duel-at-dawn.png');
+    expect(exportFileName({ ...generated, settings: undefined, image: { ...png, mimeType: 'image/jpeg' } }, 0, 1000))
+      .toBe('0001-a-cinematic-wide-shot-of-two-figures-at.jpg');
+    expect(exportFileName({ ...generated, settings: undefined, prompt: '!!!' }, 0, 1)).toBe('001.png');
+  });
+});
+
+describe('manifest', () => {
+  it('flattens settings into one record per image', () => {
+    const record = toManifestRecord(generated, 'images/001-a-duel-at-dawn.png');
+    expect(record).toMatchObject({ tab: 'generate', artisticStyle: 'cinematic', aspectRatio: '16:9', instruction: '', tags: ['hero', 'night'] });
+  });
+
+  it('quotes CSV cells that contain commas, quotes or line breaks', () => {
+    const record = toManifestRecord({ ...generated, prompt: 'He said "go", then\nleft' }, 'a.png');
+    const [header, row] = manifestToCsv([record]).split('\r\n');
+    expect(header.startsWith('file,id,createdAt,tab,prompt')).toBe(true);
+    expect(row).toContain('"He said ""go"", then\nleft"');
+    expect(row).toContain('hero; night');
+  });
+
+  it('keeps cells that look like formulas from running in spreadsheets', () => {
+    const record = toManifestRecord({
+      ...generated,
+      prompt: '=HYPERLINK("https://example.com","open")',
+      commentary: '@SUM(A1)',
+      tags: ['-1+1', 'night'],
+    }, 'a.png');
+    const row = manifestToCsv([record]).split('\r\n')[1];
+    expect(row).toContain(`"'=HYPERLINK(""https://example.com"",""open"")"`);
+    expect(row).toContain(",'@SUM(A1),");
+    expect(row).toContain(",'-1+1; night,");
+  });
+});
+
+describe('buildExportZip', () => {
+  it('includes the images and both manifests', () => {
+    const zip = buildExportZip([generated, { ...generated, id: 'gen-2' }], new Date('2026-10-19T09:00:00.000Z'));
+    const text = new TextDecoder().decode(zip);
+    expect(text).toContain('images/001-a-duel-at-dawn.png');
+    expect(text).toContain('images/002-a-duel-at-dawn.png');
+    expect(text).toContain('manifest.csv');
+    expect(text).toContain('"exportedAt": "2026-10-19T09:00:00.000Z"');
+  });
+
+  it('refuses an empty export', () => {
+    expect(() => buildExportZip([])).toThrow();
+  });
+});
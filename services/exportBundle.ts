@@ -0,0 +1,130 @@
+/**
+ * Bulk export: images from history or the output panels, bundled into one ZIP together with a
+ * manifest of the prompt, parameters and timestamp of each image, as JSON and as CSV.
+ */
+import type { GenerationSettings, ImageFile } from '../types';
+import { createZip } from './zipArchive';
+import type { ZipEntry } from './zipArchive';
+
+export interface ExportImage {
+  id: string; // history id, or a placeholder for outputs that were never saved
+  image: ImageFile;
+  prompt: string;
+  createdAt: string; // ISO timestamp
+  settings?: GenerationSettings;
+  commentary?: string;
+  tags?: string[];
+  parentId?: string;
+}
+
+export interface ManifestRecord {
+  file: string;
+  id: string;
+  createdAt: string;
+  tab: 'generate' | 'edit' | '';
+  prompt: string;
+  sceneDescription: string;
+  instruction: string;
+  artisticStyle: string;
+  lightingStyle: string;
+  cameraPerspective: string;
+  aspectRatio: string;
+  commentary: string;
+  tags: string[];
+  parentId: string;
+}
+
+export const MANIFEST_JSON_NAME = 'manifest.json';
+export const MANIFEST_CSV_NAME = 'manifest.csv';
+export const EXPORT_IMAGE_FOLDER = 'images';
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export const extensionForMimeType = (mimeType: string): string => MIME_EXTENSIONS[mimeType.toLowerCase()] ?? 'png';
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 40).replace(/-+$/, '');
+
+// The user's own words make a shorter, more recognisable name than the full prompt
+const captionFor = ({ settings, prompt }: ExportImage): string => {
+  if (settings?.tab === 'edit' && settings.instruction.trim()) return settings.instruction;
+  if (settings?.tab === 'generate' && settings.sceneDescription.trim()) return settings.sceneDescription;
+  return prompt;
+};
+
+/** "007-a-duel-at-dawn.png": numbered so the files sort in export order. */
+export const exportFileName = (entry: ExportImage, index: number, total: number): string => {
+  const number = String(index + 1).padStart(Math.max(3, String(total).length), '0');
+  const slug = slugify(captionFor(entry));
+  return `${number}${slug ? `-${slug}` : ''}.${extensionForMimeType(entry.image.mimeType)}`;
+};
+
+export const toManifestRecord = (entry: ExportImage, file: string): ManifestRecord => {
+  const generate = entry.settings?.tab === 'generate' ? entry.settings : null;
+  const edit = entry.settings?.tab === 'edit' ? entry.settings : null;
+  return {
+    file,
+    id: entry.id,
+    createdAt: entry.createdAt,
+    tab: entry.settings?.tab ?? '',
+    prompt: entry.prompt,
+    sceneDescription: generate?.sceneDescription ?? '',
+    instruction: edit?.instruction ?? '',
+    artisticStyle: generate?.artisticStyle ?? '',
+    lightingStyle: generate?.lightingStyle ?? '',
+    cameraPerspective: generate?.cameraPerspective ?? '',
+    aspectRatio: generate?.aspectRatio ?? '',
+    commentary: entry.commentary ?? '',
+    tags: entry.tags ?? [],
+    parentId: entry.parentId ?? '',
+  };
+};
+
+const CSV_COLUMNS: (keyof ManifestRecord)[] = [
+  'file', 'id', 'createdAt', 'tab', 'prompt', 'sceneDescription', 'instruction',
+  'artisticStyle', 'lightingStyle', 'cameraPerspective', 'aspectRatio', 'commentary', 'tags', 'parentId',
+];
+
+// Spreadsheets run cells starting with these as formulas, so such cells get a leading apostrophe
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string): string => {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** RFC 4180 CSV; tags are joined with "; " so the column stays a single cell. */
+export const manifestToCsv = (records: ManifestRecord[]): string =>
+  [CSV_COLUMNS, ...records.map(record => CSV_COLUMNS.map(column => {
+    const value = record[column];
+    return Array.isArray(value) ? value.join('; ') : value;
+  }))].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+/** Builds the archive: every image under images/, plus manifest.json and manifest.csv at the root. */
+export const buildExportZip = (entries: ExportImage[], exportedAt: Date = new Date()): Uint8Array => {
+  if (entries.length === 0) throw new Error('There are no images to export.');
+  const records = entries.map((entry, index) => toManifestRecord(entry, `${EXPORT_IMAGE_FOLDER}/${exportFileName(entry, index, entries.length)}`));
+  const encoder = new TextEncoder();
+  const manifest = { exportedAt: exportedAt.toISOString(), count: records.length, images: records };
+
+  const files: ZipEntry[] = entries.map((entry, index) => ({
+    name: records[index].file,
+    data: base64ToBytes(entry.image.base64),
+    modified: new Date(entry.createdAt),
+  }));
+  files.push(
+    { name: MANIFEST_JSON_NAME, data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    // The byte order mark makes spreadsheet apps read non-Latin prompts as UTF-8
+    { name: MANIFEST_CSV_NAME, data: encoder.encode(`\uFEFF${manifestToCsv(records)}`) },
+  );
+  return createZip(files, exportedAt);
+};
+
+export const exportArchiveName = (exportedAt: Date = new Date()): string => `cinematic-scenes-${exportedAt.getTime()}.zip`;
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GenerationCancelledError,
+  GenerationError,
+  formatHarmCategory,
+  isSafetyReason,
+  parseRetryAfterMs,
+  toGenerationError,
+} from './generationErrors';
+
+// Shaped like the SDK's ApiError, which carries the HTTP status next to the message
+const apiError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+describe('toGenerationError', () => {
+  it.each([
+    [apiError(429, 'got status: 429 Too Many Requests'), 'quota'],
+    [apiError(401, 'Unauthorized'), 'auth'],
+    [apiError(403, 'The caller does not have permission'), 'auth'],
+    [apiError(400, 'Request contains an invalid argument.'), 'invalidInput'],
+    [apiError(503, 'The model is overloaded.'), 'network'],
+    [new Error('Rpc failed due to xhr error'), 'network'],
+    [new TypeError('Failed to fetch'), 'network'],
+    [new Error('API key not valid. Please pass a valid API key.'), 'auth'],
+    [new Error('API_KEY environment variable is not set'), 'auth'],
+    [new Error('RESOURCE_EXHAUSTED: quota exceeded'), 'quota'],
+    [new Error('Something odd happened'), 'unknown'],
+  ])('classifies %s as %s', (error, code) => {
+    expect((toGenerationError(error) as GenerationError).code).toBe(code);
+  });
+
+  it('prefers the HTTP status over the message wording', () => {
+    expect((toGenerationError(apiError(429, 'API key quota exceeded')) as GenerationError).code).toBe('quota');
+  });
+
+  it('keeps the original message and cause', () => {
+    const original = new Error('Rpc failed due to xhr error');
+    const error = toGenerationError(original) as GenerationError;
+    expect(error.message).toBe(original.message);
+    expect(error.cause).toBe(original);
+  });
+
+  it('reads the retry delay from quota errors', () => {
+    const error = toGenerationError(apiError(429, '{"error":{"details":[{"retryDelay": "37s"}]}}')) as GenerationError;
+    expect(error.retryAfterMs).toBe(37_000);
+    expect(error.retryAt).toBeGreaterThan(Date.now());
+  });
+
+  it('returns classified errors and cancellations unchanged', () => {
+    const classified = new GenerationError('safetyBlocked', 'blocked', { safetyCategories: ['HARASSMENT'] });
+    const cancelled = new GenerationCancelledError();
+    expect(toGenerationError(classified)).toBe(classified);
+    expect(toGenerationError(cancelled)).toBe(cancelled);
+  });
+
+  it('wraps non-Error values', () => {
+    const error = toGenerationError('boom') as GenerationError;
+    expect(error).toBeInstanceOf(GenerationError);
+    expect(error.message).toBe('boom');
+  });
+});
+
+describe('parseRetryAfterMs', () => {
+  it.each([
+    ['"retryDelay": "12s"', 12_000],
+    ['"retryDelay":"1.5s"', 1_500],
+    ['Please retry in 20.2s.', 20_200],
+    ['Quota exceeded', null],
+  ])('parses %s', (message, expected) => {
+    expect(parseRetryAfterMs(message)).toBe(expected);
+  });
+});
+
+describe('safety helpers', () => {
+  it('recognises refusal reasons', () => {
+    expect(isSafetyReason('SAFETY')).toBe(true);
+    expect(isSafetyReason('IMAGE_SAFETY')).toBe(true);
+    expect(isSafetyReason('STOP')).toBe(false);
+    expect(isSafetyReason(undefined)).toBe(false);
+  });
+
+  it('strips the harm category prefix', () => {
+    expect(formatHarmCategory('HARM_CATEGORY_HATE_SPEECH')).toBe('HATE_SPEECH');
+  });
+});
@@ -0,0 +1,91 @@
+/** Thrown when a request is cancelled through its AbortSignal, so callers can tell it apart from a failure. */
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('The generation was cancelled.');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export const isCancellation = (error: unknown): boolean =>
+  error instanceof GenerationCancelledError || (error instanceof DOMException && error.name === 'AbortError');
+
+export const GENERATION_ERROR_CODES = ['safetyBlocked', 'noImage', 'quota', 'network', 'invalidInput', 'auth', 'unknown'] as const;
+
+export type GenerationErrorCode = typeof GENERATION_ERROR_CODES[number];
+
+interface GenerationErrorDetails {
+  // Harm categories reported for a safety block, without the HARM_CATEGORY_ prefix
+  safetyCategories?: string[];
+  // Milliseconds the API asked us to wait before trying again
+  retryAfterMs?: number | null;
+  cause?: unknown;
+}
+
+/**
+ * A failed generation with a machine-readable `code`. `message` keeps the technical detail for logs;
+ * the UI shows a translated explanation based on the code.
+ */
+export class GenerationError extends Error {
+  readonly code: GenerationErrorCode;
+  readonly safetyCategories: string[];
+  readonly retryAfterMs: number | null;
+  // Absolute time after which retrying makes sense, so a countdown survives re-renders
+  readonly retryAt: number | null;
+
+  constructor(code: GenerationErrorCode, message: string, details: GenerationErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = 'GenerationError';
+    this.code = code;
+    this.safetyCategories = details.safetyCategories ?? [];
+    this.retryAfterMs = details.retryAfterMs ?? null;
+    this.retryAt = this.retryAfterMs !== null ? Date.now() + this.retryAfterMs : null;
+  }
+}
+
+export const isGenerationError = (error: unknown): error is GenerationError => error instanceof GenerationError;
+
+// Finish and block reasons that mean the content was refused rather than simply not produced
+const SAFETY_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+export const isSafetyReason = (reason: string | undefined): boolean => !!reason && SAFETY_REASONS.includes(reason);
+
+export const formatHarmCategory = (category: string): string => category.replace(/^HARM_CATEGORY_/, '');
+
+/** Reads a retry hint such as `"retryDelay": "37s"` or "Please retry in 12.5s" from an API error message. */
+export const parseRetryAfterMs = (message: string): number | null => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry (?:in|after) (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : null;
+};
+
+const statusOf = (error: unknown): number | null => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status;
+  const match = error instanceof Error ? error.message.match(/\bstatus:? (\d{3})\b/i) : null;
+  return match ? Number(match[1]) : null;
+};
+
+const CLASSIFIERS: { code: GenerationErrorCode; statuses: number[]; pattern: RegExp }[] = [
+  { code: 'auth', statuses: [401, 403], pattern: /api[ _]key|unauthenticated|permission_denied|permission denied/i },
+  { code: 'quota', statuses: [429], pattern: /resource_exhausted|quota|rate limit|too many requests/i },
+  { code: 'invalidInput', statuses: [400, 413], pattern: /invalid_argument|invalid argument|unsupported mime|payload too large/i },
+  { code: 'network', statuses: [408, 500, 502, 503, 504], pattern: /rpc failed due to xhr error|failed to fetch|network ?error|fetch failed|timed? ?out|unavailable|overloaded|internal error/i },
+];
+
+/**
+ * Maps any provider failure onto a GenerationError. Cancellations and errors that are
+ * already classified are returned unchanged.
+ */
+export const toGenerationError = (error: unknown): Error => {
+  if (isGenerationError(error) || isCancellation(error)) return error as Error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = statusOf(error);
+
+  // An HTTP status is more reliable than the wording of the message
+  const match = CLASSIFIERS.find(c => status !== null && c.statuses.includes(status))
+    ?? CLASSIFIERS.find(c => c.pattern.test(message));
+  const code = match?.code ?? 'unknown';
+  return new GenerationError(code, message, {
+    cause: error,
+    retryAfterMs: code === 'quota' ? parseRetryAfterMs(message) : null,
+  });
+};
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest';
+import { backoffDelay, isTransientError, sleep, withRetry } from './generationRequest';
+import { GenerationCancelledError, GenerationError, isCancellation } from './generationErrors';
+
+const fast = { baseDelayMs: 1, maxDelayMs: 2 };
+
+describe('isTransientError', () => {
+  it.each([
+    'Rpc failed due to xhr error',
+    'TypeError: Failed to fetch',
+    '503 Service Unavailable',
+    'got status: 429 RESOURCE_EXHAUSTED',
+    'The model is overloaded. Please try again later.',
+  ])('retries "%s"', message => {
+    expect(isTransientError(new Error(message))).toBe(true);
+  });
+
+  it.each([
+    'The request was blocked for safety reasons (SEXUALLY_EXPLICIT).',
+    'API key not valid. Please pass a valid API key.',
+    'No image was generated by the model, although a response was received.',
+  ])('does not retry "%s"', message => {
+    expect(isTransientError(new Error(message))).toBe(false);
+  });
+
+  it('never retries a cancellation', () => {
+    expect(isTransientError(new GenerationCancelledError())).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles the ceiling with each attempt up to the cap', () => {
+    const max = () => 1;
+    expect([1, 2, 3, 4, 5].map(attempt => backoffDelay(attempt, 1000, 8000, max))).toEqual([1000, 2000, 4000, 8000, 8000]);
+  });
+
+  it('picks a random delay below the ceiling', () => {
+    expect(backoffDelay(3, 1000, 8000, () => 0.5)).toBe(2000);
+  });
+});
+
+describe('withRetry', () => {
+  it('returns the first successful result', async () => {
+    const task = vi.fn().mockResolvedValue('ok');
+    await expect(withRetry(task, fast)).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries transient errors until the task succeeds', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(new Error('Rpc failed due to xhr error'))
+      .mockRejectedValueOnce(new Error('503 Service Unavailable'))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+    await expect(withRetry(task, { ...fast, onRetry })).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(call => call[0])).toEqual([1, 2]);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const task = vi.fn().mockRejectedValue(new Error('Rpc failed due to xhr error'));
+    await expect(withRetry(task, { ...fast, maxAttempts: 2 })).rejects.toThrow('xhr error');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry permanent errors', async () => {
+    const task = vi.fn().mockRejectedValue(new Error('API key not valid'));
+    await expect(withRetry(task, fast)).rejects.toThrow('API key not valid');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry a classified safety block', async () => {
+    const task = vi.fn().mockRejectedValue(new GenerationError('safetyBlocked', 'blocked'));
+    await expect(withRetry(task, fast)).rejects.toBeInstanceOf(GenerationError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits at least as long as the API asks before retrying', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(new GenerationError('quota', 'slow down', { retryAfterMs: 5 }))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+    await expect(withRetry(task, { baseDelayMs: 1, maxDelayMs: 10, onRetry })).resolves.toBe('ok');
+    expect(onRetry.mock.calls[0][1]).toBeGreaterThanOrEqual(5);
+  });
+
+  it('gives up at once when the API asks for a longer wait than maxDelayMs', async () => {
+    const task = vi.fn().mockRejectedValue(new GenerationError('quota', 'slow down', { retryAfterMs: 60_000 }));
+    await expect(withRetry(task, fast)).rejects.toThrow('slow down');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const task = vi.fn().mockResolvedValue('ok');
+    await expect(withRetry(task, { signal: controller.signal })).rejects.toBeInstanceOf(GenerationCancelledError);
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('reports an abort during the request as a cancellation', async () => {
+    const controller = new AbortController();
+    const task = vi.fn(async () => {
+      controller.abort();
+      throw new Error('Rpc failed due to xhr error');
+    });
+    const error = await withRetry(task, { ...fast, signal: controller.signal }).catch(e => e);
+    expect(isCancellation(error)).toBe(true);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the next attempt when cancelled', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(new Error('Rpc failed due to xhr error'));
+    const pending = withRetry(task, {
+      signal: controller.signal,
+      baseDelayMs: 60_000,
+      maxDelayMs: 60_000,
+      onRetry: () => controller.abort(),
+    });
+    await expect(pending).rejects.toBeInstanceOf(GenerationCancelledError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects immediately for an aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(sleep(10, controller.signal)).rejects.toBeInstanceOf(GenerationCancelledError);
+  });
+});
@@ -0,0 +1,92 @@
+import { GenerationCancelledError, isCancellation, isGenerationError } from './generationErrors';
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  // Total attempts including the first one
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
+// Failures that are worth repeating as is; anything else (safety blocks, bad input, auth) fails immediately.
+const TRANSIENT_ERROR_PATTERNS = [
+  /rpc failed due to xhr error/i,
+  /failed to fetch/i,
+  /network ?error/i,
+  /fetch failed/i,
+  /timed? ?out/i,
+  /\b(429|500|502|503|504)\b/,
+  /resource_exhausted/i,
+  /unavailable/i,
+  /overloaded/i,
+  /internal error/i,
+];
+
+export const isTransientError = (error: unknown): boolean => {
+  if (isCancellation(error)) return false;
+  if (isGenerationError(error)) return error.code === 'network' || error.code === 'quota';
+  const message = error instanceof Error ? error.message : String(error);
+  return TRANSIENT_ERROR_PATTERNS.some(pattern => pattern.test(message));
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new GenerationCancelledError();
+};
+
+/** Waits for `ms`, rejecting early with a GenerationCancelledError if the signal fires. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GenerationCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/** Exponential backoff with "full jitter": a random delay up to base * 2^(attempt - 1), capped at maxDelayMs. */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, random: () => number = Math.random): number =>
+  Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)));
+
+/**
+ * Runs `task` until it succeeds, a non-transient error occurs or the attempts run out.
+ * Cancellation is checked before every attempt and during the backoff wait.
+ */
+export const withRetry = async <T,>(task: (signal?: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { signal, onRetry } = options;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_RETRY_OPTIONS.baseDelayMs;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await task(signal);
+    } catch (error) {
+      // An aborted request can surface as any kind of error from the underlying client
+      throwIfAborted(signal);
+      if (attempt >= maxAttempts || !isTransientError(error)) throw error;
+      // Honour the API's retry hint, but give up and show it when it is longer than we are willing to wait
+      const retryAfterMs = isGenerationError(error) ? error.retryAfterMs : null;
+      if (retryAfterMs !== null && retryAfterMs > maxDelayMs) throw error;
+      const delayMs = Math.max(backoffDelay(attempt, baseDelayMs, maxDelayMs), retryAfterMs ?? 0);
+      onRetry?.(attempt, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import type { GenerateTabSettings, HistoryItem } from '../types';
+import {
+  EMPTY_HISTORY_FILTER,
+  collectHistoryTags,
+  collectSettingValues,
+  countActiveFilters,
+  filterHistory,
+  historyItemTab,
+  normalizeTags,
+} from './historyFilter';
+
+const generateSettings = (overrides: Partial<GenerateTabSettings> = {}): GenerateTabSettings => ({
+  tab: 'generate',
+  sceneDescription: '',
+  artisticStyle: 'photorealistic',
+  lightingStyle: 'soft',
+  cameraPerspective: 'wide shot',
+  aspectRatio: '16:9',
+  characters: [],
+  objects: [],
+  locationImageRef: null,
+  styleImageRef: null,
+  ...overrides,
+});
+
+const item = (id: string, overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+  id,
+  thumbnail: { base64: id, mimeType: 'image/png' },
+  prompt: '',
+  createdAt: '2025-03-10T12:00:00.000Z',
+  byteSize: 1,
+  ...overrides,
+});
+
+const castle = item('gen-1', {
+  prompt: 'Generate a cinematic image of a castle at dusk.',
+  settings: generateSettings({ sceneDescription: 'a castle at dusk', artisticStyle: 'watercolor painting' }),
+  tags: ['Keep'],
+  favorite: true,
+});
+const harbour = item('gen-2', {
+  prompt: 'Generate a cinematic image of a harbour.',
+  createdAt: '2025-03-12T12:00:00.000Z',
+  settings: generateSettings({ aspectRatio: '2.39:1' }),
+});
+const nightEdit = item('edit-3', {
+  prompt: 'Apply this edit to the base image: make it night.',
+  createdAt: '2025-03-14T12:00:00.000Z',
+  commentary: 'Added a full moon.',
+});
+const history = [castle, harbour, nightEdit];
+
+const ids = (items: HistoryItem[]) => items.map(i => i.id);
+
+describe('filterHistory', () => {
+  it('returns everything for the empty filter', () => {
+    expect(filterHistory(history, EMPTY_HISTORY_FILTER)).toEqual(history);
+  });
+
+  it('needs every search word, across prompt, model notes and tags', () => {
+    expect(ids(filterHistory(history, { ...EMPTY_HISTORY_FILTER, query: 'CASTLE dusk' }))).toEqual(['gen-1']);
+    expect(ids(filterHistory(history, { ...EMPTY_HISTORY_FILTER, query: 'moon' }))).toEqual(['edit-3']);
+    expect(ids(filterHistory(history, { ...EMPTY_HISTORY_FILTER, query: 'keep' }))).toEqual(['gen-1']);
+    expect(filterHistory(history, { ...EMPTY_HISTORY_FILTER, query: 'castle moon' })).toEqual([]);
+  });
+
+  it('filters by an inclusive date range', () => {
+    expect(ids(filterHistory(history, { ...EMPTY_HISTORY_FILTER, from: '2025-03-12', to: '2025-03-12' }))).toEqual(['gen-2']);
+    expect(ids(filterHistory(history, { ...EMPTY_HISTORY_FILTER, from: '2025-03-11' }))).toEqual(['gen-2', 'edit-3']);
+  });
+
+  it('filters by tab, style, aspect ratio, tag and favorites', () => {
+    expect(ids(filterHistory(history, { ...EMPTY_HISTORY_FILTER, tab: 'edit' }))).toEqual(['edit-3']);
+    expect(ids(filterHistory(history, { ...EMPTY_HISTORY_FILTER, style: 'watercolor painting' }))).toEqual(['gen-1']);
+    expect(ids(filterHistory(history, { ...EMPTY_HISTORY_FILTER, aspectRatio: '2.39:1' }))).toEqual(['gen-2']);
+    expect(ids(filterHistory(history, { ...EMPTY_HISTORY_FILTER, tag: 'keep' }))).toEqual(['gen-1']);
+    expect(ids(filterHistory(history, { ...EMPTY_HISTORY_FILTER, favoritesOnly: true }))).toEqual(['gen-1']);
+  });
+});
+
+describe('history filter helpers', () => {
+  it('tells the tab of entries without settings from their id', () => {
+    expect(historyItemTab(nightEdit)).toBe('edit');
+    expect(historyItemTab(item('gen-9'))).toBe('gen');
+  });
+
+  it('normalizes tag input', () => {
+    expect(normalizeTags(' hero, Night ,,HERO ')).toEqual(['hero', 'Night']);
+  });
+
+  it('collects the values offered as filter options', () => {
+    expect(collectHistoryTags([castle, item('x', { tags: ['b', 'keep'] })])).toEqual(['b', 'Keep']);
+    expect(collectSettingValues(history, 'aspectRatio')).toEqual(['16:9', '2.39:1']);
+  });
+
+  it('counts the active filters, not the search', () => {
+    expect(countActiveFilters({ ...EMPTY_HISTORY_FILTER, query: 'x', tab: 'gen', favoritesOnly: true })).toBe(2);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Search and filters for the history browser. Everything here works on the HistoryItems already
+ * held in memory, so filtering never touches IndexedDB.
+ */
+import type { HistoryItem } from '../types';
+
+export type HistoryTabFilter = 'all' | 'gen' | 'edit';
+
+export interface HistoryFilter {
+  query: string;
+  from: string; // local date as yyyy-mm-dd, '' for no lower bound
+  to: string; // inclusive, '' for no upper bound
+  tab: HistoryTabFilter;
+  style: string; // '' for any
+  aspectRatio: string; // '' for any
+  tag: string; // '' for any
+  favoritesOnly: boolean;
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  query: '',
+  from: '',
+  to: '',
+  tab: 'all',
+  style: '',
+  aspectRatio: '',
+  tag: '',
+  favoritesOnly: false,
+};
+
+// Entries migrated from older versions have no settings, but their ids still start with the tab
+export const historyItemTab = (item: HistoryItem): 'gen' | 'edit' =>
+  item.settings ? (item.settings.tab === 'edit' ? 'edit' : 'gen') : item.id.startsWith('edit-') ? 'edit' : 'gen';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** The calendar day an entry was created on in the user's time zone, as yyyy-mm-dd. */
+export const localDateKey = (iso: string): string => {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/** Splits "hero, Night ,hero" into ["hero", "Night"]: trimmed, without blanks or repeats. */
+export const normalizeTags = (input: string): string[] => {
+  const seen = new Set<string>();
+  return input
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+const searchableText = (item: HistoryItem): string => {
+  const settings = item.settings;
+  const userText = settings?.tab === 'edit' ? settings.instruction : settings?.tab === 'generate' ? settings.sceneDescription : '';
+  return [item.prompt, userText, item.commentary ?? '', ...(item.tags ?? [])].join(' ').toLowerCase();
+};
+
+export const countActiveFilters = (filter: HistoryFilter): number =>
+  [filter.from, filter.to, filter.tab !== 'all', filter.style, filter.aspectRatio, filter.tag, filter.favoritesOnly].filter(Boolean).length;
+
+/** Every word of the query must appear somewhere in the prompt, the user's text, the model's notes or the tags. */
+export const matchesHistoryFilter = (item: HistoryItem, filter: HistoryFilter): boolean => {
+  if (filter.favoritesOnly && !item.favorite) return false;
+  if (filter.tab !== 'all' && historyItemTab(item) !== filter.tab) return false;
+
+  const day = localDateKey(item.createdAt);
+  if (filter.from && day < filter.from) return false;
+  if (filter.to && day > filter.to) return false;
+
+  const settings = item.settings?.tab === 'generate' ? item.settings : null;
+  if (filter.style && settings?.artisticStyle !== filter.style) return false;
+  if (filter.aspectRatio && settings?.aspectRatio !== filter.aspectRatio) return false;
+  if (filter.tag && !(item.tags ?? []).some(tag => tag.toLowerCase() === filter.tag.toLowerCase())) return false;
+
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = searchableText(item);
+  return words.every(word => text.includes(word));
+};
+
+export const filterHistory = (items: HistoryItem[], filter: HistoryFilter): HistoryItem[] =>
+  items.filter(item => matchesHistoryFilter(item, filter));
+
+/** All tags in use, alphabetically and without case duplicates. */
+export const collectHistoryTags = (items: HistoryItem[]): string[] =>
+  normalizeTags(items.flatMap(item => item.tags ?? []).join(',')).sort((a, b) => a.localeCompare(b));
+
+/** The distinct styles or aspect ratios used by Generate entries, for the filter options. */
+export const collectSettingValues = (items: HistoryItem[], key: 'artisticStyle' | 'aspectRatio'): string[] => {
+  const values = new Set<string>();
+  items.forEach(item => {
+    if (item.settings?.tab === 'generate' && item.settings[key]) values.add(item.settings[key]);
+  });
+  return [...values].sort((a, b) => a.localeCompare(b));
+};
@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DEFAULT_HISTORY_STORAGE_CONFIG,
+  addHistoryEntry,
+  deleteHistoryEntries,
+  loadHistory,
+  loadHistoryInput,
+  persistGenerateSettings,
+  selectEvictions,
+} from './historyStore';
+import { STORES } from './db';
+import { resizeImage } from '../components/ImageUploader';
+import type { HistoryItem, ImageFile } from '../types';
+
+// In-memory stand-in for IndexedDB: each transaction applies all of its writes or none of them
+const fakeDb = vi.hoisted(() => {
+  const stores = new Map<string, Map<string, unknown>>();
+  return {
+    stores,
+    store: (name: string) => {
+      if (!stores.has(name)) stores.set(name, new Map());
+      return stores.get(name)!;
+    },
+    failingPuts: 0, // transactions that write records and should fail as if the disk were full
+  };
+});
+
+vi.mock('./db', async importOriginal => {
+  const { STORES } = await importOriginal<typeof import('./db')>();
+  return {
+    STORES,
+    getAllRecords: async (name: string) => [...fakeDb.store(name).values()],
+    getRecord: async (name: string, key: string) => fakeDb.store(name).get(key),
+    hasRecord: async (name: string, key: string) => fakeDb.store(name).has(key),
+    putRecord: async (name: string, value: { id: string }) => {
+      fakeDb.store(name).set(value.id, value);
+    },
+    runTransaction: async (_names: string[], _mode: string, work: (tx: IDBTransaction) => void) => {
+      const writes: (() => void)[] = [];
+      let puts = false;
+      work({
+        objectStore: (name: string) => ({
+          put: (value: { id: string }) => {
+            puts = true;
+            writes.push(() => fakeDb.store(name).set(value.id, value));
+          },
+          delete: (key: string) => writes.push(() => fakeDb.store(name).delete(key)),
+          clear: () => writes.push(() => fakeDb.store(name).clear()),
+        }),
+      } as unknown as IDBTransaction);
+      if (puts && fakeDb.failingPuts > 0) {
+        fakeDb.failingPuts--;
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      }
+      writes.forEach(write => write());
+    },
+  };
+});
+
+// Thumbnails need a canvas; the image itself is good enough here
+vi.mock('../components/ImageUploader', async importOriginal => ({
+  ...await importOriginal<typeof import('../components/ImageUploader')>(),
+  resizeImage: vi.fn(async (imageUrl: string) => imageUrl),
+}));
+
+const localStore = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => localStore.get(key) ?? null,
+  setItem: (key: string, value: string) => localStore.set(key, value),
+  removeItem: (key: string) => localStore.delete(key),
+});
+vi.stubGlobal('navigator', {});
+
+const image = (content: string): ImageFile => ({ mimeType: 'image/png', base64: btoa(content) });
+const dataUrl = (content: string) => `data:image/png;base64,${btoa(content)}`;
+
+const entry = (id: string, minutesAgo: number, extra: Partial<HistoryItem> = {}): HistoryItem => ({
+  id,
+  thumbnail: image(id),
+  prompt: id,
+  createdAt: new Date(Date.UTC(2026, 0, 1) - minutesAgo * 60_000).toISOString(),
+  byteSize: 100,
+  ...extra,
+});
+
+const seed = (items: HistoryItem[]) => items.forEach(item => {
+  fakeDb.store(STORES.history).set(item.id, item);
+  fakeDb.store(STORES.historyOriginals).set(item.id, { id: item.id, image: item.thumbnail });
+});
+
+const ids = (items: HistoryItem[]) => items.map(item => item.id);
+
+const generateInput = (shared: ImageFile) => ({
+  sceneDescription: 'A duel at dawn',
+  artisticStyle: 'cinematic',
+  lightingStyle: 'golden hour',
+  cameraPerspective: 'wide shot',
+  aspectRatio: '16:9',
+  characters: [{ id: 1, name: 'Hero', image: shared }],
+  objects: [],
+  locationImage: shared,
+  styleImage: null,
+  promptOverride: null,
+});
+
+beforeEach(() => {
+  fakeDb.stores.clear();
+  fakeDb.failingPuts = 0;
+  localStore.clear();
+});
+
+describe('selectEvictions', () => {
+  const config = { ...DEFAULT_HISTORY_STORAGE_CONFIG, maxItems: 2, maxBytes: 1000 };
+
+  it('drops the oldest entries beyond the count and size limits', () => {
+    const items = [entry('b', 1), entry('d', 3), entry('a', 0), entry('c', 2)];
+    expect(ids(selectEvictions(items, config))).toEqual(['d', 'c']);
+    expect(ids(selectEvictions(items, { ...config, maxItems: 10, maxBytes: 250 }))).toEqual(['d', 'c']);
+  });
+
+  it('always keeps the newest entry', () => {
+    const huge = [entry('a', 0, { byteSize: 5000 })];
+    expect(selectEvictions(huge, config)).toEqual([]);
+    expect(selectEvictions(huge, config, { forceEvictCount: 5, nearQuota: true })).toEqual([]);
+    expect(ids(selectEvictions([entry('a', 0, { favorite: false }), entry('b', 1, { favorite: true })], { ...config, maxItems: 1 })))
+      .toEqual(['b']);
+  });
+
+  it('evicts favorites last', () => {
+    const items = [entry('a', 0), entry('b', 1), entry('c', 2, { favorite: true }), entry('d', 3)];
+    expect(ids(selectEvictions(items, config))).toEqual(['d', 'b']);
+  });
+
+  it('drops a share of the rest near the quota, or at least the forced count', () => {
+    const items = Array.from({ length: 20 }, (_, i) => entry(`item-${i}`, i));
+    const roomy = { ...config, maxItems: 100, maxBytes: Infinity };
+    expect(ids(selectEvictions(items, roomy, { nearQuota: true }))).toEqual(['item-19', 'item-18']);
+    expect(selectEvictions(items, roomy, { forceEvictCount: 5 })).toHaveLength(5);
+    expect(selectEvictions(items, roomy, { forceEvictCount: 5, nearQuota: true })).toHaveLength(5);
+    expect(selectEvictions(items, roomy)).toEqual([]);
+  });
+});
+
+describe('addHistoryEntry', () => {
+  const existing = Array.from({ length: 10 }, (_, i) => entry(`old-${i}`, i));
+
+  it('makes room and retries once when the quota is exceeded', async () => {
+    seed(existing);
+    fakeDb.failingPuts = 1;
+    const { item, evictedIds } = await addHistoryEntry(dataUrl('new'), 'A duel', 'gen');
+    expect(evictedIds).toEqual(['old-9', 'old-8', 'old-7', 'old-6', 'old-5']);
+    expect([...fakeDb.store(STORES.history).keys()].sort()).toEqual([item.id, 'old-0', 'old-1', 'old-2', 'old-3', 'old-4'].sort());
+  });
+
+  it('gives up when the retry fails as well', async () => {
+    seed(existing);
+    fakeDb.failingPuts = 2;
+    await expect(addHistoryEntry(dataUrl('new'), 'A duel', 'gen')).rejects.toMatchObject({ name: 'QuotaExceededError' });
+    // Only one round of eviction
+    expect(fakeDb.store(STORES.history).size).toBe(5);
+  });
+});
+
+describe('history inputs', () => {
+  it('keeps a shared input image until no entry references it', async () => {
+    const shared = image('hero');
+    const first = await addHistoryEntry(dataUrl('one'), 'A duel', 'gen', await persistGenerateSettings(generateInput(shared)));
+    const second = await addHistoryEntry(dataUrl('two'), 'A duel', 'gen', await persistGenerateSettings(generateInput(shared)));
+    expect(fakeDb.store(STORES.historyInputs).size).toBe(1);
+    const settings = first.item.settings;
+    const ref = settings?.tab === 'generate' ? settings.locationImageRef : null;
+
+    await deleteHistoryEntries([first.item.id]);
+    expect(await loadHistoryInput(ref)).toEqual(shared);
+    await deleteHistoryEntries([second.item.id]);
+    expect(await loadHistoryInput(ref)).toBeNull();
+  });
+
+  it('keeps fresh inputs through a concurrent sweep until their entry is stored', async () => {
+    const fresh = image('fresh');
+    const settings = await persistGenerateSettings(generateInput(fresh));
+    const ref = settings.locationImageRef;
+    // Another insert evicts an entry while the outputs are still being added
+    seed([entry('old', 5)]);
+    await deleteHistoryEntries(['old']);
+    expect(await loadHistoryInput(ref)).toEqual(fresh);
+
+    const outputs = [
+      await addHistoryEntry(dataUrl('one'), 'A duel', 'gen', settings),
+      await addHistoryEntry(dataUrl('two'), 'A duel', 'gen', settings),
+    ];
+    await deleteHistoryEntries(outputs.map(output => output.item.id));
+    expect(await loadHistoryInput(ref)).toBeNull();
+  });
+
+  it('lets the sweep remove inputs whose entry could not be created', async () => {
+    const orphan = image('orphan');
+    const settings = await persistGenerateSettings(generateInput(orphan));
+    vi.mocked(resizeImage).mockRejectedValueOnce(new Error('Could not get canvas context'));
+    await expect(addHistoryEntry(dataUrl('broken'), 'A duel', 'gen', settings)).rejects.toThrow('canvas');
+
+    seed([entry('old', 5)]);
+    await deleteHistoryEntries(['old']);
+    expect(await loadHistoryInput(settings.locationImageRef)).toBeNull();
+  });
+});
+
+describe('legacy history migration', () => {
+  const LEGACY_KEY = 'generationHistory';
+
+  it('moves valid entries into IndexedDB once and removes the old key', async () => {
+    localStore.set(LEGACY_KEY, JSON.stringify([
+      { id: 'legacy-1', image: image('legacy'), prompt: 'An old prompt', createdAt: '2025-05-01T10:00:00.000Z' },
+      { id: 'legacy-2', prompt: 'Lost its image' },
+    ]));
+    const history = await loadHistory();
+    expect(history.map(item => [item.id, item.prompt, item.createdAt])).toEqual([['legacy-1', 'An old prompt', '2025-05-01T10:00:00.000Z']]);
+    expect(fakeDb.store(STORES.historyOriginals).has('legacy-1')).toBe(true);
+    expect(localStore.has(LEGACY_KEY)).toBe(false);
+
+    // Deleted entries do not come back on the next load
+    await deleteHistoryEntries(['legacy-1']);
+    expect(await loadHistory()).toEqual([]);
+  });
+
+  it('keeps the old key when an entry fails to migrate, and finishes on the next load', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStore.set(LEGACY_KEY, JSON.stringify([
+      { id: 'legacy-1', image: image('first'), prompt: 'First' },
+      { id: 'legacy-2', image: image('second'), prompt: 'Second' },
+    ]));
+    fakeDb.failingPuts = 1;
+    expect((await loadHistory()).map(item => item.id)).toEqual(['legacy-2']);
+    expect(localStore.has(LEGACY_KEY)).toBe(true);
+    expect(consoleError).toHaveBeenCalled();
+
+    expect((await loadHistory()).map(item => item.id).sort()).toEqual(['legacy-1', 'legacy-2']);
+    expect(localStore.has(LEGACY_KEY)).toBe(false);
+    consoleError.mockRestore();
+  });
+
+  it('discards history that is not valid JSON', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStore.set(LEGACY_KEY, '[{"id": "legacy-1",');
+    expect(await loadHistory()).toEqual([]);
+    expect(localStore.has(LEGACY_KEY)).toBe(false);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
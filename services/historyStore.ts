@@ -0,0 +1,413 @@
+import type {
+  Character,
+  EditTabSettings,
+  ElementSnapshot,
+  GenerateTabSettings,
+  GenerationSettings,
+  HistoryItem,
+  HistoryStorageConfig,
+  ImageFile,
+} from '../types';
+import { parseDataUrl, resizeImage } from '../components/ImageUploader';
+import { STORES, getAllRecords, getRecord, hasRecord, putRecord, runTransaction } from './db';
+
+interface HistoryOriginalRecord {
+  id: string;
+  image: ImageFile;
+}
+
+// Input images share this shape; `id` is the content hash
+type HistoryInputRecord = HistoryOriginalRecord;
+
+export interface GenerateSettingsInput {
+  sceneDescription: string;
+  artisticStyle: string;
+  lightingStyle: string;
+  cameraPerspective: string;
+  aspectRatio: string;
+  characters: Character[];
+  objects: Character[];
+  locationImage: ImageFile | null;
+  styleImage: ImageFile | null;
+  promptOverride: string | null;
+}
+
+export interface EditSettingsInput {
+  instruction: string;
+  baseImage: ImageFile | null;
+  maskImage: ImageFile | null;
+  characters: Character[];
+  objects: Character[];
+}
+
+const LEGACY_HISTORY_KEY = 'generationHistory';
+const CONFIG_KEY = 'historyStorageConfig';
+const THUMBNAIL_SIZE = 384;
+// Share of entries dropped when the browser reports the quota is (nearly) exhausted
+const QUOTA_EVICTION_FRACTION = 0.1;
+
+export const DEFAULT_HISTORY_STORAGE_CONFIG: HistoryStorageConfig = {
+  maxItems: 250,
+  maxBytes: 500 * 1024 * 1024,
+  quotaUsageRatio: 0.8,
+};
+
+export const getHistoryStorageConfig = (): HistoryStorageConfig => {
+  try {
+    const stored = localStorage.getItem(CONFIG_KEY);
+    if (stored) {
+      return { ...DEFAULT_HISTORY_STORAGE_CONFIG, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.error("Failed to read history storage settings:", error);
+  }
+  return DEFAULT_HISTORY_STORAGE_CONFIG;
+};
+
+export const setHistoryStorageConfig = (config: HistoryStorageConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+const estimateBytes = (image: ImageFile): number => Math.round(image.base64.length * 0.75);
+
+const toDataUrl = (image: ImageFile): string => `data:${image.mimeType};base64,${image.base64}`;
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const isStorageNearQuota = async (ratio: number): Promise<boolean> => {
+  if (!navigator.storage?.estimate) return false;
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return !!usage && !!quota && usage / quota > ratio;
+  } catch {
+    return false;
+  }
+};
+
+const sortNewestFirst = (items: HistoryItem[]): HistoryItem[] =>
+  items.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const putEntry = (item: HistoryItem, original: HistoryOriginalRecord): Promise<void> =>
+  runTransaction([STORES.history, STORES.historyOriginals], 'readwrite', tx => {
+    tx.objectStore(STORES.history).put(item);
+    tx.objectStore(STORES.historyOriginals).put(original);
+  });
+
+const settingsImageRefs = (settings: GenerationSettings | undefined): string[] => {
+  if (!settings) return [];
+  const elementRefs = [...settings.characters, ...settings.objects].flatMap(e => [
+    ...(e.imageRef ? [e.imageRef] : []),
+    ...(e.references ?? []).map(ref => ref.imageRef),
+  ]);
+  const sceneRefs = settings.tab === 'generate'
+    ? [settings.locationImageRef, settings.styleImageRef]
+    : [settings.baseImageRef, settings.maskImageRef];
+  return [...elementRefs, ...sceneRefs.filter((ref): ref is string => ref !== null)];
+};
+
+// Inputs are written before the entry that references them, so until it is stored they are held
+// here, counted once per settings reference
+const pendingInputs = new Map<string, number>();
+const releasedSettings = new WeakSet<GenerationSettings>();
+
+const holdInput = (id: string) => {
+  pendingInputs.set(id, (pendingInputs.get(id) ?? 0) + 1);
+};
+
+// Several entries may share one settings object; the first one stored takes over its inputs
+const releaseInputs = (settings: GenerationSettings | undefined) => {
+  if (!settings || releasedSettings.has(settings)) return;
+  releasedSettings.add(settings);
+  settingsImageRefs(settings).forEach(id => {
+    const count = (pendingInputs.get(id) ?? 0) - 1;
+    if (count > 0) pendingInputs.set(id, count);
+    else pendingInputs.delete(id);
+  });
+};
+
+// Input images are shared between entries, so they are only removed once nothing references them
+const removeUnreferencedInputs = async () => {
+  const items = await getAllRecords<HistoryItem>(STORES.history);
+  const inUse = new Set(items.flatMap(item => settingsImageRefs(item.settings)));
+  const inputs = await getAllRecords<HistoryInputRecord>(STORES.historyInputs);
+  const unused = inputs.filter(input => !inUse.has(input.id) && !pendingInputs.has(input.id));
+  if (unused.length === 0) return;
+  await runTransaction([STORES.historyInputs], 'readwrite', tx => {
+    unused.forEach(input => tx.objectStore(STORES.historyInputs).delete(input.id));
+  });
+};
+
+export const deleteHistoryEntries = async (ids: string[]): Promise<void> => {
+  await runTransaction([STORES.history, STORES.historyOriginals], 'readwrite', tx => {
+    ids.forEach(id => {
+      tx.objectStore(STORES.history).delete(id);
+      tx.objectStore(STORES.historyOriginals).delete(id);
+    });
+  });
+  await removeUnreferencedInputs();
+};
+
+export const clearHistory = (): Promise<void> =>
+  runTransaction([STORES.history, STORES.historyOriginals, STORES.historyInputs], 'readwrite', tx => {
+    tx.objectStore(STORES.history).clear();
+    tx.objectStore(STORES.historyOriginals).clear();
+    tx.objectStore(STORES.historyInputs).clear();
+  });
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashImage = async (image: ImageFile): Promise<string> => {
+  const content = `${image.mimeType};${image.base64}`;
+  if (globalThis.crypto?.subtle) {
+    return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content)));
+  }
+  // crypto.subtle is missing outside secure contexts; fall back to FNV-1a plus the length
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv-${(hash >>> 0).toString(16)}-${content.length}`;
+};
+
+const saveHistoryInput = async (image: ImageFile | null): Promise<string | null> => {
+  if (!image) return null;
+  const id = await hashImage(image);
+  holdInput(id);
+  if (!(await hasRecord(STORES.historyInputs, id))) {
+    await putRecord<HistoryInputRecord>(STORES.historyInputs, { id, image });
+  }
+  return id;
+};
+
+export const loadHistoryInput = async (ref: string | null): Promise<ImageFile | null> => {
+  if (!ref) return null;
+  const record = await getRecord<HistoryInputRecord>(STORES.historyInputs, ref);
+  return record?.image ?? null;
+};
+
+const snapshotElements = (elements: Character[]): Promise<ElementSnapshot[]> =>
+  Promise.all(elements.map(async element => ({
+    name: element.name,
+    imageRef: await saveHistoryInput(element.image),
+    libraryId: element.libraryId,
+    description: element.description,
+    references: element.references && await Promise.all(element.references.map(async ref => ({
+      id: ref.id,
+      view: ref.view,
+      imageRef: (await saveHistoryInput(ref.image))!,
+    }))),
+  })));
+
+/** Rebuilds element list entries from a snapshot; references whose image is gone are dropped. */
+export const restoreElements = async (snapshots: ElementSnapshot[]): Promise<Character[]> => {
+  const baseId = Date.now();
+  return Promise.all(snapshots.map(async (snapshot, index) => {
+    const references = snapshot.references && (await Promise.all(snapshot.references.map(async ref => {
+      const image = await loadHistoryInput(ref.imageRef);
+      return image ? { id: ref.id, view: ref.view, image } : null;
+    }))).filter(ref => ref !== null);
+    return {
+      id: baseId + index,
+      name: snapshot.name,
+      image: await loadHistoryInput(snapshot.imageRef),
+      libraryId: snapshot.libraryId,
+      description: snapshot.description,
+      references,
+    };
+  }));
+};
+
+/** Stores the input images behind a snapshot; they stay held until `addHistoryEntry` stores it. */
+export const persistGenerateSettings = async (input: GenerateSettingsInput): Promise<GenerateTabSettings> => ({
+  tab: 'generate',
+  sceneDescription: input.sceneDescription,
+  artisticStyle: input.artisticStyle,
+  lightingStyle: input.lightingStyle,
+  cameraPerspective: input.cameraPerspective,
+  aspectRatio: input.aspectRatio,
+  characters: await snapshotElements(input.characters),
+  objects: await snapshotElements(input.objects),
+  locationImageRef: await saveHistoryInput(input.locationImage),
+  styleImageRef: await saveHistoryInput(input.styleImage),
+  promptOverride: input.promptOverride,
+});
+
+export const persistEditSettings = async (input: EditSettingsInput): Promise<EditTabSettings> => ({
+  tab: 'edit',
+  instruction: input.instruction,
+  baseImageRef: await saveHistoryInput(input.baseImage),
+  maskImageRef: await saveHistoryInput(input.maskImage),
+  characters: await snapshotElements(input.characters),
+  objects: await snapshotElements(input.objects),
+});
+
+/**
+ * Picks the entries to drop so the count and size limits hold, plus a share of the rest when
+ * storage is short. The newest entry is always kept and favorites are the last to go.
+ */
+export const selectEvictions = (
+  history: HistoryItem[],
+  config: HistoryStorageConfig,
+  { forceEvictCount = 0, nearQuota = false }: { forceEvictCount?: number; nearQuota?: boolean } = {}
+): HistoryItem[] => {
+  // The newest entry stays first; favorites come next, so they are the last to be evicted
+  const [newest, ...rest] = sortNewestFirst([...history]);
+  const items = newest ? [newest, ...rest.sort((a, b) => Number(!!b.favorite) - Number(!!a.favorite))] : [];
+  let totalBytes = items.reduce((sum, item) => sum + item.byteSize, 0);
+  const evicted: HistoryItem[] = [];
+
+  const evictOldest = () => {
+    const oldest = items.pop();
+    if (oldest) {
+      evicted.push(oldest);
+      totalBytes -= oldest.byteSize;
+    }
+  };
+
+  while (items.length > config.maxItems || (totalBytes > config.maxBytes && items.length > 1)) {
+    evictOldest();
+  }
+
+  const quotaEvictions = nearQuota
+    ? Math.max(forceEvictCount, Math.ceil(items.length * QUOTA_EVICTION_FRACTION))
+    : forceEvictCount;
+  for (let i = 0; i < quotaEvictions && items.length > 1; i++) {
+    evictOldest();
+  }
+  return evicted;
+};
+
+/**
+ * Drops the oldest entries until the configured count and size limits hold,
+ * then again if the browser reports the origin is close to its storage quota.
+ * Returns the ids that were removed.
+ */
+export const enforceHistoryLimits = async (
+  config: HistoryStorageConfig = getHistoryStorageConfig(),
+  forceEvictCount = 0
+): Promise<string[]> => {
+  const evicted = selectEvictions(await getAllRecords<HistoryItem>(STORES.history), config, {
+    forceEvictCount,
+    nearQuota: await isStorageNearQuota(config.quotaUsageRatio),
+  });
+  if (evicted.length > 0) {
+    await deleteHistoryEntries(evicted.map(item => item.id));
+  }
+  return evicted.map(item => item.id);
+};
+
+const createEntry = async (image: ImageFile, prompt: string, id: string, createdAt: string) => {
+  const thumbnail = parseDataUrl(await resizeImage(toDataUrl(image), THUMBNAIL_SIZE));
+  const item: HistoryItem = {
+    id,
+    thumbnail,
+    prompt,
+    createdAt,
+    byteSize: estimateBytes(image),
+  };
+  return { item, original: { id, image } };
+};
+
+const putEntryMakingRoom = async (item: HistoryItem, original: HistoryOriginalRecord): Promise<string[]> => {
+  try {
+    await putEntry(item, original);
+    return [];
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    // Make room and retry once
+    const evictedIds = await enforceHistoryLimits(getHistoryStorageConfig(), 5);
+    await putEntry(item, original);
+    return evictedIds;
+  }
+};
+
+/** Stores a result at full resolution plus a thumbnail, evicting old entries when needed. */
+export const addHistoryEntry = async (
+  imageDataUrl: string,
+  prompt: string,
+  type: 'gen' | 'edit',
+  settings?: GenerationSettings,
+  commentary?: string,
+  parentId?: string
+): Promise<{ item: HistoryItem; evictedIds: string[] }> => {
+  const createdAt = new Date().toISOString();
+  let item: HistoryItem;
+  let evictedIds: string[];
+  try {
+    const entry = await createEntry(parseDataUrl(imageDataUrl), prompt, `${type}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, createdAt);
+    item = { ...entry.item, settings, commentary: commentary || undefined, parentId };
+    evictedIds = await putEntryMakingRoom(item, entry.original);
+  } finally {
+    // Stored or failed, the inputs are no longer waiting on this entry
+    releaseInputs(settings);
+  }
+
+  evictedIds = [...evictedIds, ...await enforceHistoryLimits()];
+  return { item, evictedIds };
+};
+
+/** Saves the user's own annotations on an entry. Returns the updated item, or null if it is gone. */
+export const updateHistoryItem = async (
+  id: string,
+  changes: Pick<HistoryItem, 'tags' | 'favorite'>
+): Promise<HistoryItem | null> => {
+  const item = await getRecord<HistoryItem>(STORES.history, id);
+  if (!item) return null;
+  const updated = { ...item, ...changes };
+  await putRecord(STORES.history, updated);
+  return updated;
+};
+
+export const getHistoryOriginal = async (id: string): Promise<ImageFile | null> => {
+  const record = await getRecord<HistoryOriginalRecord>(STORES.historyOriginals, id);
+  return record?.image ?? null;
+};
+
+/**
+ * Moves entries saved by older versions in localStorage into IndexedDB, then removes the old key.
+ * If any entry fails the key stays, so the next load tries again; stored ids are simply overwritten.
+ */
+const migrateLegacyHistory = async () => {
+  const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!stored) return;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch (error) {
+    console.error("Discarding unreadable history from local storage:", error);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return;
+  }
+
+  let failures = 0;
+  if (Array.isArray(parsed)) {
+    for (const legacy of parsed) {
+      if (!legacy?.id || !legacy?.image?.base64) continue;
+      try {
+        // The 512px copy is all that was ever kept, so it becomes the "original"
+        const { item, original } = await createEntry(
+          legacy.image,
+          legacy.prompt ?? '',
+          legacy.id,
+          legacy.createdAt ?? new Date().toISOString()
+        );
+        await putEntry(item, original);
+      } catch (error) {
+        console.error(`Failed to migrate history item ${legacy.id}:`, error);
+        failures++;
+      }
+    }
+  }
+  if (failures === 0) {
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+  }
+};
+
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  await migrateLegacyHistory();
+  return sortNewestFirst(await getAllRecords<HistoryItem>(STORES.history));
+};
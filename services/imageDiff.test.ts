@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { DIFF_THRESHOLD, differenceOverlay } from './imageDiff';
+import type { PixelBuffer } from './backgroundRemoval';
+
+const buffer = (...pixels: number[][]): PixelBuffer => ({
+  data: new Uint8ClampedArray(pixels.flatMap(rgb => [...rgb, 255])),
+  width: pixels.length,
+  height: 1,
+});
+
+describe('differenceOverlay', () => {
+  it('highlights changed pixels and reports the changed share', () => {
+    const before = buffer([0, 0, 0], [100, 100, 100]);
+    const after = buffer([255, 255, 255], [100, 100, 100]);
+    const output = buffer([0, 0, 0], [0, 0, 0]);
+    expect(differenceOverlay(before, after, output)).toBe(0.5);
+    expect(Array.from(output.data.slice(0, 4))).toEqual([255, 0, 255, 255]);
+    // Unchanged pixels become a dimmed grey of the result
+    expect(Array.from(output.data.slice(4, 8))).toEqual([35, 35, 35, 255]);
+  });
+
+  it('ignores differences below the threshold', () => {
+    const before = buffer([100, 100, 100]);
+    const after = buffer([100 + DIFF_THRESHOLD / 3 - 1, 100, 100]);
+    expect(differenceOverlay(before, after, buffer([0, 0, 0]))).toBe(0);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Pixel difference for the comparison viewer. Both buffers must already be the same size; the
+ * viewer scales the "before" image to the "after" one before calling in.
+ */
+import type { PixelBuffer } from './backgroundRemoval';
+
+// Summed RGB difference below which a pixel counts as unchanged, so JPEG noise stays quiet
+export const DIFF_THRESHOLD = 24;
+// Summed difference at which a changed pixel is drawn at full highlight strength
+const FULL_HIGHLIGHT = 192;
+const HIGHLIGHT_RGB: [number, number, number] = [255, 0, 255];
+// Unchanged areas are shown as a dimmed greyscale of the result for orientation
+const BACKDROP_BRIGHTNESS = 0.35;
+
+/**
+ * Draws the difference between `before` and `after` into `output`: changed pixels glow magenta
+ * in proportion to how much they changed. Returns the share of pixels that changed (0-1).
+ */
+export const differenceOverlay = (
+  before: PixelBuffer,
+  after: PixelBuffer,
+  output: PixelBuffer,
+  threshold = DIFF_THRESHOLD
+): number => {
+  const { data: a } = before;
+  const { data: b } = after;
+  const out = output.data;
+  const pixels = after.width * after.height;
+  let changed = 0;
+
+  for (let i = 0; i < pixels * 4; i += 4) {
+    const diff = Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2]);
+    const grey = (0.299 * b[i] + 0.587 * b[i + 1] + 0.114 * b[i + 2]) * BACKDROP_BRIGHTNESS;
+    const strength = diff < threshold ? 0 : Math.min(1, diff / FULL_HIGHLIGHT);
+    if (strength > 0) changed++;
+    out[i] = grey + (HIGHLIGHT_RGB[0] - grey) * strength;
+    out[i + 1] = grey + (HIGHLIGHT_RGB[1] - grey) * strength;
+    out[i + 2] = grey + (HIGHLIGHT_RGB[2] - grey) * strength;
+    out[i + 3] = 255;
+  }
+  return pixels === 0 ? 0 : changed / pixels;
+};
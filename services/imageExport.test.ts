@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { exceedsExportLimits, planExport, resampleSteps, resolveRequestedSize, sharpen } from './imageExport';
+
+const landscape = { width: 1024, height: 576 };
+
+describe('planExport', () => {
+  it('keeps the original or fits the longest side', () => {
+    expect(planExport(landscape, { kind: 'original' })).toMatchObject({ width: 1024, height: 576 });
+    expect(planExport(landscape, { kind: 'longest', pixels: 3840 })).toMatchObject({ width: 3840, height: 2160 });
+    expect(planExport({ width: 576, height: 1024 }, { kind: 'longest', pixels: 2560 })).toMatchObject({ width: 1440, height: 2560 });
+  });
+
+  it('crops to fill exact sizes with a different ratio', () => {
+    const plan = planExport(landscape, { kind: 'exact', width: 1000, height: 1000 });
+    expect(plan).toMatchObject({ width: 1000, height: 1000 });
+    expect(plan.crop).toEqual({ x: 224, y: 0, width: 576, height: 576 });
+  });
+
+  it('fits prints inside the paper, turned to match the image', () => {
+    // 6x4 inches at 300 DPI is 1800x1200; a 16:9 image is limited by the width
+    expect(planExport(landscape, { kind: 'print', paper: '4x6', dpi: 300 })).toMatchObject({ width: 1800, height: 1013 });
+    expect(planExport({ width: 576, height: 1024 }, { kind: 'print', paper: '4x6', dpi: 300 })).toMatchObject({ width: 1013, height: 1800 });
+  });
+
+  it('flags sizes browsers cannot draw', () => {
+    expect(exceedsExportLimits({ width: 7680, height: 4320 })).toBe(false);
+    expect(exceedsExportLimits({ width: 20000, height: 100 })).toBe(true);
+  });
+});
+
+describe('resolveRequestedSize', () => {
+  it('derives an empty side from the source proportions', () => {
+    expect(resolveRequestedSize(landscape, { width: 2048, height: null })).toEqual({ width: 2048, height: 1152 });
+    expect(resolveRequestedSize(landscape, { width: null, height: 288 })).toEqual({ width: 512, height: 288 });
+    expect(resolveRequestedSize(landscape, { width: null, height: null })).toEqual(landscape);
+    expect(resolveRequestedSize(landscape, { width: 500, height: 500 })).toEqual({ width: 500, height: 500 });
+  });
+});
+
+describe('resampleSteps', () => {
+  it('uses one pass for small changes', () => {
+    expect(resampleSteps(landscape, { width: 2048, height: 1152 })).toEqual([{ width: 2048, height: 1152 }]);
+  });
+
+  it('splits large changes into steps of at most 2x', () => {
+    const up = resampleSteps(landscape, { width: 7680, height: 4320 });
+    expect(up).toHaveLength(3);
+    expect(up[up.length - 1]).toEqual({ width: 7680, height: 4320 });
+    const down = resampleSteps({ width: 4096, height: 4096 }, { width: 500, height: 500 });
+    [{ width: 4096, height: 4096 }, ...down].slice(1).forEach((size, i, sizes) => {
+      const previous = i === 0 ? 4096 : sizes[i - 1].width;
+      expect(previous / size.width).toBeLessThanOrEqual(2.0001);
+    });
+  });
+});
+
+describe('sharpen', () => {
+  const buffer = (values: number[]) => ({
+    data: new Uint8ClampedArray(values.flatMap(v => [v, v, v, 128])),
+    width: values.length,
+    height: 1,
+  });
+
+  it('leaves flat areas and alpha alone', () => {
+    expect([...sharpen(buffer([100, 100, 100]), 1)]).toEqual([...buffer([100, 100, 100]).data]);
+  });
+
+  it('increases contrast across edges', () => {
+    const result = sharpen(buffer([50, 50, 200, 200]), 1);
+    expect(result[4]).toBeLessThan(50);
+    expect(result[8]).toBeGreaterThan(200);
+    expect(result[11]).toBe(128);
+  });
+});
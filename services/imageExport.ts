@@ -0,0 +1,156 @@
+/**
+ * Sizing, resampling and sharpening for the export dialog. The canvas work happens in the
+ * component; this module decides what to draw at which size.
+ */
+import type { PixelBuffer } from './backgroundRemoval';
+import { largestCrop } from './imageTransform';
+import type { Rect, Size } from './imageTransform';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { mimeType: string; lossy: boolean }> = {
+  png: { mimeType: 'image/png', lossy: false },
+  jpeg: { mimeType: 'image/jpeg', lossy: true },
+  webp: { mimeType: 'image/webp', lossy: true },
+};
+
+export type ExportSize =
+  | { kind: 'original' }
+  | { kind: 'longest'; pixels: number }
+  | { kind: 'exact'; width: number; height: number } // cropped to fill when the ratio differs
+  | { kind: 'print'; paper: string; dpi: number }; // fitted inside the paper, turned to match the image
+
+export interface PrintSize {
+  id: string;
+  label: string;
+  long: number; // inches
+  short: number;
+}
+
+export const LONGEST_SIDE_PRESETS = [1920, 2560, 3840, 7680];
+export const DPI_PRESETS = [72, 150, 300, 600];
+export const PRINT_SIZES: PrintSize[] = [
+  { id: '4x6', label: '4 × 6 in', long: 6, short: 4 },
+  { id: '5x7', label: '5 × 7 in', long: 7, short: 5 },
+  { id: '8x10', label: '8 × 10 in', long: 10, short: 8 },
+  { id: 'a4', label: 'A4', long: 11.69, short: 8.27 },
+  { id: 'a3', label: 'A3', long: 16.54, short: 11.69 },
+];
+
+export const DEFAULT_QUALITY = 0.92;
+export const DEFAULT_SHARPEN = 0.3;
+
+// Browsers refuse or silently blank canvases beyond these
+export const MAX_EXPORT_SIDE = 16384;
+export const MAX_EXPORT_PIXELS = 120_000_000;
+
+// Each resampling pass changes the size by at most this factor, so bilinear filtering never skips pixels
+const MAX_STEP_FACTOR = 2;
+
+export interface ExportPlan {
+  crop: Rect; // area of the source to use
+  width: number;
+  height: number;
+}
+
+const fitLongest = ({ width, height }: Size, longest: number): Size =>
+  width >= height
+    ? { width: longest, height: Math.max(1, Math.round((longest * height) / width)) }
+    : { width: Math.max(1, Math.round((longest * width) / height)), height: longest };
+
+export const planExport = (source: Size, size: ExportSize): ExportPlan => {
+  const full = { x: 0, y: 0, width: source.width, height: source.height };
+  switch (size.kind) {
+    case 'original':
+      return { crop: full, width: source.width, height: source.height };
+    case 'longest':
+      return { crop: full, ...fitLongest(source, size.pixels) };
+    case 'exact': {
+      const width = Math.max(1, Math.round(size.width));
+      const height = Math.max(1, Math.round(size.height));
+      return { crop: largestCrop(source, width / height), width, height };
+    }
+    case 'print': {
+      const paper = PRINT_SIZES.find(p => p.id === size.paper) ?? PRINT_SIZES[0];
+      const landscape = source.width >= source.height;
+      const box = {
+        width: Math.round((landscape ? paper.long : paper.short) * size.dpi),
+        height: Math.round((landscape ? paper.short : paper.long) * size.dpi),
+      };
+      const scale = Math.min(box.width / source.width, box.height / source.height);
+      return {
+        crop: full,
+        width: Math.max(1, Math.round(source.width * scale)),
+        height: Math.max(1, Math.round(source.height * scale)),
+      };
+    }
+  }
+};
+
+// Exact sizes as typed; a side left empty (null) follows the source's proportions
+export interface RequestedSize {
+  width: number | null;
+  height: number | null;
+}
+
+export const resolveRequestedSize = (source: Size, { width, height }: RequestedSize): Size => {
+  if (width !== null && height !== null) return { width, height };
+  if (width !== null) return { width, height: Math.max(1, Math.round((width * source.height) / source.width)) };
+  if (height !== null) return { width: Math.max(1, Math.round((height * source.width) / source.height)), height };
+  return { width: source.width, height: source.height };
+};
+
+export const exceedsExportLimits = ({ width, height }: Size): boolean =>
+  width > MAX_EXPORT_SIDE || height > MAX_EXPORT_SIDE || width * height > MAX_EXPORT_PIXELS;
+
+/**
+ * The sizes to resample through on the way from `from` to `to`, ending with `to`. Large changes
+ * are split into geometric steps of at most 2x, which keeps downscales from aliasing and
+ * upscales from turning blocky.
+ */
+export const resampleSteps = (from: Size, to: Size): Size[] => {
+  const scaleX = to.width / from.width;
+  const scaleY = to.height / from.height;
+  const steps = Math.max(1, ...[scaleX, scaleY].map(scale => Math.ceil(Math.abs(Math.log(scale)) / Math.log(MAX_STEP_FACTOR) - 1e-9)));
+  return Array.from({ length: steps }, (_, i) => {
+    if (i === steps - 1) return { width: to.width, height: to.height };
+    const progress = (i + 1) / steps;
+    return {
+      width: Math.round(from.width * scaleX ** progress),
+      height: Math.round(from.height * scaleY ** progress),
+    };
+  });
+};
+
+/**
+ * Unsharp mask with a 3x3 blur: each colour channel moves away from its local average by
+ * `amount`. Alpha is left alone so soft edges keep their shape.
+ */
+export const sharpen = ({ data, width, height }: PixelBuffer, amount: number): Uint8ClampedArray => {
+  const output = new Uint8ClampedArray(data);
+  if (amount <= 0) return output;
+  for (let y = 0; y < height; y++) {
+    // Rows and columns beyond the edge repeat the edge pixels
+    const above = Math.max(0, y - 1) * width;
+    const row = y * width;
+    const below = Math.min(height - 1, y + 1) * width;
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - 1);
+      const right = Math.min(width - 1, x + 1);
+      const i = (row + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        // 1-2-1 weights in both directions, summing to 16
+        const blur =
+          data[(above + left) * 4 + c] + 2 * data[(above + x) * 4 + c] + data[(above + right) * 4 + c] +
+          2 * data[(row + left) * 4 + c] + 4 * data[i + c] + 2 * data[(row + right) * 4 + c] +
+          data[(below + left) * 4 + c] + 2 * data[(below + x) * 4 + c] + data[(below + right) * 4 + c];
+        output[i + c] = data[i + c] + amount * (data[i + c] - blur / 16);
+      }
+    }
+  }
+  return output;
+};
+
+/** File name without the extension, which depends on the format the browser actually produced. */
+export const exportFileBaseName = ({ width, height }: Size, now: number = Date.now()): string =>
+  `generated-image-${width}x${height}-${now}`;
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { embedImageDpi, embedImageMetadata, embedMetadataInDataUrl, metadataFromSettings, readImageMetadata } from './imageMetadata';
+import { crc32 } from './zipArchive';
+
+const chunk = (type: string, data: number[]) => {
+  const typeAndData = new Uint8Array([...new TextEncoder().encode(type), ...data]);
+  const out = new Uint8Array(typeAndData.length + 8);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(typeAndData, 4);
+  view.setUint32(out.length - 4, crc32(typeAndData));
+  return [...out];
+};
+
+// Just enough structure for the chunk walker; the pixel data is never decoded
+const png = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  ...chunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]),
+  ...chunk('IDAT', [1, 2, 3]),
+  ...chunk('IEND', []),
+]);
+
+const jfif = [0xff, 0xe0, 0x00, 0x07, 0x4a, 0x46, 0x49, 0x46, 0x00];
+const jpeg = new Uint8Array([0xff, 0xd8, ...jfif, 0xff, 0xda, 0x00, 0x02, 9, 9, 0xff, 0xd9]);
+
+const settings = {
+  tab: 'generate' as const,
+  sceneDescription: 'مبارزة عند الفجر',
+  artisticStyle: 'cinematic',
+  lightingStyle: 'golden hour',
+  cameraPerspective: 'wide shot',
+  aspectRatio: '16:9',
+  characters: [],
+  objects: [],
+  locationImageRef: null,
+  styleImageRef: null,
+};
+const metadata = metadataFromSettings('Two rivals face off at dawn, "cinematic".', settings, '2026-10-19T08:00:00.000Z');
+
+describe('PNG metadata', () => {
+  it('round-trips through iTXt chunks placed after the header', () => {
+    const embedded = embedImageMetadata(png, metadata);
+    expect(readImageMetadata(embedded)).toEqual(metadata);
+    // The image chunks follow untouched
+    expect([...embedded.slice(-chunk('IEND', []).length - chunk('IDAT', [1, 2, 3]).length)])
+      .toEqual([...chunk('IDAT', [1, 2, 3]), ...chunk('IEND', [])]);
+  });
+
+  it('replaces earlier metadata instead of adding another copy', () => {
+    const once = embedImageMetadata(png, metadata);
+    const twice = embedImageMetadata(once, { ...metadata, artisticStyle: 'anime' });
+    expect(twice.length).toBe(once.length - 'cinematic'.length + 'anime'.length);
+    expect(readImageMetadata(twice)?.artisticStyle).toBe('anime');
+  });
+});
+
+describe('JPEG metadata', () => {
+  it('round-trips through an XMP segment after the JFIF header', () => {
+    const embedded = embedImageMetadata(jpeg, metadata);
+    expect([...embedded.subarray(2, 2 + jfif.length)]).toEqual(jfif);
+    expect(embedded[2 + jfif.length + 1]).toBe(0xe1);
+    expect(readImageMetadata(embedded)).toEqual(metadata);
+    expect(readImageMetadata(embedImageMetadata(embedded, metadata))).toEqual(metadata);
+  });
+});
+
+describe('readImageMetadata', () => {
+  it('returns null for images without metadata and for other formats', () => {
+    expect(readImageMetadata(png)).toBeNull();
+    expect(readImageMetadata(jpeg)).toBeNull();
+    expect(readImageMetadata(new TextEncoder().encode('RIFF....WEBP'))).toBeNull();
+  });
+
+  it('works on data URLs', () => {
+    const dataUrl = `data:image/png;base64,${btoa(String.fromCharCode(...png))}`;
+    const embedded = embedMetadataInDataUrl(dataUrl, metadata);
+    const bytes = Uint8Array.from(atob(embedded.split(',')[1]), c => c.charCodeAt(0));
+    expect(readImageMetadata(bytes)?.sceneDescription).toBe('مبارزة عند الفجر');
+  });
+});
+
+describe('metadataFromSettings', () => {
+  it('records the tab and any hand-edited prompt', () => {
+    expect(metadata).toMatchObject({ tab: 'generate', promptOverride: '' });
+    const edited = metadataFromSettings('Custom prompt', { ...settings, promptOverride: 'Custom prompt' }, metadata.createdAt);
+    expect(readImageMetadata(embedImageMetadata(png, edited))?.promptOverride).toBe('Custom prompt');
+  });
+
+  it('treats files without a tab as Generate images when they carry a style', () => {
+    const { tab, ...legacy } = metadata;
+    expect(tab).toBe('generate');
+    expect(readImageMetadata(embedImageMetadata(png, legacy as typeof metadata))?.tab).toBe('generate');
+    expect(readImageMetadata(embedImageMetadata(png, { ...legacy, artisticStyle: '' } as typeof metadata))?.tab).toBe('');
+  });
+});
+
+describe('embedImageDpi', () => {
+  it('writes a pHYs chunk to PNGs and the JFIF density to JPEGs', () => {
+    const tagged = embedImageDpi(embedImageDpi(png, 150), 300);
+    const phys = chunk('pHYs', [0, 0, 0x2e, 0x23, 0, 0, 0x2e, 0x23, 1]); // 11811 pixels per metre
+    expect([...tagged.subarray(8 + 25, 8 + 25 + phys.length)]).toEqual(phys);
+    expect(tagged.length).toBe(png.length + phys.length);
+
+    const jpegTagged = embedImageDpi(jpeg, 300);
+    expect([...jpegTagged.subarray(13, 18)]).toEqual([1, 0x01, 0x2c, 0x01, 0x2c]);
+  });
+});
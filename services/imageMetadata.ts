@@ -0,0 +1,327 @@
+/**
+ * Generation metadata embedded in downloaded images, so a file records how it was made and can be
+ * imported back into the Generate tab. PNGs carry it in tEXt/iTXt chunks and JPEGs in an XMP packet;
+ * other formats are downloaded unchanged. Print exports also get their DPI recorded here.
+ */
+import type { GenerationSettings } from '../types';
+import { crc32 } from './zipArchive';
+
+export interface ImageMetadata {
+  tab: 'generate' | 'edit' | ''; // '' when the image has no recorded settings
+  prompt: string;
+  promptOverride: string; // hand-edited prompt that replaced the generated one, '' for none
+  sceneDescription: string;
+  instruction: string; // edit instruction, for images from the Edit tab
+  artisticStyle: string;
+  lightingStyle: string;
+  cameraPerspective: string;
+  aspectRatio: string;
+  createdAt: string; // ISO timestamp
+  appVersion: string;
+}
+
+export const APP_VERSION = process.env.APP_VERSION || 'dev';
+export const APP_NAME = 'Boukiane';
+
+// PNG keyword and XMP property holding the full record as JSON; the other fields are for other tools
+const METADATA_KEY = 'boukiane';
+const XMP_NAMESPACE = 'urn:boukiane:metadata:1';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_KEYWORDS = [METADATA_KEY, 'Description', 'Software', 'Creation Time'];
+const MAX_JPEG_SEGMENT = 0xffff - 2;
+const INCHES_PER_METRE = 1 / 0.0254;
+const JFIF_IDENTIFIER = 'JFIF\0';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const metadataFromSettings = (prompt: string, settings: GenerationSettings | undefined, createdAt: string): ImageMetadata => {
+  const generate = settings?.tab === 'generate' ? settings : null;
+  return {
+    tab: settings?.tab ?? '',
+    prompt,
+    promptOverride: generate?.promptOverride ?? '',
+    sceneDescription: generate?.sceneDescription ?? '',
+    instruction: settings?.tab === 'edit' ? settings.instruction : '',
+    artisticStyle: generate?.artisticStyle ?? '',
+    lightingStyle: generate?.lightingStyle ?? '',
+    cameraPerspective: generate?.cameraPerspective ?? '',
+    aspectRatio: generate?.aspectRatio ?? '',
+    createdAt,
+    appVersion: APP_VERSION,
+  };
+};
+
+const parseMetadata = (json: string): ImageMetadata | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null) return null;
+  const record = data as Record<string, unknown>;
+  if (typeof record.prompt !== 'string') return null;
+  const text = (key: keyof ImageMetadata) => (typeof record[key] === 'string' ? record[key] as string : '');
+  // Files written before the tab was recorded: Generate images always have a style
+  const tab = record.tab === 'generate' || record.tab === 'edit' ? record.tab : text('artisticStyle') ? 'generate' : '';
+  return {
+    tab,
+    prompt: record.prompt,
+    promptOverride: text('promptOverride'),
+    sceneDescription: text('sceneDescription'),
+    instruction: text('instruction'),
+    artisticStyle: text('artisticStyle'),
+    lightingStyle: text('lightingStyle'),
+    cameraPerspective: text('cameraPerspective'),
+    aspectRatio: text('aspectRatio'),
+    createdAt: text('createdAt'),
+    appVersion: text('appVersion'),
+  };
+};
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => { output.set(part, offset); offset += part.length; });
+  return output;
+};
+
+// --- PNG ---
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+  raw: Uint8Array; // the whole chunk, including length and CRC
+}
+
+const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) throw new Error('The PNG file is truncated.');
+    chunks.push({
+      type: String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)),
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+      raw: bytes.subarray(offset, end),
+    });
+    offset = end;
+  }
+  return chunks;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const typeAndData = concat([encoder.encode(type), data]);
+  const chunk = new Uint8Array(typeAndData.length + 8);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(chunk.length - 4, crc32(typeAndData));
+  return chunk;
+};
+
+// tEXt is Latin-1 only, so it is kept to ASCII values
+const textChunk = (keyword: string, text: string) =>
+  pngChunk('tEXt', concat([encoder.encode(keyword), new Uint8Array([0]), encoder.encode(text.replace(/[^\x20-\x7e]/g, '?'))]));
+
+// Uncompressed iTXt with no language tag: keyword, flag, method, language and translated keyword, then UTF-8 text
+const internationalTextChunk = (keyword: string, text: string) =>
+  pngChunk('iTXt', concat([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+
+const chunkKeyword = (chunk: PngChunk): string | null => {
+  if (chunk.type !== 'tEXt' && chunk.type !== 'iTXt') return null;
+  const end = chunk.data.indexOf(0);
+  return end > 0 ? decoder.decode(chunk.data.subarray(0, end)) : null;
+};
+
+const embedInPng = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const chunks = readPngChunks(bytes);
+  if (chunks[0]?.type !== 'IHDR') throw new Error('The PNG file has no header chunk.');
+  // Replaces what an earlier download wrote, so re-saving an imported image does not pile up copies
+  const kept = chunks.slice(1).filter(chunk => !PNG_KEYWORDS.includes(chunkKeyword(chunk) ?? ''));
+  return concat([
+    bytes.subarray(0, PNG_SIGNATURE.length),
+    chunks[0].raw,
+    internationalTextChunk(METADATA_KEY, JSON.stringify(metadata)),
+    internationalTextChunk('Description', metadata.prompt),
+    textChunk('Software', `${APP_NAME} ${metadata.appVersion}`),
+    textChunk('Creation Time', metadata.createdAt),
+    ...kept.map(chunk => chunk.raw),
+  ]);
+};
+
+const readFromPng = (bytes: Uint8Array): ImageMetadata | null => {
+  const chunk = readPngChunks(bytes).find(c => c.type === 'iTXt' && chunkKeyword(c) === METADATA_KEY);
+  if (!chunk) return null;
+  // Skip the keyword, the compression flag and method, and the language and translated keyword fields
+  if (chunk.data[METADATA_KEY.length + 1] !== 0) return null; // compressed text is never written here
+  const languageEnd = chunk.data.indexOf(0, METADATA_KEY.length + 3);
+  const keywordEnd = languageEnd < 0 ? -1 : chunk.data.indexOf(0, languageEnd + 1);
+  if (keywordEnd < 0) return null;
+  return parseMetadata(decoder.decode(chunk.data.subarray(keywordEnd + 1)));
+};
+
+// pHYs holds pixels per metre for both axes, with unit 1 meaning metres
+const embedDpiInPng = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const chunks = readPngChunks(bytes);
+  if (chunks[0]?.type !== 'IHDR') throw new Error('The PNG file has no header chunk.');
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  const perMetre = Math.round(dpi * INCHES_PER_METRE);
+  view.setUint32(0, perMetre);
+  view.setUint32(4, perMetre);
+  data[8] = 1;
+  return concat([
+    bytes.subarray(0, PNG_SIGNATURE.length),
+    chunks[0].raw,
+    pngChunk('pHYs', data),
+    ...chunks.slice(1).filter(chunk => chunk.type !== 'pHYs').map(chunk => chunk.raw),
+  ]);
+};
+
+// --- JPEG ---
+
+interface JpegSegment {
+  marker: number;
+  start: number;
+  end: number;
+}
+
+// Walks the header segments up to the start of the image data
+const readJpegSegments = (bytes: Uint8Array): { segments: JpegSegment[]; dataStart: number } => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break; // start of scan
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) throw new Error('The JPEG file is truncated.');
+    segments.push({ marker, start: offset, end });
+    offset = end;
+  }
+  return { segments, dataStart: offset };
+};
+
+const isXmpSegment = (bytes: Uint8Array, segment: JpegSegment) =>
+  segment.marker === 0xe1 && decoder.decode(bytes.subarray(segment.start + 4, segment.start + 4 + XMP_HEADER.length)) === XMP_HEADER;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\r/g, '&#13;').replace(/\n/g, '&#10;');
+
+const unescapeXml = (text: string) =>
+  text.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);/gi, (_, entity: string) => {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    if (entity in named) return named[entity];
+    return String.fromCodePoint(entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+
+const xmpPacket = (metadata: ImageMetadata): string => [
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+  ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+  `  <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:${METADATA_KEY}="${XMP_NAMESPACE}"`,
+  `   xmp:CreatorTool="${escapeXml(`${APP_NAME} ${metadata.appVersion}`)}"`,
+  `   xmp:CreateDate="${escapeXml(metadata.createdAt)}"`,
+  `   ${METADATA_KEY}:settings="${escapeXml(JSON.stringify(metadata))}">`,
+  `   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>`,
+  '  </rdf:Description>',
+  ' </rdf:RDF>',
+  '</x:xmpmeta>',
+  '<?xpacket end="w"?>',
+].join('\n');
+
+const embedInJpeg = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const payload = encoder.encode(XMP_HEADER + xmpPacket(metadata));
+  if (payload.length > MAX_JPEG_SEGMENT) throw new Error('The prompt is too long to embed in a JPEG file.');
+  const segment = new Uint8Array(payload.length + 4);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+
+  const { segments, dataStart } = readJpegSegments(bytes);
+  // JFIF requires its APP0 segment to come first
+  const leading = segments[0]?.marker === 0xe0 ? [segments[0]] : [];
+  const rest = segments.slice(leading.length).filter(s => !isXmpSegment(bytes, s));
+  return concat([
+    bytes.subarray(0, 2),
+    ...leading.map(s => bytes.subarray(s.start, s.end)),
+    segment,
+    ...rest.map(s => bytes.subarray(s.start, s.end)),
+    bytes.subarray(dataStart),
+  ]);
+};
+
+// The JFIF header stores the density as units (1 = dots per inch) followed by X and Y values
+const embedDpiInJpeg = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const density = Math.min(0xffff, Math.round(dpi));
+  const { segments } = readJpegSegments(bytes);
+  const first = segments[0];
+  const isJfif = first?.marker === 0xe0 && decoder.decode(bytes.subarray(first.start + 4, first.start + 9)) === JFIF_IDENTIFIER;
+  if (isJfif) {
+    const output = bytes.slice();
+    output.set([1, density >> 8, density & 0xff, density >> 8, density & 0xff], first.start + 11);
+    return output;
+  }
+  const header = new Uint8Array([0xff, 0xe0, 0x00, 0x10, ...encoder.encode(JFIF_IDENTIFIER), 1, 1, 1, density >> 8, density & 0xff, density >> 8, density & 0xff, 0, 0]);
+  return concat([bytes.subarray(0, 2), header, bytes.subarray(2)]);
+};
+
+const readFromJpeg = (bytes: Uint8Array): ImageMetadata | null => {
+  const { segments } = readJpegSegments(bytes);
+  for (const segment of segments.filter(s => isXmpSegment(bytes, s))) {
+    const xml = decoder.decode(bytes.subarray(segment.start + 4 + XMP_HEADER.length, segment.end));
+    const match = xml.match(new RegExp(`${METADATA_KEY}:settings="([^"]*)"`));
+    if (match) return parseMetadata(unescapeXml(match[1]));
+  }
+  return null;
+};
+
+/** Returns a copy of the image with the metadata embedded, or the image itself for formats without support. */
+export const embedImageMetadata = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  if (isPng(bytes)) return embedInPng(bytes, metadata);
+  if (isJpeg(bytes)) return embedInJpeg(bytes, metadata);
+  return bytes;
+};
+
+/** Records the print resolution, so layout apps size the image correctly; other formats are returned as they are. */
+export const embedImageDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  if (isPng(bytes)) return embedDpiInPng(bytes, dpi);
+  if (isJpeg(bytes)) return embedDpiInJpeg(bytes, dpi);
+  return bytes;
+};
+
+/** Reads metadata written by embedImageMetadata; null when the file has none. */
+export const readImageMetadata = (bytes: Uint8Array): ImageMetadata | null => {
+  try {
+    if (isPng(bytes)) return readFromPng(bytes);
+    if (isJpeg(bytes)) return readFromJpeg(bytes);
+  } catch {
+    // A damaged file simply has no readable metadata
+  }
+  return null;
+};
+
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked, as spreading a whole image into fromCharCode overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+/** Applies one of the byte-level functions above to a base64 data URL, as the download buttons use. */
+export const transformDataUrl = (dataUrl: string, transform: (bytes: Uint8Array) => Uint8Array): string => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match) return dataUrl;
+  return `data:${match[1]};base64,${bytesToBase64(transform(base64ToBytes(match[2])))}`;
+};
+
+export const embedMetadataInDataUrl = (dataUrl: string, metadata: ImageMetadata): string =>
+  transformDataUrl(dataUrl, bytes => embedImageMetadata(bytes, metadata));
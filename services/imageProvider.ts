@@ -0,0 +1,71 @@
+import type { ImageFile } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+export interface GenerateImageParams {
+  prompt: string;
+  characterImages: ImageFile[];
+  styleImage: ImageFile | null;
+  baseImage?: ImageFile | null;
+  maskImage?: ImageFile | null;
+  // Aborts the underlying request when the user cancels
+  signal?: AbortSignal;
+}
+
+export interface SafetyRatingSummary {
+  category: string; // without the HARM_CATEGORY_ prefix
+  probability: string | null;
+  blocked: boolean;
+}
+
+/** Everything a provider returned for one request, not just the first image. */
+export interface GenerationResult {
+  images: string[]; // data URLs, at least one
+  // Text parts the model produced alongside the images, e.g. why it deviated from the prompt
+  text: string;
+  finishReason: string | null;
+  safetyRatings: SafetyRatingSummary[];
+}
+
+export type ImageProviderName = 'gemini' | 'mock';
+
+/** A backend able to turn a prompt plus reference images into one or more images with commentary. */
+export interface ImageProvider {
+  name: ImageProviderName;
+  generateImage: (params: GenerateImageParams) => Promise<GenerationResult>;
+}
+
+/**
+ * Resolves the configured provider name. `IMAGE_PROVIDER` wins when set;
+ * otherwise Gemini is used when an API key is available and the mock backend when not.
+ */
+const resolveProviderName = (): ImageProviderName => {
+  const configured = process.env.IMAGE_PROVIDER?.trim().toLowerCase();
+  if (configured === 'gemini' || configured === 'mock') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown IMAGE_PROVIDER "${configured}", falling back to automatic selection.`);
+  }
+  if (process.env.API_KEY) {
+    return 'gemini';
+  }
+  console.warn("API_KEY is not set, using the local mock image provider.");
+  return 'mock';
+};
+
+let activeProvider: ImageProvider | null = null;
+
+export const getImageProvider = (): ImageProvider => {
+  if (!activeProvider) {
+    activeProvider = resolveProviderName() === 'gemini'
+      ? createGeminiProvider(process.env.API_KEY)
+      : createMockProvider();
+  }
+  return activeProvider;
+};
+
+/** Overrides the configured provider, e.g. to force the mock backend in a demo or test. */
+export const setImageProvider = (provider: ImageProvider | null) => {
+  activeProvider = provider;
+};
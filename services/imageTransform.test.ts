@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  IDENTITY_TRANSFORM,
+  MIN_CROP_SIZE,
+  largestCrop,
+  moveCrop,
+  padToRatio,
+  parseAspectRatio,
+  resizeCrop,
+  rotateQuarter,
+  roundCrop,
+  transformedSize,
+} from './imageTransform';
+
+const bounds = { width: 1000, height: 500 };
+
+describe('parseAspectRatio', () => {
+  it('parses the aspect ratio option values', () => {
+    expect(parseAspectRatio('16:9')).toBeCloseTo(16 / 9);
+    expect(parseAspectRatio('2.39:1')).toBeCloseTo(2.39);
+  });
+
+  it.each(['free', '16:0', '1:2:3', '-1:1'])('rejects %s', value => {
+    expect(parseAspectRatio(value)).toBeNull();
+  });
+});
+
+describe('transformedSize', () => {
+  it('swaps the sides on a quarter turn', () => {
+    expect(transformedSize({ width: 1024, height: 576 }, { ...IDENTITY_TRANSFORM, quarterTurns: 1 })).toEqual({ width: 576, height: 1024 });
+  });
+
+  it('grows to hold the corners when straightened', () => {
+    const size = transformedSize({ width: 100, height: 100 }, { ...IDENTITY_TRANSFORM, straighten: 45 });
+    expect(size).toEqual({ width: 141, height: 141 });
+  });
+});
+
+describe('rotateQuarter', () => {
+  it('wraps around in both directions', () => {
+    expect(rotateQuarter(IDENTITY_TRANSFORM, -1).quarterTurns).toBe(3);
+    expect(rotateQuarter({ ...IDENTITY_TRANSFORM, quarterTurns: 3 }, 1).quarterTurns).toBe(0);
+  });
+
+  it('turns the other way underneath a single flip so the view still turns as asked', () => {
+    expect(rotateQuarter({ ...IDENTITY_TRANSFORM, flipHorizontal: true }, 1).quarterTurns).toBe(3);
+    expect(rotateQuarter({ ...IDENTITY_TRANSFORM, flipHorizontal: true, flipVertical: true }, 1).quarterTurns).toBe(1);
+  });
+});
+
+describe('crop box', () => {
+  it('starts as the largest centred box for the ratio', () => {
+    expect(largestCrop(bounds, 1)).toEqual({ x: 250, y: 0, width: 500, height: 500 });
+    expect(largestCrop(bounds, null)).toEqual({ x: 0, y: 0, ...bounds });
+  });
+
+  it('moves without leaving the image', () => {
+    const rect = { x: 250, y: 0, width: 500, height: 500 };
+    expect(moveCrop(rect, 1000, 50, bounds)).toEqual({ ...rect, x: 500, y: 0 });
+    expect(moveCrop(rect, -1000, 0, bounds).x).toBe(0);
+  });
+
+  it('resizes freely from a corner while the opposite corner stays put', () => {
+    const rect = { x: 100, y: 100, width: 200, height: 200 };
+    expect(resizeCrop(rect, 'nw', -50, 20, null, bounds)).toEqual({ x: 50, y: 120, width: 250, height: 180 });
+    expect(resizeCrop(rect, 'se', 5000, 5000, null, bounds)).toEqual({ x: 100, y: 100, width: 900, height: 400 });
+  });
+
+  it('keeps a locked ratio', () => {
+    const rect = { x: 0, y: 0, width: 160, height: 90 };
+    const resized = resizeCrop(rect, 'se', 320, 0, 16 / 9, bounds);
+    expect(resized.width / resized.height).toBeCloseTo(16 / 9);
+    expect(resized.width).toBeCloseTo(160);
+
+    const grown = resizeCrop(rect, 'se', 320, 180, 16 / 9, bounds);
+    expect(grown).toEqual({ x: 0, y: 0, width: 480, height: 270 });
+  });
+
+  it('never shrinks below the minimum size', () => {
+    const resized = resizeCrop({ x: 100, y: 100, width: 200, height: 200 }, 'se', -1000, -1000, null, bounds);
+    expect(resized.width).toBe(MIN_CROP_SIZE);
+    expect(resized.height).toBe(MIN_CROP_SIZE);
+  });
+
+  it('rounds to whole pixels inside the bounds', () => {
+    expect(roundCrop({ x: 10.4, y: -0.2, width: 999.9, height: 20.6 }, bounds)).toEqual({ x: 10, y: 0, width: 990, height: 21 });
+  });
+});
+
+describe('padToRatio', () => {
+  it('adds height to a wide image and width to a tall one', () => {
+    expect(padToRatio({ width: 1600, height: 400 }, 16 / 9)).toEqual({ width: 1600, height: 900 });
+    expect(padToRatio({ width: 400, height: 900 }, 16 / 9)).toEqual({ width: 1600, height: 900 });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Geometry for the image editor's rotate, straighten, flip and crop tools.
+ * All rectangles are in pixels of the rotated image's bounding box.
+ */
+
+export type QuarterTurns = 0 | 1 | 2 | 3;
+
+export interface ImageTransform {
+  quarterTurns: QuarterTurns; // clockwise 90° steps
+  straighten: number; // degrees, added on top of the quarter turns
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Rect extends Size {
+  x: number;
+  y: number;
+}
+
+export type CropHandle = 'nw' | 'ne' | 'sw' | 'se';
+
+export const IDENTITY_TRANSFORM: ImageTransform = {
+  quarterTurns: 0,
+  straighten: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+};
+
+export const MAX_STRAIGHTEN_DEGREES = 45;
+export const MIN_CROP_SIZE = 16;
+
+/** Parses "16:9" style ratios; returns null for anything that is not two positive numbers. */
+export const parseAspectRatio = (ratio: string): number | null => {
+  const [num, den, ...rest] = ratio.split(':').map(Number);
+  if (rest.length > 0 || !(num > 0) || !(den > 0)) return null;
+  return num / den;
+};
+
+export const rotationRadians = (transform: ImageTransform): number =>
+  ((transform.quarterTurns * 90 + transform.straighten) * Math.PI) / 180;
+
+/** Size of the box that holds the whole image after rotation, so no corner is cut off. */
+export const transformedSize = ({ width, height }: Size, transform: ImageTransform): Size => {
+  const angle = rotationRadians(transform);
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  // Rounding guards against 1e-16 noise turning 1024 into 1025 on exact quarter turns
+  return {
+    width: Math.round(width * cos + height * sin),
+    height: Math.round(width * sin + height * cos),
+  };
+};
+
+/**
+ * Turns the image a quarter in the direction the user sees. Flips are applied on top of the
+ * rotation, so with exactly one flip active the underlying turn has to go the other way.
+ */
+export const rotateQuarter = (transform: ImageTransform, direction: 1 | -1): ImageTransform => {
+  const mirrored = transform.flipHorizontal !== transform.flipVertical;
+  const step = mirrored ? -direction : direction;
+  return { ...transform, quarterTurns: (((transform.quarterTurns + step) % 4) + 4) % 4 as QuarterTurns };
+};
+
+/** The largest centred rectangle of `ratio` (or the whole area when null) inside `bounds`. */
+export const largestCrop = (bounds: Size, ratio: number | null): Rect => {
+  if (ratio === null) return { x: 0, y: 0, width: bounds.width, height: bounds.height };
+  const width = Math.min(bounds.width, bounds.height * ratio);
+  const height = width / ratio;
+  return { x: (bounds.width - width) / 2, y: (bounds.height - height) / 2, width, height };
+};
+
+export const moveCrop = (rect: Rect, dx: number, dy: number, bounds: Size): Rect => ({
+  ...rect,
+  x: Math.min(Math.max(0, rect.x + dx), bounds.width - rect.width),
+  y: Math.min(Math.max(0, rect.y + dy), bounds.height - rect.height),
+});
+
+/**
+ * Drags one corner by (dx, dy) while the opposite corner stays put. With a ratio the box
+ * keeps its shape, following whichever axis was dragged less so it never outgrows the pointer.
+ */
+export const resizeCrop = (
+  rect: Rect,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  ratio: number | null,
+  bounds: Size
+): Rect => {
+  const west = handle === 'nw' || handle === 'sw';
+  const north = handle === 'nw' || handle === 'ne';
+  const anchorX = west ? rect.x + rect.width : rect.x;
+  const anchorY = north ? rect.y + rect.height : rect.y;
+  const maxWidth = west ? anchorX : bounds.width - anchorX;
+  const maxHeight = north ? anchorY : bounds.height - anchorY;
+
+  let width = Math.min(maxWidth, Math.max(MIN_CROP_SIZE, rect.width + (west ? -dx : dx)));
+  let height = Math.min(maxHeight, Math.max(MIN_CROP_SIZE, rect.height + (north ? -dy : dy)));
+  if (ratio !== null) {
+    if (width / height > ratio) {
+      width = height * ratio;
+    } else {
+      height = width / ratio;
+    }
+  }
+
+  return {
+    x: west ? anchorX - width : anchorX,
+    y: north ? anchorY - height : anchorY,
+    width,
+    height,
+  };
+};
+
+/** Canvas size that fits `size` at `ratio` by adding transparent padding instead of cropping. */
+export const padToRatio = ({ width, height }: Size, ratio: number): Size =>
+  width / height > ratio
+    ? { width, height: Math.round(width / ratio) }
+    : { width: Math.round(height * ratio), height };
+
+/** Rounds a crop to whole pixels without leaving the bounds. */
+export const roundCrop = (rect: Rect, bounds: Size): Rect => {
+  const x = Math.max(0, Math.round(rect.x));
+  const y = Math.max(0, Math.round(rect.y));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(bounds.width - x, Math.round(rect.width))),
+    height: Math.max(1, Math.min(bounds.height - y, Math.round(rect.height))),
+  };
+};
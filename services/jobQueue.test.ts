@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createJobQueue, isJobActive } from './jobQueue';
+import type { JobRequest, JobRunner } from './jobQueue';
+import type { GenerationResult } from './imageProvider';
+import { GenerationCancelledError } from './generationErrors';
+
+interface PendingRun {
+  prompt: string;
+  signal?: AbortSignal;
+  resolve: (result: GenerationResult) => void;
+  reject: (error: Error) => void;
+}
+
+// A runner whose requests stay open until the test settles them
+const controllableRunner = () => {
+  const runs: PendingRun[] = [];
+  const run: JobRunner = (params, options) => new Promise((resolve, reject) => {
+    runs.push({ prompt: params.prompt, signal: options.signal, resolve, reject });
+  });
+  return { runs, run };
+};
+
+const request = (prompt: string, batchId?: string): JobRequest => ({
+  kind: 'generate',
+  label: prompt,
+  params: { prompt, characterImages: [], styleImage: null },
+  batchId,
+});
+
+const resultOf = (image: string): GenerationResult => ({ images: [image], text: '', finishReason: 'STOP', safetyRatings: [] });
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createJobQueue', () => {
+  it('runs at most `concurrency` jobs at once, in enqueue order', () => {
+    const { runs, run } = controllableRunner();
+    const queue = createJobQueue({ concurrency: 2, run });
+    ['a', 'b', 'c'].forEach(prompt => queue.enqueue(request(prompt)));
+
+    expect(runs.map(r => r.prompt)).toEqual(['a', 'b']);
+    expect(queue.getJobs().map(job => job.status)).toEqual(['running', 'running', 'pending']);
+  });
+
+  it('starts the next job when one finishes and resolves its result', async () => {
+    const { runs, run } = controllableRunner();
+    const queue = createJobQueue({ concurrency: 1, run });
+    const first = queue.enqueue(request('a'));
+    queue.enqueue(request('b'));
+
+    runs[0].resolve(resultOf('image-a'));
+    await expect(first.result).resolves.toEqual(resultOf('image-a'));
+    await flush();
+
+    expect(runs.map(r => r.prompt)).toEqual(['a', 'b']);
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'done', result: resultOf('image-a') });
+  });
+
+  it('keeps going after a failure', async () => {
+    const { runs, run } = controllableRunner();
+    const queue = createJobQueue({ concurrency: 1, run });
+    const first = queue.enqueue(request('a'));
+    queue.enqueue(request('b'));
+
+    runs[0].reject(new Error('blocked'));
+    await expect(first.result).rejects.toThrow('blocked');
+    await flush();
+
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'failed', error: 'blocked' });
+    expect(queue.getJobs()[1].status).toBe('running');
+  });
+
+  it('cancels a pending job without running it', async () => {
+    const { runs, run } = controllableRunner();
+    const queue = createJobQueue({ concurrency: 1, run });
+    queue.enqueue(request('a'));
+    const second = queue.enqueue(request('b'));
+
+    queue.cancel(second.id);
+
+    await expect(second.result).rejects.toBeInstanceOf(GenerationCancelledError);
+    expect(queue.getJobs()[1].status).toBe('cancelled');
+    expect(runs).toHaveLength(1);
+  });
+
+  it('aborts a running job and frees its slot immediately', async () => {
+    const { runs, run } = controllableRunner();
+    const queue = createJobQueue({ concurrency: 1, run });
+    const first = queue.enqueue(request('a'));
+    queue.enqueue(request('b'));
+
+    queue.cancel(first.id);
+
+    expect(runs[0].signal?.aborted).toBe(true);
+    await expect(first.result).rejects.toBeInstanceOf(GenerationCancelledError);
+    expect(runs.map(r => r.prompt)).toEqual(['a', 'b']);
+
+    // A late response from the aborted request is ignored
+    runs[0].resolve(resultOf('late'));
+    await flush();
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'cancelled', result: null });
+  });
+
+  it('starts waiting jobs when the concurrency cap is raised', () => {
+    const { runs, run } = controllableRunner();
+    const queue = createJobQueue({ concurrency: 1, run });
+    ['a', 'b', 'c'].forEach(prompt => queue.enqueue(request(prompt)));
+
+    queue.setConcurrency(3);
+
+    expect(runs).toHaveLength(3);
+    expect(queue.getConcurrency()).toBe(3);
+  });
+
+  it('records retry attempts on the running job', () => {
+    const run: JobRunner = (_params, options) => {
+      options.onRetry?.(1, 1500, new Error('Rpc failed due to xhr error'));
+      return new Promise(() => {});
+    };
+    const queue = createJobQueue({ run });
+    queue.enqueue(request('a'));
+    expect(queue.getJobs()[0].retry).toEqual({ attempt: 2, delayMs: 1500 });
+  });
+
+  it('notifies subscribers and publishes a new job list on every change', async () => {
+    const { runs, run } = controllableRunner();
+    const queue = createJobQueue({ run });
+    const listener = vi.fn();
+    const unsubscribe = queue.subscribe(listener);
+
+    const before = queue.getJobs();
+    queue.enqueue(request('a'));
+    expect(queue.getJobs()).not.toBe(before);
+    expect(listener).toHaveBeenCalled();
+
+    unsubscribe();
+    listener.mockClear();
+    runs[0].resolve(resultOf('image'));
+    await flush();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('clears finished jobs but keeps active ones', async () => {
+    const { runs, run } = controllableRunner();
+    const queue = createJobQueue({ concurrency: 1, run });
+    const first = queue.enqueue(request('a'));
+    queue.enqueue(request('b'));
+    runs[0].resolve(resultOf('image'));
+    await first.result;
+
+    queue.clearFinished();
+
+    expect(queue.getJobs().map(job => job.label)).toEqual(['b']);
+    expect(queue.getJobs().every(isJobActive)).toBe(true);
+  });
+
+  it('drops the oldest finished jobs beyond maxFinishedJobs', async () => {
+    const queue = createJobQueue({ run: async params => resultOf(params.prompt), maxFinishedJobs: 2 });
+    const results = ['a', 'b', 'c'].map(prompt => queue.enqueue(request(prompt)).result);
+    await Promise.all(results);
+
+    expect(queue.getJobs().map(job => job.label)).toEqual(['b', 'c']);
+  });
+});
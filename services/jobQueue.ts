@@ -0,0 +1,216 @@
+import type { GenerateImageParams, GenerationResult } from './imageProvider';
+import { generateStoryImage } from './geminiService';
+import { GenerationCancelledError, isCancellation, isGenerationError } from './generationErrors';
+import type { GenerationErrorCode } from './generationErrors';
+import type { RetryOptions } from './generationRequest';
+
+export type JobKind = 'generate' | 'edit';
+
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/** Everything needed to run a job later, captured when it is enqueued. */
+export interface JobRequest {
+  kind: JobKind;
+  // Short human-readable summary for the queue drawer, usually the prompt
+  label: string;
+  params: GenerateImageParams;
+  // Jobs enqueued by the same click share a batch so they can be shown and cancelled together
+  batchId?: string;
+}
+
+export interface Job extends JobRequest {
+  id: string;
+  status: JobStatus;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  // Set while a transient failure is being retried
+  retry: { attempt: number; delayMs: number } | null;
+  result: GenerationResult | null;
+  error: string | null;
+  errorCode: GenerationErrorCode | null;
+}
+
+export type JobRunner = (params: GenerateImageParams, options: RetryOptions) => Promise<GenerationResult>;
+
+export interface JobQueue {
+  /** Adds a job; `result` settles when it finishes and rejects with GenerationCancelledError if cancelled. */
+  enqueue: (request: JobRequest) => { id: string; result: Promise<GenerationResult> };
+  cancel: (id: string) => void;
+  // Removes done, failed and cancelled jobs from the list
+  clearFinished: () => void;
+  getJobs: () => Job[];
+  subscribe: (listener: () => void) => () => void;
+  getConcurrency: () => number;
+  setConcurrency: (concurrency: number) => void;
+}
+
+export interface JobQueueOptions {
+  concurrency?: number;
+  run?: JobRunner;
+  // Older finished jobs are dropped beyond this many, since each holds full images
+  maxFinishedJobs?: number;
+}
+
+const CONCURRENCY_KEY = 'jobQueueConcurrency';
+export const DEFAULT_JOB_CONCURRENCY = 2;
+export const MAX_JOB_CONCURRENCY = 6;
+
+const clampConcurrency = (value: number): number =>
+  Math.min(MAX_JOB_CONCURRENCY, Math.max(1, Math.floor(value) || 1));
+
+export const getJobConcurrency = (): number => {
+  const stored = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return stored ? clampConcurrency(stored) : DEFAULT_JOB_CONCURRENCY;
+};
+
+export const setJobConcurrency = (concurrency: number) => {
+  localStorage.setItem(CONCURRENCY_KEY, String(clampConcurrency(concurrency)));
+};
+
+export const isJobActive = (job: Job): boolean => job.status === 'pending' || job.status === 'running';
+
+let jobCounter = 0;
+
+export const createJobQueue = ({
+  concurrency: initialConcurrency = DEFAULT_JOB_CONCURRENCY,
+  run = generateStoryImage,
+  maxFinishedJobs = 50,
+}: JobQueueOptions = {}): JobQueue => {
+  let concurrency = clampConcurrency(initialConcurrency);
+  // Replaced on every change so it can back useSyncExternalStore
+  let jobs: Job[] = [];
+  const listeners = new Set<() => void>();
+  const controllers = new Map<string, AbortController>();
+  const settlers = new Map<string, { resolve: (result: GenerationResult) => void; reject: (error: Error) => void }>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const update = (id: string, changes: Partial<Job>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+  };
+
+  const pruneFinished = () => {
+    const finished = jobs.filter(job => !isJobActive(job));
+    if (finished.length <= maxFinishedJobs) return;
+    const dropped = new Set(finished.slice(0, finished.length - maxFinishedJobs).map(job => job.id));
+    jobs = jobs.filter(job => !dropped.has(job.id));
+  };
+
+  const finish = (id: string, changes: Partial<Job>, outcome: { result: GenerationResult } | { error: Error }) => {
+    update(id, { ...changes, retry: null, finishedAt: Date.now() });
+    controllers.delete(id);
+    const settler = settlers.get(id);
+    settlers.delete(id);
+    if ('result' in outcome) {
+      settler?.resolve(outcome.result);
+    } else {
+      settler?.reject(outcome.error);
+    }
+    pruneFinished();
+  };
+
+  const start = (job: Job) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, { status: 'running', startedAt: Date.now() });
+
+    run(job.params, {
+      signal: controller.signal,
+      onRetry: (attempt, delayMs) => {
+        update(job.id, { retry: { attempt: attempt + 1, delayMs } });
+        notify();
+      },
+    }).then(
+      result => {
+        // A job cancelled while running has already been settled
+        if (jobs.find(j => j.id === job.id)?.status !== 'running') return;
+        finish(job.id, { status: 'done', result }, { result });
+        pump();
+      },
+      (error: unknown) => {
+        if (jobs.find(j => j.id === job.id)?.status !== 'running') return;
+        const failure = error instanceof Error ? error : new Error(String(error));
+        if (isCancellation(failure)) {
+          finish(job.id, { status: 'cancelled' }, { error: failure });
+        } else {
+          finish(job.id, {
+            status: 'failed',
+            error: failure.message,
+            errorCode: isGenerationError(failure) ? failure.code : null,
+          }, { error: failure });
+        }
+        pump();
+      }
+    );
+  };
+
+  // Starts pending jobs in the order they were enqueued until the concurrency cap is reached
+  const pump = () => {
+    let running = jobs.filter(job => job.status === 'running').length;
+    for (const job of jobs) {
+      if (running >= concurrency) break;
+      if (job.status === 'pending') {
+        start(job);
+        running++;
+      }
+    }
+    notify();
+  };
+
+  const enqueue = (request: JobRequest) => {
+    const id = `job-${Date.now()}-${++jobCounter}`;
+    const result = new Promise<GenerationResult>((resolve, reject) => settlers.set(id, { resolve, reject }));
+    // Callers that only watch the queue state should not trigger unhandled rejections
+    result.catch(() => {});
+    jobs = [...jobs, {
+      ...request,
+      id,
+      status: 'pending',
+      createdAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      retry: null,
+      result: null,
+      error: null,
+      errorCode: null,
+    }];
+    pump();
+    return { id, result };
+  };
+
+  const cancel = (id: string) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || !isJobActive(job)) return;
+    controllers.get(id)?.abort();
+    finish(id, { status: 'cancelled' }, { error: new GenerationCancelledError() });
+    pump();
+  };
+
+  const clearFinished = () => {
+    jobs = jobs.filter(isJobActive);
+    notify();
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const setConcurrency = (value: number) => {
+    concurrency = clampConcurrency(value);
+    pump();
+  };
+
+  return {
+    enqueue,
+    cancel,
+    clearFinished,
+    getJobs: () => jobs,
+    subscribe,
+    getConcurrency: () => concurrency,
+    setConcurrency,
+  };
+};
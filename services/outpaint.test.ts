@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { computeOutpaintPadding, hasPadding, keptRect, paddedSize } from './outpaint';
+
+const wide = { width: 1600, height: 900 };
+
+describe('computeOutpaintPadding', () => {
+  it('grows each chosen side by a share of the image', () => {
+    expect(computeOutpaintPadding(wide, ['top', 'left'], { kind: 'percent', percent: 25 }))
+      .toEqual({ top: 225, right: 0, bottom: 0, left: 400 });
+  });
+
+  it('reaches a wider ratio by sharing the extra width between left and right', () => {
+    const padding = computeOutpaintPadding(wide, ['left', 'right'], { kind: 'ratio', ratio: '2.39:1' });
+    expect(padding).toEqual({ top: 0, right: 276, bottom: 0, left: 275 });
+    expect(paddedSize(wide, padding)).toEqual({ width: 2151, height: 900 });
+  });
+
+  it('reaches a taller ratio on a single chosen side', () => {
+    expect(computeOutpaintPadding(wide, ['bottom', 'left'], { kind: 'ratio', ratio: '1:1' }))
+      .toEqual({ top: 0, right: 0, bottom: 700, left: 0 });
+  });
+
+  it('adds nothing when the ratio needs an axis that was not chosen', () => {
+    const padding = computeOutpaintPadding(wide, ['top'], { kind: 'ratio', ratio: '2.39:1' });
+    expect(hasPadding(padding)).toBe(false);
+    expect(hasPadding(computeOutpaintPadding(wide, ['left'], { kind: 'ratio', ratio: 'free' }))).toBe(false);
+  });
+});
+
+describe('keptRect', () => {
+  it('keeps the original minus a seam overlap on extended sides only', () => {
+    const padding = { top: 0, right: 200, bottom: 0, left: 100 };
+    expect(keptRect(wide, padding, 16)).toEqual({ x: 116, y: 0, width: 1568, height: 900 });
+  });
+
+  it('limits the overlap on small images', () => {
+    expect(keptRect({ width: 40, height: 40 }, { top: 10, right: 0, bottom: 0, left: 0 }, 16))
+      .toEqual({ x: 0, y: 20, width: 40, height: 30 });
+  });
+});
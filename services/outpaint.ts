@@ -0,0 +1,90 @@
+/**
+ * Geometry for the Edit tab's outpainting mode: how much transparent canvas to add on each
+ * side of the base image, and which part of the result the model has to leave alone.
+ */
+import { parseAspectRatio } from './imageTransform';
+import type { Rect, Size } from './imageTransform';
+
+export type OutpaintDirection = 'top' | 'right' | 'bottom' | 'left';
+
+export const OUTPAINT_DIRECTIONS: OutpaintDirection[] = ['top', 'right', 'bottom', 'left'];
+
+export type Padding = Record<OutpaintDirection, number>;
+
+// Either grow each chosen side by a share of the image, or grow until the canvas reaches a ratio
+export type OutpaintAmount =
+  | { kind: 'percent'; percent: number }
+  | { kind: 'ratio'; ratio: string };
+
+export const OUTPAINT_PERCENTAGES = [25, 50, 100];
+
+// Pixels of the original along each seam that the mask hands back to the model, so it can blend
+export const SEAM_OVERLAP = 16;
+
+const NO_PADDING: Padding = { top: 0, right: 0, bottom: 0, left: 0 };
+
+// Shares `extra` between the chosen sides of one axis; an odd pixel goes to the second side
+const split = (extra: number, first: boolean, second: boolean): [number, number] => {
+  if (first && second) {
+    const half = Math.floor(extra / 2);
+    return [half, extra - half];
+  }
+  return first ? [extra, 0] : second ? [0, extra] : [0, 0];
+};
+
+/**
+ * Padding for each side of an image of `size`. A ratio target only grows the axis it needs, and
+ * only if a direction on that axis is chosen; otherwise nothing is added.
+ */
+export const computeOutpaintPadding = (size: Size, directions: OutpaintDirection[], amount: OutpaintAmount): Padding => {
+  const chosen = new Set(directions);
+  const horizontal = chosen.has('left') || chosen.has('right');
+  const vertical = chosen.has('top') || chosen.has('bottom');
+
+  if (amount.kind === 'percent') {
+    const share = Math.max(0, amount.percent) / 100;
+    const [top, bottom] = [chosen.has('top'), chosen.has('bottom')].map(on => on ? Math.round(size.height * share) : 0);
+    const [left, right] = [chosen.has('left'), chosen.has('right')].map(on => on ? Math.round(size.width * share) : 0);
+    return { top, right, bottom, left };
+  }
+
+  const ratio = parseAspectRatio(amount.ratio);
+  if (ratio === null) return { ...NO_PADDING };
+  const current = size.width / size.height;
+  let extraWidth = 0;
+  let extraHeight = 0;
+  if (ratio > current && horizontal) {
+    extraWidth = Math.max(0, Math.round(size.height * ratio) - size.width);
+  } else if (ratio < current && vertical) {
+    extraHeight = Math.max(0, Math.round(size.width / ratio) - size.height);
+  }
+  const [left, right] = split(extraWidth, chosen.has('left'), chosen.has('right'));
+  const [top, bottom] = split(extraHeight, chosen.has('top'), chosen.has('bottom'));
+  return { top, right, bottom, left };
+};
+
+export const hasPadding = (padding: Padding): boolean =>
+  OUTPAINT_DIRECTIONS.some(direction => padding[direction] > 0);
+
+export const paddedSize = ({ width, height }: Size, padding: Padding): Size => ({
+  width: width + padding.left + padding.right,
+  height: height + padding.top + padding.bottom,
+});
+
+/**
+ * The part of the padded canvas the mask keeps black: the original image, pulled in by
+ * `overlap` on every side that was extended. Never shrinks the original below half its size.
+ */
+export const keptRect = ({ width, height }: Size, padding: Padding, overlap = SEAM_OVERLAP): Rect => {
+  const inset = (side: OutpaintDirection, length: number) => padding[side] > 0 ? Math.min(overlap, Math.floor(length / 4)) : 0;
+  const top = inset('top', height);
+  const bottom = inset('bottom', height);
+  const left = inset('left', width);
+  const right = inset('right', width);
+  return {
+    x: padding.left + left,
+    y: padding.top + top,
+    width: width - left - right,
+    height: height - top - bottom,
+  };
+};
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { PROJECT_FILE_VERSION, parseProjectFile, projectFileName, serializeProject } from './projectFile';
+import type { ProjectState } from './projectFile';
+
+const png = { base64: 'iVBORw0KGgo=', mimeType: 'image/png' };
+
+const project: ProjectState = {
+  sceneDescription: 'A duel at dawn',
+  artisticStyle: 'cinematic',
+  lightingStyle: 'natural morning light',
+  cameraPerspective: 'wide shot',
+  aspectRatio: '16:9',
+  numberOfImages: 2,
+  characters: [{
+    id: 1,
+    name: 'Hero',
+    image: png,
+    libraryId: 'lib-1',
+    description: 'red scarf',
+    references: [{ id: 'ref-1', view: 'side', image: png }],
+  }],
+  objects: [{ id: 2, name: 'Sword', image: null }],
+  locationImage: png,
+  styleImage: null,
+  promptOverride: 'Two figures face each other.',
+  activeTemplateId: 'template-1',
+  activeTemplate: { name: 'Noir', body: 'A {{style}} noir still. {{scene}}' },
+  outputs: [{ image: 'data:image/png;base64,iVBORw0KGgo=', commentary: 'Added fog.', finishReason: 'STOP' }],
+};
+
+const withProject = (changes: Record<string, unknown>) => {
+  const data = JSON.parse(serializeProject(project));
+  return JSON.stringify({ ...data, project: { ...data.project, ...changes } });
+};
+
+describe('project files', () => {
+  it('round-trips the project state', () => {
+    const restored = parseProjectFile(serializeProject(project));
+    const stripIds = (state: ProjectState) => ({
+      ...state,
+      characters: state.characters.map(({ id: _id, ...rest }) => rest),
+      objects: state.objects.map(({ id: _id, ...rest }) => rest),
+    });
+    expect(stripIds(restored)).toEqual(stripIds(project));
+  });
+
+  it('gives every imported element a distinct id', () => {
+    const restored = parseProjectFile(serializeProject(project));
+    const ids = [...restored.characters, ...restored.objects].map(element => element.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('rejects files that are not projects', () => {
+    expect(() => parseProjectFile('not json')).toThrow('not valid JSON');
+    expect(() => parseProjectFile(JSON.stringify({ format: 'boukiane-prompt-templates', version: 1 }))).toThrow('Not a project file');
+  });
+
+  it('rejects versions it does not know', () => {
+    const newer = JSON.stringify({ ...JSON.parse(serializeProject(project)), version: PROJECT_FILE_VERSION + 1 });
+    expect(() => parseProjectFile(newer)).toThrow('Unsupported project file version');
+  });
+
+  it.each([
+    [{ sceneDescription: 42 }, '"sceneDescription" must be a string'],
+    [{ numberOfImages: 0 }, '"numberOfImages"'],
+    [{ characters: 'Hero' }, '"characters" must be a list'],
+    [{ objects: [{ name: 'Sword', image: { base64: 'x', mimeType: 'text/plain' } }] }, '"objects[0].image"'],
+    [{ characters: [{ name: 'Hero', image: null, references: [{ id: 'r', view: 'top', image: png }] }] }, '"characters[0].references[0].view"'],
+    [{ outputs: [{ image: 'https://example.com/a.png' }] }, '"outputs[0].image"'],
+    [{ activeTemplate: { name: 'Noir' } }, '"activeTemplate.body"'],
+  ])('names the invalid field %j', (changes, message) => {
+    expect(() => parseProjectFile(withProject(changes))).toThrow(message);
+  });
+
+  it('treats missing optional fields as empty', () => {
+    const restored = parseProjectFile(withProject({ promptOverride: undefined, activeTemplateId: undefined, activeTemplate: undefined, outputs: undefined }));
+    expect(restored.promptOverride).toBeNull();
+    expect(restored.activeTemplateId).toBeNull();
+    expect(restored.activeTemplate).toBeNull();
+    expect(restored.outputs).toEqual([]);
+  });
+});
+
+describe('projectFileName', () => {
+  it('builds a slug from the scene description', () => {
+    expect(projectFileName('A duel at dawn!')).toBe('a-duel-at-dawn.boukiane');
+  });
+
+  it('falls back to a generic name', () => {
+    expect(projectFileName('   ')).toBe('project.boukiane');
+  });
+});
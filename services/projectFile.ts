@@ -0,0 +1,164 @@
+import type { Character, CharacterReference, GeneratedOutput, ImageFile, PromptTemplate, ReferenceView } from '../types';
+
+export const PROJECT_FILE_FORMAT = 'boukiane-project';
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.boukiane';
+
+// The active template travels with the project, since the id alone means nothing on another machine
+export type ProjectTemplate = Pick<PromptTemplate, 'name' | 'body'>;
+
+/** Everything needed to rebuild the Generate tab on another machine. */
+export interface ProjectState {
+  sceneDescription: string;
+  artisticStyle: string;
+  lightingStyle: string;
+  cameraPerspective: string;
+  aspectRatio: string;
+  numberOfImages: number;
+  characters: Character[];
+  objects: Character[];
+  locationImage: ImageFile | null;
+  styleImage: ImageFile | null;
+  promptOverride: string | null;
+  activeTemplateId: string | null;
+  activeTemplate: ProjectTemplate | null; // null in files saved before templates were embedded
+  outputs: GeneratedOutput[];
+}
+
+const REFERENCE_VIEWS: ReferenceView[] = ['front', 'side', 'back', 'expressions', 'other'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const fail = (path: string, expected: string): never => {
+  throw new Error(`Invalid project file: "${path}" must be ${expected}.`);
+};
+
+const readString = (data: Record<string, unknown>, key: string, path: string): string =>
+  typeof data[key] === 'string' ? data[key] as string : fail(`${path}${key}`, 'a string');
+
+const readNullableString = (data: Record<string, unknown>, key: string, path: string): string | null =>
+  data[key] === null || data[key] === undefined ? null : readString(data, key, path);
+
+const readImage = (value: unknown, path: string): ImageFile => {
+  if (!isRecord(value) || typeof value.base64 !== 'string' || value.base64 === ''
+    || typeof value.mimeType !== 'string' || !value.mimeType.startsWith('image/')) {
+    return fail(path, 'an image with base64 data and an image/* MIME type');
+  }
+  return { base64: value.base64, mimeType: value.mimeType };
+};
+
+const readNullableImage = (value: unknown, path: string): ImageFile | null =>
+  value === null || value === undefined ? null : readImage(value, path);
+
+const readArray = (value: unknown, path: string): unknown[] =>
+  Array.isArray(value) ? value : fail(path, 'a list');
+
+const readReference = (value: unknown, path: string): CharacterReference => {
+  if (!isRecord(value)) return fail(path, 'an object');
+  const view = readString(value, 'view', `${path}.`);
+  if (!REFERENCE_VIEWS.includes(view as ReferenceView)) fail(`${path}.view`, `one of ${REFERENCE_VIEWS.join(', ')}`);
+  return { id: readString(value, 'id', `${path}.`), view: view as ReferenceView, image: readImage(value.image, `${path}.image`) };
+};
+
+const readTemplate = (value: unknown, path: string): ProjectTemplate | null => {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) return fail(path, 'an object');
+  return { name: readString(value, 'name', `${path}.`), body: readString(value, 'body', `${path}.`) };
+};
+
+// Element ids only need to be unique within this session, so imported elements get fresh ones
+const readElements = (value: unknown, path: string, baseId: number): Character[] =>
+  readArray(value, path).map((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    if (!isRecord(entry)) return fail(entryPath, 'an object');
+    const element: Character = {
+      id: baseId + index,
+      name: readString(entry, 'name', `${entryPath}.`),
+      image: readNullableImage(entry.image, `${entryPath}.image`),
+    };
+    if (entry.libraryId !== undefined) element.libraryId = readString(entry, 'libraryId', `${entryPath}.`);
+    if (entry.description !== undefined) element.description = readString(entry, 'description', `${entryPath}.`);
+    if (entry.references !== undefined) {
+      element.references = readArray(entry.references, `${entryPath}.references`)
+        .map((ref, refIndex) => readReference(ref, `${entryPath}.references[${refIndex}]`));
+    }
+    return element;
+  });
+
+const readOutputs = (value: unknown): GeneratedOutput[] =>
+  readArray(value ?? [], 'outputs').map((entry, index) => {
+    const path = `outputs[${index}]`;
+    if (!isRecord(entry)) return fail(path, 'an object');
+    const image = readString(entry, 'image', `${path}.`);
+    if (!image.startsWith('data:image/')) fail(`${path}.image`, 'an image data URL');
+    return {
+      image,
+      commentary: typeof entry.commentary === 'string' ? entry.commentary : '',
+      finishReason: readNullableString(entry, 'finishReason', `${path}.`),
+    };
+  });
+
+export const serializeProject = (project: ProjectState): string =>
+  JSON.stringify({
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    project: {
+      ...project,
+      // Session-only ids are not worth keeping
+      characters: project.characters.map(({ id: _id, ...element }) => element),
+      objects: project.objects.map(({ id: _id, ...element }) => element),
+    },
+  });
+
+/**
+ * Reads a saved project, checking the format, version and the shape of every field.
+ * Throws an Error naming the first problem found.
+ */
+export const parseProjectFile = (json: string): ProjectState => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a project file: the content is not valid JSON.');
+  }
+  if (!isRecord(data) || data.format !== PROJECT_FILE_FORMAT) {
+    throw new Error('Not a project file.');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1 || data.version > PROJECT_FILE_VERSION) {
+    throw new Error(`Unsupported project file version: ${String(data.version)}.`);
+  }
+  const project = data.project;
+  if (!isRecord(project)) return fail('project', 'an object');
+
+  const numberOfImages = project.numberOfImages;
+  if (typeof numberOfImages !== 'number' || !Number.isInteger(numberOfImages) || numberOfImages < 1) {
+    fail('numberOfImages', 'a positive whole number');
+  }
+
+  const baseId = Date.now();
+  const characters = readElements(project.characters, 'characters', baseId);
+  return {
+    sceneDescription: readString(project, 'sceneDescription', ''),
+    artisticStyle: readString(project, 'artisticStyle', ''),
+    lightingStyle: readString(project, 'lightingStyle', ''),
+    cameraPerspective: readString(project, 'cameraPerspective', ''),
+    aspectRatio: readString(project, 'aspectRatio', ''),
+    numberOfImages: numberOfImages as number,
+    characters,
+    objects: readElements(project.objects, 'objects', baseId + characters.length),
+    locationImage: readNullableImage(project.locationImage, 'locationImage'),
+    styleImage: readNullableImage(project.styleImage, 'styleImage'),
+    promptOverride: readNullableString(project, 'promptOverride', ''),
+    activeTemplateId: readNullableString(project, 'activeTemplateId', ''),
+    activeTemplate: readTemplate(project.activeTemplate, 'activeTemplate'),
+    outputs: readOutputs(project.outputs),
+  };
+};
+
+/** Turns the scene description into a short, filesystem-safe file name. */
+export const projectFileName = (sceneDescription: string): string => {
+  const slug = sceneDescription.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 40).replace(/-+$/, '');
+  return `${slug || 'project'}${PROJECT_FILE_EXTENSION}`;
+};
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import type { Character, ImageFile } from '../types';
+import {
+  LOCATION_INSTRUCTION,
+  MASK_INSTRUCTION,
+  OUTPAINT_INSTRUCTION,
+  STYLE_INSTRUCTION,
+  TRANSPARENCY_INSTRUCTION,
+  buildEditPrompt,
+  buildOutpaintPrompt,
+  buildScenePrompt,
+  collectReferenceImages,
+} from './promptBuilder';
+import type { SceneSpec } from './promptBuilder';
+
+const image = (id: string): ImageFile => ({ base64: id, mimeType: 'image/png' });
+
+const element = (id: number, name: string, withImage = true, extra: Partial<Character> = {}): Character => ({
+  id,
+  name,
+  image: withImage ? image(`img-${id}`) : null,
+  ...extra,
+});
+
+const baseSpec: SceneSpec = {
+  artisticStyle: 'photorealistic',
+  sceneDescription: '',
+  cameraPerspective: 'wide shot',
+  aspectRatio: '16:9',
+  lightingStyle: 'soft diffused lighting',
+  characters: [],
+  objects: [],
+  hasLocationImage: false,
+  hasStyleImage: false,
+};
+
+describe('buildScenePrompt', () => {
+  it('builds the minimal prompt from style, framing and lighting only', () => {
+    expect(buildScenePrompt(baseSpec)).toBe(
+      'Generate a cinematic image in a photorealistic style. Use a wide shot with a 16:9 aspect ratio. The lighting is soft diffused lighting.'
+    );
+  });
+
+  it('includes the scene description when present', () => {
+    const prompt = buildScenePrompt({ ...baseSpec, sceneDescription: 'a rainy street at dawn' });
+    expect(prompt).toContain('The scene is: a rainy street at dawn.');
+  });
+
+  it('keeps sections in a fixed order', () => {
+    const prompt = buildScenePrompt({
+      ...baseSpec,
+      sceneDescription: 'a market',
+      characters: [element(1, 'Hero')],
+      objects: [element(2, 'Lamp')],
+      hasLocationImage: true,
+      hasStyleImage: true,
+    });
+    const order = [
+      'Generate a cinematic image',
+      'The scene is:',
+      'Use a wide shot',
+      'The lighting is',
+      'Integrate the characters (Hero)',
+      'Integrate the objects (Lamp)',
+      LOCATION_INSTRUCTION,
+      STYLE_INSTRUCTION,
+      TRANSPARENCY_INSTRUCTION,
+    ].map(fragment => prompt.indexOf(fragment));
+    expect(order.every(index => index >= 0)).toBe(true);
+    expect([...order].sort((a, b) => a - b)).toEqual(order);
+  });
+
+  describe.each(
+    [false, true].flatMap(withCharacters =>
+      [false, true].flatMap(withObjects =>
+        [false, true].flatMap(withLocation =>
+          [false, true].map(withStyle => ({ withCharacters, withObjects, withLocation, withStyle }))
+        )
+      )
+    )
+  )('characters=$withCharacters objects=$withObjects location=$withLocation style=$withStyle', ({ withCharacters, withObjects, withLocation, withStyle }) => {
+    const prompt = buildScenePrompt({
+      ...baseSpec,
+      characters: withCharacters ? [element(1, 'Hero'), element(2, 'Sidekick')] : [],
+      objects: withObjects ? [element(3, 'Sword')] : [],
+      hasLocationImage: withLocation,
+      hasStyleImage: withStyle,
+    });
+
+    it('names the characters only when they have images', () => {
+      expect(prompt.includes('Integrate the characters (Hero), (Sidekick) from their reference images.')).toBe(withCharacters);
+    });
+
+    it('names the objects only when they have images', () => {
+      expect(prompt.includes('Integrate the objects (Sword) from their reference images.')).toBe(withObjects);
+    });
+
+    it('mentions the location image only when provided', () => {
+      expect(prompt.includes(LOCATION_INSTRUCTION)).toBe(withLocation);
+    });
+
+    it('mentions the style image only when provided', () => {
+      expect(prompt.includes(STYLE_INSTRUCTION)).toBe(withStyle);
+    });
+
+    it('adds the transparency instruction only for character or object references', () => {
+      expect(prompt.includes(TRANSPARENCY_INSTRUCTION)).toBe(withCharacters || withObjects);
+    });
+  });
+
+  it('skips elements without an image or with a blank name', () => {
+    const prompt = buildScenePrompt({
+      ...baseSpec,
+      characters: [element(1, 'Hero'), element(2, 'Ghost', false), element(3, '   ')],
+    });
+    expect(prompt).toContain('Integrate the characters (Hero) from their reference images.');
+    expect(prompt).not.toContain('Ghost');
+  });
+
+  it('still adds the transparency instruction for an unnamed element with an image', () => {
+    const prompt = buildScenePrompt({ ...baseSpec, objects: [element(1, '')] });
+    expect(prompt).not.toContain('Integrate the objects');
+    expect(prompt).toContain(TRANSPARENCY_INSTRUCTION);
+  });
+
+  it('trims element names', () => {
+    const prompt = buildScenePrompt({ ...baseSpec, characters: [element(1, '  Hero  ')] });
+    expect(prompt).toContain('(Hero)');
+  });
+
+  it('describes library references and descriptions under a consistent name', () => {
+    const hero = element(1, 'Hero', true, {
+      description: 'a tall woman with a red scarf',
+      references: [
+        { id: 'r1', view: 'side', image: image('side') },
+        { id: 'r2', view: 'expressions', image: image('expressions') },
+      ],
+    });
+    const prompt = buildScenePrompt({ ...baseSpec, characters: [hero] });
+    expect(prompt).toContain('(Hero) has 3 reference images (main, side, expressions) that all show the same (Hero)');
+    expect(prompt).toContain('(Hero): a tall woman with a red scarf.');
+  });
+});
+
+describe('buildEditPrompt', () => {
+  const withMaskCases = [false, true].flatMap(withCharacters =>
+    [false, true].flatMap(withObjects =>
+      [false, true].map(withMask => ({ withCharacters, withObjects, withMask }))
+    )
+  );
+
+  it.each(withMaskCases)('characters=$withCharacters objects=$withObjects mask=$withMask', ({ withCharacters, withObjects, withMask }) => {
+    const prompt = buildEditPrompt({
+      instruction: 'make it night',
+      characters: withCharacters ? [element(1, 'Hero')] : [],
+      objects: withObjects ? [element(2, 'Lamp')] : [],
+      hasMask: withMask,
+    });
+    expect(prompt.startsWith('Apply this edit to the base image: make it night.')).toBe(true);
+    expect(prompt.includes(MASK_INSTRUCTION)).toBe(withMask);
+    expect(prompt.includes('Use the provided reference images for these characters: (Hero).')).toBe(withCharacters);
+    expect(prompt.includes('Use the provided reference images for these objects: (Lamp).')).toBe(withObjects);
+  });
+
+  it('places the mask instruction before the reference instructions', () => {
+    const prompt = buildEditPrompt({ instruction: 'x', characters: [element(1, 'Hero')], objects: [], hasMask: true });
+    expect(prompt.indexOf(MASK_INSTRUCTION)).toBeLessThan(prompt.indexOf('Use the provided reference images'));
+  });
+
+  it('ignores elements without an image', () => {
+    const prompt = buildEditPrompt({ instruction: 'x', characters: [element(1, 'Hero', false)], objects: [], hasMask: false });
+    expect(prompt).toBe('Apply this edit to the base image: x.');
+  });
+});
+
+describe('collectReferenceImages', () => {
+  it('orders the location first, then characters with their extra views, then objects', () => {
+    const hero = element(1, 'Hero', true, { references: [{ id: 'r1', view: 'side', image: image('side') }] });
+    const images = collectReferenceImages(image('location'), [hero, element(2, 'Empty', false)], [element(3, 'Lamp')]);
+    expect(images.map(i => i.base64)).toEqual(['location', 'img-1', 'side', 'img-3']);
+  });
+
+  it('omits the location when missing', () => {
+    expect(collectReferenceImages(null, [], [])).toEqual([]);
+  });
+});
+
+describe('buildOutpaintPrompt', () => {
+  it('names the extended edges and always includes the mask and seam instructions', () => {
+    const prompt = buildOutpaintPrompt({ instruction: '', characters: [], objects: [], directions: ['top', 'left', 'right'] });
+    expect(prompt).toContain('beyond its top, left and right edges');
+    expect(prompt).not.toContain('In the new area');
+    expect(prompt).toContain(MASK_INSTRUCTION);
+    expect(prompt).toContain(OUTPAINT_INSTRUCTION);
+  });
+
+  it('describes the new area and references when given', () => {
+    const prompt = buildOutpaintPrompt({ instruction: ' a harbour ', characters: [element(1, 'Hero')], objects: [], directions: ['bottom'] });
+    expect(prompt).toContain('beyond its bottom edge');
+    expect(prompt).toContain('In the new area: a harbour.');
+    expect(prompt).toContain('Use the provided reference images for these characters: (Hero).');
+  });
+});
@@ -0,0 +1,166 @@
+import type { Character, ImageFile } from '../types';
+import type { OutpaintDirection } from './outpaint';
+
+/** Everything the Generate and Storyboard tabs feed into a scene prompt. */
+export interface SceneSpec {
+  artisticStyle: string;
+  sceneDescription: string;
+  cameraPerspective: string;
+  aspectRatio: string;
+  lightingStyle: string;
+  characters: Character[];
+  objects: Character[];
+  hasLocationImage: boolean;
+  hasStyleImage: boolean;
+}
+
+/** Everything the Edit tab feeds into an edit prompt. */
+export interface EditSpec {
+  instruction: string;
+  characters: Character[];
+  objects: Character[];
+  hasMask: boolean;
+}
+
+/** Everything the Edit tab's outpainting mode feeds into its prompt. */
+export interface OutpaintSpec {
+  instruction: string;
+  characters: Character[];
+  objects: Character[];
+  directions: OutpaintDirection[];
+}
+
+export const TRANSPARENCY_INSTRUCTION = `CRITICAL INSTRUCTION: For any reference images with transparent padding, you must fill these transparent areas by extending the generated scene into them. The final image must be a complete, seamless scene from edge to edge. DO NOT render black bars, borders, letterboxing, or pillarboxing. The subjects from the reference images must be perfectly and naturally integrated into the new environment.`;
+
+export const LOCATION_INSTRUCTION = 'Use the provided "Scene Location" image as the background environment.';
+
+export const STYLE_INSTRUCTION = 'Use the "Style Reference" image to influence the overall visual style and color palette.';
+
+export const MASK_INSTRUCTION = `The second image is a black and white mask of the base image. Change ONLY the area that is white in the mask; every pixel in the black area must remain exactly as it is in the base image, and the edited area must blend seamlessly with its surroundings.`;
+
+export const OUTPAINT_INSTRUCTION = `Match the perspective, lighting, colour grading and grain of the original exactly so no seam is visible. The final image must be a complete scene from edge to edge: DO NOT leave any transparent, black or blank borders.`;
+
+// All images belonging to an element: the main image followed by any library reference views.
+export const characterImagesOf = (element: Character): ImageFile[] => {
+  if (!element.image) return [];
+  return [element.image, ...(element.references ?? []).map(ref => ref.image)];
+};
+
+// Reference images are sent location first, then characters, then objects.
+export const collectReferenceImages = (locationImage: ImageFile | null, characters: Character[], objects: Character[]): ImageFile[] => {
+  const characterImages = characters.flatMap(characterImagesOf);
+  const elementImages = objects.flatMap(characterImagesOf);
+  return [...(locationImage ? [locationImage] : []), ...characterImages, ...elementImages];
+};
+
+// "(Name), (Other)" for every element that has both an image and a name
+export const namedWithImage = (elements: Character[]): string =>
+  elements
+    .filter(e => e.image !== null && e.name.trim() !== '')
+    .map(e => `(${e.name.trim()})`)
+    .join(', ');
+
+// Names each library-backed element the same way every time so the model ties all of its references together.
+export const describeCharacterReferences = (elements: Character[]): string => {
+  return elements
+    .filter(e => e.image !== null && e.name.trim() !== '')
+    .flatMap(e => {
+      const name = `(${e.name.trim()})`;
+      const sentences: string[] = [];
+      if (e.references && e.references.length > 0) {
+        const views = ['main', ...e.references.map(ref => ref.view)].join(', ');
+        sentences.push(`${name} has ${e.references.length + 1} reference images (${views}) that all show the same ${name}; keep the face, hair, body and outfit identical to them.`);
+      }
+      if (e.description?.trim()) {
+        sentences.push(`${name}: ${e.description.trim()}.`);
+      }
+      return sentences;
+    })
+    .join(' ');
+};
+
+export const buildScenePrompt = ({
+  artisticStyle,
+  sceneDescription,
+  cameraPerspective,
+  aspectRatio,
+  lightingStyle,
+  characters,
+  objects,
+  hasLocationImage,
+  hasStyleImage,
+}: SceneSpec): string => {
+  const hasCharacterImage = characters.some(c => c.image !== null);
+  const hasElementImage = objects.some(e => e.image !== null);
+  const characterNames = namedWithImage(characters);
+  const elementNames = namedWithImage(objects);
+
+  const promptParts: string[] = [];
+
+  // 1. Core Request & Style
+  promptParts.push(`Generate a cinematic image in a ${artisticStyle} style.`);
+
+  // 2. Scene Description
+  if (sceneDescription) {
+    promptParts.push(`The scene is: ${sceneDescription}.`);
+  }
+
+  // 3. Composition & Framing
+  promptParts.push(`Use a ${cameraPerspective} with a ${aspectRatio} aspect ratio.`);
+
+  // 4. Lighting
+  promptParts.push(`The lighting is ${lightingStyle}.`);
+
+  // 5. Content & Integration
+  const characterIntegration = characterNames ? `Integrate the characters ${characterNames} from their reference images.` : '';
+  const elementIntegration = elementNames ? `Integrate the objects ${elementNames} from their reference images.` : '';
+  const referenceDetails = describeCharacterReferences([...characters, ...objects]);
+  const locationIntegration = hasLocationImage ? LOCATION_INSTRUCTION : '';
+
+  const integrationInstructions = [characterIntegration, elementIntegration, referenceDetails, locationIntegration].filter(Boolean).join(' ');
+  if (integrationInstructions) {
+    promptParts.push(integrationInstructions);
+  }
+
+  // 6. Style Image
+  if (hasStyleImage) {
+    promptParts.push(STYLE_INSTRUCTION);
+  }
+
+  // 7. Critical Transparency Instruction
+  if (hasCharacterImage || hasElementImage) {
+    promptParts.push(TRANSPARENCY_INSTRUCTION);
+  }
+
+  return promptParts.filter(p => p).join(' ');
+};
+
+export const buildEditPrompt = ({ instruction, characters, objects, hasMask }: EditSpec): string => {
+  const charNames = characters.filter(c => c.image).map(c => `(${c.name})`).join(', ');
+  const objNames = objects.filter(o => o.image).map(o => `(${o.name})`).join(', ');
+  const referenceDetails = describeCharacterReferences([...characters, ...objects]);
+
+  let prompt = `Apply this edit to the base image: ${instruction}.`;
+  if (hasMask) prompt += ` ${MASK_INSTRUCTION}`;
+  if (charNames) prompt += ` Use the provided reference images for these characters: ${charNames}.`;
+  if (objNames) prompt += ` Use the provided reference images for these objects: ${objNames}.`;
+  if (referenceDetails) prompt += ` ${referenceDetails}`;
+  return prompt;
+};
+
+const joinWords = (words: string[]): string =>
+  words.length <= 1 ? words.join('') : `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+
+export const buildOutpaintPrompt = ({ instruction, characters, objects, directions }: OutpaintSpec): string => {
+  const charNames = characters.filter(c => c.image).map(c => `(${c.name})`).join(', ');
+  const objNames = objects.filter(o => o.image).map(o => `(${o.name})`).join(', ');
+  const referenceDetails = describeCharacterReferences([...characters, ...objects]);
+
+  let prompt = `Extend the base image beyond its ${joinWords(directions)} ${directions.length > 1 ? 'edges' : 'edge'} by filling the transparent canvas around it, continuing the existing scene naturally.`;
+  if (instruction.trim()) prompt += ` In the new area: ${instruction.trim()}.`;
+  prompt += ` ${MASK_INSTRUCTION} ${OUTPAINT_INSTRUCTION}`;
+  if (charNames) prompt += ` Use the provided reference images for these characters: ${charNames}.`;
+  if (objNames) prompt += ` Use the provided reference images for these objects: ${objNames}.`;
+  if (referenceDetails) prompt += ` ${referenceDetails}`;
+  return prompt;
+};
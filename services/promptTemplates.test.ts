@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import type { Character } from '../types';
+import { buildScenePrompt } from './promptBuilder';
+import type { SceneSpec } from './promptBuilder';
+import {
+  DEFAULT_TEMPLATE_BODY,
+  findProjectTemplate,
+  isTemplateValid,
+  parsePromptTemplateFile,
+  parseTemplate,
+  renderTemplate,
+  serializePromptTemplates,
+  templateVariablesFromSpec,
+  validateTemplate,
+} from './promptTemplates';
+
+const element = (id: number, name: string): Character => ({
+  id,
+  name,
+  image: { base64: `img-${id}`, mimeType: 'image/png' },
+});
+
+const spec: SceneSpec = {
+  artisticStyle: 'film noir',
+  sceneDescription: 'a detective under a streetlight',
+  cameraPerspective: 'low-angle shot',
+  aspectRatio: '2.39:1',
+  lightingStyle: 'night cinematic lighting',
+  characters: [],
+  objects: [],
+  hasLocationImage: false,
+  hasStyleImage: false,
+};
+
+describe('renderTemplate', () => {
+  it('substitutes variables', () => {
+    expect(renderTemplate('A {{style}} shot, {{aspect}}.', { style: 'noir', aspect: '16:9' })).toBe('A noir shot, 16:9.');
+  });
+
+  it('tolerates whitespace inside tags', () => {
+    expect(renderTemplate('{{ style }}', { style: 'noir' })).toBe('noir');
+  });
+
+  it('renders the if branch only when the variable has a value', () => {
+    const body = 'Start.{{#if scene}} Scene: {{scene}}.{{/if}} End.';
+    expect(renderTemplate(body, { scene: 'a port' })).toBe('Start. Scene: a port. End.');
+    expect(renderTemplate(body, { scene: '' })).toBe('Start. End.');
+  });
+
+  it('renders the else branch when the variable is empty', () => {
+    const body = '{{#if characters}}With {{characters}}{{else}}No cast{{/if}}';
+    expect(renderTemplate(body, { characters: '(Hero)' })).toBe('With (Hero)');
+    expect(renderTemplate(body, {})).toBe('No cast');
+  });
+
+  it('supports nested blocks', () => {
+    const body = '{{#if scene}}S{{#if location}}+L{{/if}}{{/if}}';
+    expect(renderTemplate(body, { scene: 'x', location: 'yes' })).toBe('S+L');
+    expect(renderTemplate(body, { scene: 'x' })).toBe('S');
+    expect(renderTemplate(body, { location: 'yes' })).toBe('');
+  });
+
+  it('reproduces the built-in prompt with the default template', () => {
+    const full: SceneSpec = {
+      ...spec,
+      characters: [element(1, 'Hero')],
+      objects: [element(2, 'Hat')],
+      hasLocationImage: true,
+      hasStyleImage: true,
+    };
+    for (const candidate of [spec, full, { ...spec, sceneDescription: '' }]) {
+      expect(renderTemplate(DEFAULT_TEMPLATE_BODY, templateVariablesFromSpec(candidate))).toBe(buildScenePrompt(candidate));
+    }
+  });
+});
+
+describe('parseTemplate', () => {
+  it.each([
+    ['{{#if scene}}open', 'unclosedIf'],
+    ['{{else}}', 'unexpectedElse'],
+    ['{{#if scene}}a{{else}}b{{else}}c{{/if}}', 'unexpectedElse'],
+    ['text{{/if}}', 'unexpectedEndIf'],
+    ['{{ two words }}', 'malformedTag'],
+    ['{{}}', 'malformedTag'],
+  ])('reports %s as %s', (body, code) => {
+    expect(parseTemplate(body).errors.map(e => e.code)).toContain(code);
+  });
+
+  it('accepts a well-formed template', () => {
+    expect(parseTemplate(DEFAULT_TEMPLATE_BODY).errors).toEqual([]);
+  });
+});
+
+describe('validateTemplate', () => {
+  it('flags variables used without a value', () => {
+    const validation = validateTemplate('{{style}} {{scene}} {{characters}}', templateVariablesFromSpec({ ...spec, sceneDescription: '' }));
+    expect(validation.missingVariables).toEqual(['scene', 'characters']);
+    expect(isTemplateValid(validation)).toBe(false);
+  });
+
+  it('does not flag variables guarded by their own if block', () => {
+    const validation = validateTemplate('{{#if characters}}{{characters}}{{/if}}', templateVariablesFromSpec(spec));
+    expect(validation.missingVariables).toEqual([]);
+  });
+
+  it('still flags variables used in the else branch of their own guard', () => {
+    const validation = validateTemplate('{{#if characters}}x{{else}}{{characters}}{{/if}}', templateVariablesFromSpec(spec));
+    expect(validation.missingVariables).toEqual(['characters']);
+  });
+
+  it('flags unknown variables', () => {
+    const validation = validateTemplate('{{mood}} {{#if weather}}rain{{/if}}', templateVariablesFromSpec(spec));
+    expect(validation.unknownVariables).toEqual(['mood', 'weather']);
+  });
+
+  it('accepts the default template for any scene', () => {
+    expect(isTemplateValid(validateTemplate(DEFAULT_TEMPLATE_BODY, templateVariablesFromSpec(spec)))).toBe(true);
+  });
+});
+
+describe('template files', () => {
+  it('round-trips templates with fresh ids', () => {
+    const templates = [{ id: 'a', name: 'Noir', body: '{{style}}', updatedAt: '2024-01-01T00:00:00.000Z' }];
+    const imported = parsePromptTemplateFile(serializePromptTemplates(templates));
+    expect(imported).toHaveLength(1);
+    expect(imported[0]).toMatchObject({ name: 'Noir', body: '{{style}}' });
+    expect(imported[0].id).not.toBe('a');
+  });
+
+  it('rejects other JSON files', () => {
+    expect(() => parsePromptTemplateFile('{"templates": []}')).toThrow();
+    expect(() => parsePromptTemplateFile('not json')).toThrow();
+  });
+
+  it('rejects newer file versions', () => {
+    expect(() => parsePromptTemplateFile('{"format":"boukiane-prompt-templates","version":99,"templates":[]}')).toThrow();
+  });
+});
+
+describe('findProjectTemplate', () => {
+  const stored = [
+    { id: 'a', name: 'Noir', body: '{{style}} noir', updatedAt: '2024-01-01T00:00:00.000Z' },
+    { id: 'b', name: 'Poster', body: '{{scene}} poster', updatedAt: '2024-01-01T00:00:00.000Z' },
+  ];
+
+  it('matches by id, or by name and body when the id is unknown here', () => {
+    expect(findProjectTemplate(stored, 'a', { name: 'Renamed', body: '{{style}} noir' })?.id).toBe('a');
+    expect(findProjectTemplate(stored, 'elsewhere', { name: 'Poster', body: '{{scene}} poster' })?.id).toBe('b');
+  });
+
+  it('ignores a template whose body changed since the project was saved', () => {
+    expect(findProjectTemplate(stored, 'a', { name: 'Noir', body: '{{style}} noir, grainy' })).toBeNull();
+  });
+
+  it('falls back to the id for projects saved without the template', () => {
+    expect(findProjectTemplate(stored, 'b', null)?.id).toBe('b');
+    expect(findProjectTemplate(stored, 'deleted', null)).toBeNull();
+  });
+});
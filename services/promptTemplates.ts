@@ -0,0 +1,242 @@
+import type { PromptTemplate } from '../types';
+import type { SceneSpec } from './promptBuilder';
+import { TRANSPARENCY_INSTRUCTION, describeCharacterReferences, namedWithImage } from './promptBuilder';
+import { STORES, deleteRecord, getAllRecords, putRecord } from './db';
+
+export const TEMPLATE_VARIABLES = [
+  'style',
+  'scene',
+  'characters',
+  'objects',
+  'lighting',
+  'camera',
+  'aspect',
+  'location',
+  'styleImage',
+  'references',
+  'transparency',
+] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+export type TemplateVariables = Record<TemplateVariable, string>;
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; name: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export type TemplateSyntaxErrorCode = 'unclosedIf' | 'unexpectedElse' | 'unexpectedEndIf' | 'malformedTag';
+
+export interface TemplateSyntaxError {
+  code: TemplateSyntaxErrorCode;
+  tag: string;
+}
+
+export interface TemplateValidation {
+  syntaxErrors: TemplateSyntaxError[];
+  unknownVariables: string[];
+  // Variables used outside an `{{#if name}}` guard that have no value for the current scene
+  missingVariables: string[];
+}
+
+export const TEMPLATE_EXPORT_FORMAT = 'boukiane-prompt-templates';
+const TEMPLATE_EXPORT_VERSION = 1;
+
+export const DEFAULT_TEMPLATE_BODY = `Generate a cinematic image in a {{style}} style.{{#if scene}} The scene is: {{scene}}.{{/if}} Use a {{camera}} with a {{aspect}} aspect ratio. The lighting is {{lighting}}.{{#if characters}} Integrate the characters {{characters}} from their reference images.{{/if}}{{#if objects}} Integrate the objects {{objects}} from their reference images.{{/if}}{{#if references}} {{references}}{{/if}}{{#if location}} Use the provided "Scene Location" image as the background environment.{{/if}}{{#if styleImage}} Use the "Style Reference" image to influence the overall visual style and color palette.{{/if}}{{#if transparency}} {{transparency}}{{/if}}`;
+
+const TAG_PATTERN = /\{\{([^}]*)\}\}/g;
+
+const isKnownVariable = (name: string): name is TemplateVariable =>
+  (TEMPLATE_VARIABLES as readonly string[]).includes(name);
+
+/** Parses a template into a node tree, collecting syntax errors instead of throwing. */
+export const parseTemplate = (body: string): { nodes: TemplateNode[]; errors: TemplateSyntaxError[] } => {
+  const root: TemplateNode[] = [];
+  const errors: TemplateSyntaxError[] = [];
+  // Each open `if` block remembers which branch new nodes go into
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean; tag: string }[] = [];
+
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of body.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: body.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    const tag = match[0];
+    const content = match[1].trim();
+    const ifMatch = content.match(/^#if\s+([A-Za-z]\w*)$/);
+
+    if (ifMatch) {
+      const node: TemplateNode = { type: 'if', name: ifMatch[1], then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false, tag });
+    } else if (content === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        errors.push({ code: 'unexpectedElse', tag });
+      } else {
+        top.inElse = true;
+      }
+    } else if (content === '/if') {
+      if (!stack.pop()) {
+        errors.push({ code: 'unexpectedEndIf', tag });
+      }
+    } else if (/^[A-Za-z]\w*$/.test(content)) {
+      current().push({ type: 'var', name: content });
+    } else {
+      errors.push({ code: 'malformedTag', tag });
+    }
+  }
+  if (lastIndex < body.length) {
+    current().push({ type: 'text', value: body.slice(lastIndex) });
+  }
+  stack.forEach(open => errors.push({ code: 'unclosedIf', tag: open.tag }));
+
+  return { nodes: root, errors };
+};
+
+const renderNodes = (nodes: TemplateNode[], variables: Partial<Record<string, string>>): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return node.value;
+    if (node.type === 'var') return variables[node.name] ?? '';
+    return renderNodes(variables[node.name]?.trim() ? node.then : node.otherwise, variables);
+  }).join('');
+
+/** Renders a template; conditional blocks can leave doubled spaces behind, so whitespace runs are collapsed. */
+export const renderTemplate = (body: string, variables: Partial<Record<string, string>>): string => {
+  const { nodes } = parseTemplate(body);
+  return renderNodes(nodes, variables)
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+export const validateTemplate = (body: string, variables: Partial<Record<string, string>>): TemplateValidation => {
+  const { nodes, errors } = parseTemplate(body);
+  const unknown = new Set<string>();
+  const missing = new Set<string>();
+
+  const visit = (list: TemplateNode[], guarded: Set<string>) => {
+    list.forEach(node => {
+      if (node.type === 'text') return;
+      if (!isKnownVariable(node.name)) {
+        unknown.add(node.name);
+      }
+      if (node.type === 'var') {
+        if (isKnownVariable(node.name) && !guarded.has(node.name) && !variables[node.name]?.trim()) {
+          missing.add(node.name);
+        }
+      } else if (node.type === 'if') {
+        visit(node.then, new Set(guarded).add(node.name));
+        visit(node.otherwise, guarded);
+      }
+    });
+  };
+  visit(nodes, new Set());
+
+  return {
+    syntaxErrors: errors,
+    unknownVariables: [...unknown],
+    missingVariables: [...missing],
+  };
+};
+
+export const isTemplateValid = (validation: TemplateValidation): boolean =>
+  validation.syntaxErrors.length === 0 && validation.unknownVariables.length === 0 && validation.missingVariables.length === 0;
+
+/** Exposes a scene as template variables; an empty string means the value is not available. */
+export const templateVariablesFromSpec = (spec: SceneSpec): TemplateVariables => {
+  const hasReferenceImages = [...spec.characters, ...spec.objects].some(e => e.image !== null);
+  return {
+    style: spec.artisticStyle,
+    scene: spec.sceneDescription.trim(),
+    characters: namedWithImage(spec.characters),
+    objects: namedWithImage(spec.objects),
+    lighting: spec.lightingStyle,
+    camera: spec.cameraPerspective,
+    aspect: spec.aspectRatio,
+    location: spec.hasLocationImage ? 'yes' : '',
+    styleImage: spec.hasStyleImage ? 'yes' : '',
+    references: describeCharacterReferences([...spec.characters, ...spec.objects]),
+    transparency: hasReferenceImages ? TRANSPARENCY_INSTRUCTION : '',
+  };
+};
+
+// --- Persistence ---
+
+const ACTIVE_TEMPLATE_KEY = 'activePromptTemplateId';
+
+// null means the built-in prompt builder
+export const getActiveTemplateId = (): string | null => localStorage.getItem(ACTIVE_TEMPLATE_KEY);
+
+export const setActiveTemplateId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_TEMPLATE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_TEMPLATE_KEY);
+  }
+};
+
+/**
+ * Finds the stored template a project was saved with: the same id with the same body, else any
+ * template with the same name and body. Without the saved content only the id can match.
+ */
+export const findProjectTemplate = (
+  templates: PromptTemplate[],
+  id: string | null,
+  saved: Pick<PromptTemplate, 'name' | 'body'> | null
+): PromptTemplate | null => {
+  if (!saved) return templates.find(t => t.id === id) ?? null;
+  return templates.find(t => t.id === id && t.body === saved.body)
+    ?? templates.find(t => t.name === saved.name && t.body === saved.body)
+    ?? null;
+};
+
+export const loadPromptTemplates = async (): Promise<PromptTemplate[]> => {
+  const templates = await getAllRecords<PromptTemplate>(STORES.promptTemplates);
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePromptTemplate = (template: PromptTemplate): Promise<void> => {
+  return putRecord(STORES.promptTemplates, template);
+};
+
+export const deletePromptTemplate = (id: string): Promise<void> => {
+  return deleteRecord(STORES.promptTemplates, id);
+};
+
+export const serializePromptTemplates = (templates: PromptTemplate[]): string =>
+  JSON.stringify({ format: TEMPLATE_EXPORT_FORMAT, version: TEMPLATE_EXPORT_VERSION, templates }, null, 2);
+
+/**
+ * Reads an exported template file. Imported templates get fresh ids so they never overwrite
+ * existing ones. Throws when the file is not a template export.
+ */
+export const parsePromptTemplateFile = (json: string): PromptTemplate[] => {
+  const data = JSON.parse(json);
+  if (data?.format !== TEMPLATE_EXPORT_FORMAT || !Array.isArray(data.templates)) {
+    throw new Error('Not a prompt template file.');
+  }
+  if (typeof data.version !== 'number' || data.version > TEMPLATE_EXPORT_VERSION) {
+    throw new Error(`Unsupported prompt template file version: ${data.version}.`);
+  }
+  const now = Date.now();
+  return data.templates
+    .filter((t: unknown): t is PromptTemplate =>
+      typeof (t as PromptTemplate)?.name === 'string' && typeof (t as PromptTemplate)?.body === 'string')
+    .map((t: PromptTemplate, index: number) => ({
+      id: `template-${now}-${index}`,
+      name: t.name,
+      body: t.body,
+      updatedAt: new Date().toISOString(),
+    }));
+};
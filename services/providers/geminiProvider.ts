@@ -0,0 +1,128 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { SafetyRating } from "@google/genai";
+import type { GenerateImageParams, GenerationResult, ImageProvider, SafetyRatingSummary } from '../imageProvider';
+import { GenerationError, formatHarmCategory, isSafetyReason } from '../generationErrors';
+
+const blockedCategories = (ratings: SafetyRating[] | undefined): string[] =>
+  (ratings ?? []).filter(r => r.blocked && r.category).map(r => formatHarmCategory(String(r.category)));
+
+const summarizeRatings = (ratings: SafetyRating[] | undefined): SafetyRatingSummary[] =>
+  (ratings ?? []).filter(r => r.category).map(r => ({
+    category: formatHarmCategory(String(r.category)),
+    probability: r.probability ? String(r.probability) : null,
+    blocked: !!r.blocked,
+  }));
+
+export const createGeminiProvider = (apiKey: string | undefined): ImageProvider => {
+  let ai: GoogleGenAI | null = null;
+
+  // The client is created lazily so a missing key only fails the request, not the app.
+  const getClient = (): GoogleGenAI => {
+    if (!apiKey) {
+      throw new Error("API_KEY environment variable is not set");
+    }
+    if (!ai) {
+      ai = new GoogleGenAI({ apiKey });
+    }
+    return ai;
+  };
+
+  const generateImage = async ({
+    prompt,
+    characterImages,
+    styleImage,
+    baseImage,
+    maskImage,
+    signal,
+  }: GenerateImageParams): Promise<GenerationResult> => {
+    const parts: any[] = [];
+
+    // Order for editing: base image, then mask (if available), then other images, then prompt
+    if (baseImage) {
+        parts.push({
+            inlineData: {
+                data: baseImage.base64,
+                mimeType: baseImage.mimeType,
+            },
+        });
+    }
+
+    if (maskImage) {
+        parts.push({
+            inlineData: {
+                data: maskImage.base64,
+                mimeType: maskImage.mimeType,
+            },
+        });
+    }
+
+    characterImages.forEach(charImg => {
+      parts.push({
+        inlineData: {
+          data: charImg.base64,
+          mimeType: charImg.mimeType,
+        },
+      });
+    });
+
+    if (styleImage) {
+      parts.push({
+        inlineData: {
+          data: styleImage.base64,
+          mimeType: styleImage.mimeType,
+        },
+      });
+    }
+
+    parts.push({ text: prompt });
+
+    const response = await getClient().models.generateContent({
+      model: 'gemini-2.5-flash-image',
+      contents: { parts },
+      config: {
+        responseModalities: [Modality.IMAGE, Modality.TEXT],
+        abortSignal: signal,
+      },
+    });
+    
+    const candidate = response.candidates?.[0];
+
+    // The whole prompt can be refused before any candidate is produced
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new GenerationError(
+        isSafetyReason(blockReason) || blockReason === 'OTHER' ? 'safetyBlocked' : 'noImage',
+        `The prompt was blocked (${blockReason}).`,
+        { safetyCategories: blockedCategories(response.promptFeedback?.safetyRatings) }
+      );
+    }
+
+    const responseParts = candidate?.content?.parts ?? [];
+    const images = responseParts.flatMap(part =>
+      part.inlineData?.data ? [`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`] : []
+    );
+    if (images.length > 0) {
+      return {
+        images,
+        // Thought summaries are not commentary meant for the user
+        text: responseParts.filter(part => part.text && !part.thought).map(part => part.text!.trim()).join('\n\n'),
+        finishReason: candidate?.finishReason ? String(candidate.finishReason) : null,
+        safetyRatings: summarizeRatings(candidate?.safetyRatings),
+      };
+    }
+
+    const finishReason = candidate?.finishReason;
+    const categories = blockedCategories(candidate?.safetyRatings);
+    if (isSafetyReason(finishReason) || categories.length > 0) {
+      throw new GenerationError('safetyBlocked', `The request was blocked for safety reasons (${categories.join(', ') || finishReason}).`, {
+        safetyCategories: categories,
+      });
+    }
+    const reason = finishReason && finishReason !== 'STOP' ? ` Reason: ${finishReason}.` : '';
+    throw new GenerationError('noImage', candidate?.content?.parts
+      ? `No image was generated by the model, although a response was received.${reason}`
+      : `The model did not return any content.${reason}`);
+  };
+
+  return { name: 'gemini', generateImage };
+};
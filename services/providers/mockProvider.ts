@@ -0,0 +1,161 @@
+import type { ImageFile } from '../../types';
+import type { GenerateImageParams, GenerationResult, ImageProvider } from '../imageProvider';
+import { sleep } from '../generationRequest';
+import { GENERATION_ERROR_CODES, GenerationError } from '../generationErrors';
+import type { GenerationErrorCode } from '../generationErrors';
+
+const MOCK_LONGEST_SIDE = 1024;
+const MOCK_LATENCY_MS = 600;
+
+// FNV-1a, so the same prompt always yields the same colours.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// Picks up the "16:9 aspect ratio" wording used by the prompt builder, defaulting to 16:9.
+const aspectRatioFromPrompt = (prompt: string): number => {
+    const match = prompt.match(/(\d+(?:\.\d+)?):(\d+(?:\.\d+)?) aspect ratio/);
+    if (!match) return 16 / 9;
+    const ratio = parseFloat(match[1]) / parseFloat(match[2]);
+    return Number.isFinite(ratio) && ratio > 0 ? ratio : 16 / 9;
+};
+
+const loadImage = (image: ImageFile): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load reference image for the mock provider.'));
+        img.src = `data:${image.mimeType};base64,${image.base64}`;
+    });
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (ctx.measureText(candidate).width > maxWidth && current) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = candidate;
+        }
+    }
+    if (current) lines.push(current);
+    return lines;
+};
+
+const renderPlaceholder = async ({
+    prompt,
+    characterImages,
+    styleImage,
+    baseImage,
+    maskImage,
+}: GenerateImageParams): Promise<string> => {
+    const base = baseImage ? await loadImage(baseImage) : null;
+    const ratio = base ? base.naturalWidth / base.naturalHeight : aspectRatioFromPrompt(prompt);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(ratio >= 1 ? MOCK_LONGEST_SIDE : MOCK_LONGEST_SIDE * ratio);
+    canvas.height = Math.round(ratio >= 1 ? MOCK_LONGEST_SIDE / ratio : MOCK_LONGEST_SIDE);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    const { width, height } = canvas;
+
+    // Background: the base image when editing, otherwise a gradient seeded by the prompt.
+    const hue = hashString(prompt) % 360;
+    if (base) {
+        ctx.drawImage(base, 0, 0, width, height);
+        if (maskImage) {
+            const mask = await loadImage(maskImage);
+            ctx.globalAlpha = 0.5;
+            ctx.drawImage(mask, 0, 0, width, height);
+            ctx.globalAlpha = 1;
+        }
+        ctx.fillStyle = `hsla(${hue}, 70%, 20%, 0.55)`;
+        ctx.fillRect(0, 0, width, height);
+    } else {
+        const gradient = ctx.createLinearGradient(0, 0, width, height);
+        gradient.addColorStop(0, `hsl(${hue}, 65%, 18%)`);
+        gradient.addColorStop(1, `hsl(${(hue + 90) % 360}, 65%, 35%)`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    const padding = Math.round(width * 0.05);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.font = `bold ${Math.round(height * 0.05)}px sans-serif`;
+    ctx.textBaseline = 'top';
+    ctx.fillText('MOCK IMAGE', padding, padding);
+
+    // Reference thumbnails along the bottom edge
+    const references = styleImage ? [...characterImages, styleImage] : characterImages;
+    const thumbSize = Math.round(height * 0.16);
+    let thumbX = padding;
+    for (const reference of references) {
+        if (thumbX + thumbSize > width - padding) break;
+        try {
+            const thumb = await loadImage(reference);
+            ctx.drawImage(thumb, thumbX, height - padding - thumbSize, thumbSize, thumbSize);
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+            ctx.strokeRect(thumbX, height - padding - thumbSize, thumbSize, thumbSize);
+        } catch (error) {
+            console.warn(error);
+        }
+        thumbX += thumbSize + padding / 2;
+    }
+
+    // Prompt echo, clipped to the space between the title and the thumbnails
+    const fontSize = Math.max(12, Math.round(height * 0.03));
+    ctx.font = `${fontSize}px monospace`;
+    const lineHeight = fontSize * 1.3;
+    const textTop = padding + height * 0.09;
+    const textBottom = height - padding - (references.length > 0 ? thumbSize + padding / 2 : 0);
+    const maxLines = Math.max(1, Math.floor((textBottom - textTop) / lineHeight));
+    const lines = wrapText(ctx, prompt, width - padding * 2);
+    lines.slice(0, maxLines).forEach((line, i) => {
+        const isLastVisible = i === maxLines - 1 && lines.length > maxLines;
+        ctx.fillText(isLastVisible ? `${line} …` : line, padding, textTop + i * lineHeight);
+    });
+
+    return canvas.toDataURL('image/png');
+};
+
+// A "[mock-error:quota]" style marker anywhere in the prompt makes the mock fail with that error code
+const MOCK_ERROR_PATTERN = /\[mock-error:(\w+)\]/;
+
+const throwSimulatedError = (prompt: string) => {
+    const code = prompt.match(MOCK_ERROR_PATTERN)?.[1];
+    if (!code || !(GENERATION_ERROR_CODES as readonly string[]).includes(code)) return;
+    throw new GenerationError(code as GenerationErrorCode, `Simulated ${code} error from the mock provider.`, {
+        safetyCategories: code === 'safetyBlocked' ? ['HARASSMENT'] : [],
+        retryAfterMs: code === 'quota' ? 30_000 : null,
+    });
+};
+
+/**
+ * Offline provider that renders a deterministic placeholder echoing the prompt
+ * and reference images, so the generate/edit flows can be exercised without an API key.
+ */
+export const createMockProvider = (latencyMs: number = MOCK_LATENCY_MS): ImageProvider => {
+    const generateImage = async (params: GenerateImageParams): Promise<GenerationResult> => {
+        await sleep(latencyMs, params.signal);
+        throwSimulatedError(params.prompt);
+        const references = params.characterImages.length + (params.styleImage ? 1 : 0);
+        return {
+            images: [await renderPlaceholder(params)],
+            text: `Mock ${params.baseImage ? 'edit' : 'image'} rendered offline with ${references} reference image(s).`,
+            finishReason: 'STOP',
+            safetyRatings: [],
+        };
+    };
+
+    return { name: 'mock', generateImage };
+};
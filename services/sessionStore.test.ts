@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { isSessionEmpty } from './sessionStore';
+import type { SessionState } from './sessionStore';
+
+const png = { base64: 'iVBORw0KGgo=', mimeType: 'image/png' };
+
+const blank: SessionState = {
+  generate: {
+    sceneDescription: '',
+    artisticStyle: 'photorealistic',
+    lightingStyle: 'natural morning light',
+    cameraPerspective: 'wide shot',
+    aspectRatio: '16:9',
+    numberOfImages: 1,
+    characters: [{ id: 1, name: 'homme', image: null }, { id: 2, name: 'femme', image: null }],
+    objects: [],
+    locationImage: null,
+    styleImage: null,
+    promptOverride: null,
+    activeTemplateId: null,
+    activeTemplate: null,
+    outputs: [],
+  },
+  edit: { instruction: '', baseImage: null, maskImage: null, characters: [], objects: [], outputs: [] },
+};
+
+describe('isSessionEmpty', () => {
+  it('ignores the default start-up state, including changed dropdowns', () => {
+    expect(isSessionEmpty(blank)).toBe(true);
+    expect(isSessionEmpty({ ...blank, generate: { ...blank.generate, artisticStyle: 'cinematic' } })).toBe(true);
+  });
+
+  it.each([
+    ['a scene description', { ...blank, generate: { ...blank.generate, sceneDescription: 'A duel' } }],
+    ['a character image', { ...blank, generate: { ...blank.generate, characters: [{ id: 1, name: 'homme', image: png }] } }],
+    ['a style image', { ...blank, generate: { ...blank.generate, styleImage: png } }],
+    ['an edit base image', { ...blank, edit: { ...blank.edit, baseImage: png } }],
+    ['an edit instruction', { ...blank, edit: { ...blank.edit, instruction: 'Add rain' } }],
+  ])('keeps a session with %s', (_label, session) => {
+    expect(isSessionEmpty(session as SessionState)).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import type { Character, GeneratedOutput, ImageFile } from '../types';
+import type { ProjectState } from './projectFile';
+import { STORES, deleteRecord, getRecord, putRecord } from './db';
+
+const SESSION_ID = 'current';
+// Bumped when the saved shape changes; older snapshots are discarded rather than migrated
+const SESSION_VERSION = 1;
+export const AUTOSAVE_DELAY_MS = 1500;
+
+export interface EditSessionState {
+  instruction: string;
+  baseImage: ImageFile | null;
+  baseHistoryId?: string | null; // history item the base image came from; missing in older sessions
+  maskImage: ImageFile | null;
+  characters: Character[];
+  objects: Character[];
+  outputs: GeneratedOutput[];
+}
+
+export interface SessionState {
+  generate: ProjectState;
+  edit: EditSessionState;
+}
+
+export interface SessionSnapshot extends SessionState {
+  id: typeof SESSION_ID;
+  version: number;
+  savedAt: string;
+}
+
+const hasElementContent = (elements: Character[]): boolean =>
+  elements.some(element => element.image !== null || (element.references?.length ?? 0) > 0);
+
+/** True when a session holds nothing worth offering to restore: no images, text or outputs. */
+export const isSessionEmpty = ({ generate, edit }: SessionState): boolean =>
+  generate.sceneDescription.trim() === ''
+  && generate.promptOverride === null
+  && generate.locationImage === null
+  && generate.styleImage === null
+  && generate.outputs.length === 0
+  && !hasElementContent(generate.characters)
+  && !hasElementContent(generate.objects)
+  && edit.instruction.trim() === ''
+  && edit.baseImage === null
+  && edit.outputs.length === 0
+  && !hasElementContent(edit.characters)
+  && !hasElementContent(edit.objects);
+
+export const saveSession = (state: SessionState): Promise<void> =>
+  putRecord<SessionSnapshot>(STORES.session, {
+    ...state,
+    id: SESSION_ID,
+    version: SESSION_VERSION,
+    savedAt: new Date().toISOString(),
+  });
+
+/** Returns the last autosaved session, or null when there is none worth restoring. */
+export const loadSession = async (): Promise<SessionSnapshot | null> => {
+  const snapshot = await getRecord<SessionSnapshot>(STORES.session, SESSION_ID);
+  if (!snapshot || snapshot.version !== SESSION_VERSION || isSessionEmpty(snapshot)) {
+    return null;
+  }
+  return snapshot;
+};
+
+export const clearSession = (): Promise<void> => deleteRecord(STORES.session, SESSION_ID);
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords } from './textDiff';
+
+describe('diffWords', () => {
+  it('returns a single equal segment for identical text', () => {
+    expect(diffWords('a cinematic scene', 'a cinematic scene')).toEqual([
+      { type: 'equal', text: 'a cinematic scene' },
+    ]);
+  });
+
+  it('marks replaced words as removed then added', () => {
+    expect(diffWords('The lighting is soft.', 'The lighting is harsh.')).toEqual([
+      { type: 'equal', text: 'The lighting is ' },
+      { type: 'removed', text: 'soft.' },
+      { type: 'added', text: 'harsh.' },
+    ]);
+  });
+
+  it('handles pure insertions and deletions', () => {
+    expect(diffWords('a scene', 'a dark scene')).toEqual([
+      { type: 'equal', text: 'a ' },
+      { type: 'added', text: 'dark ' },
+      { type: 'equal', text: 'scene' },
+    ]);
+    expect(diffWords('a dark scene', '')).toEqual([{ type: 'removed', text: 'a dark scene' }]);
+  });
+
+  it('reconstructs both inputs from the segments', () => {
+    const before = 'Generate a cinematic image in a watercolor style. Use a wide shot.';
+    const after = 'Generate a moody image in an oil painting style. Use a wide shot with fog.';
+    const segments = diffWords(before, after);
+    expect(segments.filter(s => s.type !== 'added').map(s => s.text).join('')).toBe(before);
+    expect(segments.filter(s => s.type !== 'removed').map(s => s.text).join('')).toBe(after);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { canRedo, canUndo, createUndoHistory, recordChange, redo, undo } from './undoHistory';
+
+interface State {
+  description: string;
+  style: string;
+  elements: string[];
+}
+
+const initial: State = { description: '', style: 'cinematic', elements: [] };
+
+describe('undoHistory', () => {
+  it('steps back and forward through recorded changes', () => {
+    let history = createUndoHistory(initial);
+    history = recordChange(history, { ...initial, style: 'anime' }, { now: 0 });
+    history = recordChange(history, { ...history.present, elements: ['sword'] }, { now: 10_000 });
+
+    history = undo(history);
+    expect(history.present).toEqual({ ...initial, style: 'anime' });
+    history = undo(history);
+    expect(history.present).toBe(initial);
+    expect(canUndo(history)).toBe(false);
+
+    history = redo(redo(history));
+    expect(history.present.elements).toEqual(['sword']);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('ignores snapshots that are shallowly equal to the present', () => {
+    const history = createUndoHistory(initial);
+    expect(recordChange(history, { ...initial })).toBe(history);
+  });
+
+  it('clears the redo stack on a new change', () => {
+    let history = recordChange(createUndoHistory(initial), { ...initial, style: 'anime' }, { now: 0 });
+    history = undo(history);
+    history = recordChange(history, { ...initial, style: 'noir' }, { now: 5000 });
+    expect(canRedo(history)).toBe(false);
+    expect(history.past).toEqual([initial]);
+  });
+
+  it('merges quick edits to the same text field into one step', () => {
+    let history = createUndoHistory(initial);
+    history = recordChange(history, { ...initial, description: 'A' }, { now: 0 });
+    history = recordChange(history, { ...history.present, description: 'A d' }, { now: 300 });
+    history = recordChange(history, { ...history.present, description: 'A duel' }, { now: 600 });
+
+    expect(history.past).toHaveLength(1);
+    expect(undo(history).present.description).toBe('');
+  });
+
+  it('starts a new step after a pause or a different field', () => {
+    let history = createUndoHistory(initial);
+    history = recordChange(history, { ...initial, description: 'A' }, { now: 0 });
+    history = recordChange(history, { ...history.present, description: 'A duel' }, { now: 5000 });
+    history = recordChange(history, { ...history.present, style: 'anime' }, { now: 5100 });
+    expect(history.past).toHaveLength(3);
+  });
+
+  it('keeps at most `limit` steps', () => {
+    let history = createUndoHistory(initial);
+    for (let i = 1; i <= 5; i++) {
+      history = recordChange(history, { ...initial, elements: [String(i)] }, { now: i * 10_000, limit: 3 });
+    }
+    expect(history.past.map(state => state.elements)).toEqual([['2'], ['3'], ['4']]);
+  });
+});
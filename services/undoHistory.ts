@@ -0,0 +1,87 @@
+/**
+ * Snapshot-based undo/redo. Each entry is a complete copy of the tracked state; values are
+ * never mutated, so consecutive snapshots share everything that did not change.
+ */
+export interface UndoHistory<T extends object> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Key of the last recorded change, so bursts of typing in one field become a single step
+  lastMergeKey: string | null;
+  lastChangeAt: number;
+}
+
+export interface RecordOptions {
+  now?: number;
+  limit?: number;
+  mergeWindowMs?: number;
+}
+
+export const DEFAULT_UNDO_LIMIT = 100;
+export const DEFAULT_MERGE_WINDOW_MS = 1000;
+
+export const createUndoHistory = <T extends object>(present: T): UndoHistory<T> => ({
+  past: [],
+  present,
+  future: [],
+  lastMergeKey: null,
+  lastChangeAt: 0,
+});
+
+const changedKeys = <T extends object>(a: T, b: T): (keyof T)[] =>
+  (Object.keys({ ...a, ...b }) as (keyof T)[]).filter(key => !Object.is(a[key], b[key]));
+
+// Only edits to a single text field are merged; any other change is its own step
+const mergeKeyFor = <T extends object>(previous: T, next: T): string | null => {
+  const keys = changedKeys(previous, next);
+  return keys.length === 1 && typeof next[keys[0]] === 'string' ? String(keys[0]) : null;
+};
+
+/** Records `next` as the new present, unless it is shallowly equal to the current one. */
+export const recordChange = <T extends object>(
+  history: UndoHistory<T>,
+  next: T,
+  { now = Date.now(), limit = DEFAULT_UNDO_LIMIT, mergeWindowMs = DEFAULT_MERGE_WINDOW_MS }: RecordOptions = {}
+): UndoHistory<T> => {
+  if (changedKeys(history.present, next).length === 0) return history;
+
+  const mergeKey = mergeKeyFor(history.present, next);
+  const merges = mergeKey !== null
+    && mergeKey === history.lastMergeKey
+    && now - history.lastChangeAt <= mergeWindowMs
+    && history.past.length > 0;
+
+  return {
+    past: merges ? history.past : [...history.past, history.present].slice(-limit),
+    present: next,
+    future: [],
+    lastMergeKey: mergeKey,
+    lastChangeAt: now,
+  };
+};
+
+export const canUndo = <T extends object>(history: UndoHistory<T>): boolean => history.past.length > 0;
+
+export const canRedo = <T extends object>(history: UndoHistory<T>): boolean => history.future.length > 0;
+
+export const undo = <T extends object>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (!canUndo(history)) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastMergeKey: null,
+    lastChangeAt: 0,
+  };
+};
+
+export const redo = <T extends object>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (!canRedo(history)) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastMergeKey: null,
+    lastChangeAt: 0,
+  };
+};
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { virtualGridWindow } from './virtualGrid';
+
+const base = { itemCount: 300, columns: 3, rowHeight: 100, viewportHeight: 400, overscanRows: 1 };
+
+describe('virtualGridWindow', () => {
+  it('renders the visible rows plus overscan with spacers for the rest', () => {
+    expect(virtualGridWindow({ ...base, scrollTop: 1000 })).toEqual({
+      startIndex: 27,
+      endIndex: 45,
+      paddingTop: 900,
+      paddingBottom: 8500,
+    });
+  });
+
+  it('clamps at both ends of the list', () => {
+    expect(virtualGridWindow({ ...base, scrollTop: 0 }).startIndex).toBe(0);
+    const end = virtualGridWindow({ ...base, scrollTop: 9600 });
+    expect(end.endIndex).toBe(300);
+    expect(end.paddingBottom).toBe(0);
+  });
+
+  it('renders everything until the grid has been measured', () => {
+    expect(virtualGridWindow({ ...base, rowHeight: 0, scrollTop: 0 })).toEqual({ startIndex: 0, endIndex: 300, paddingTop: 0, paddingBottom: 0 });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Row windowing for long grids: only rows near the viewport are rendered, with spacers keeping
+ * the scroll height of the full list.
+ */
+
+export interface VirtualGridInput {
+  itemCount: number;
+  columns: number;
+  rowHeight: number; // including the gap below the row
+  scrollTop: number;
+  viewportHeight: number;
+  overscanRows?: number; // rendered beyond each edge so fast scrolling shows no blank rows
+}
+
+export interface VirtualGridWindow {
+  startIndex: number; // first item to render
+  endIndex: number; // one past the last item to render
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+export const DEFAULT_OVERSCAN_ROWS = 2;
+
+export const virtualGridWindow = ({
+  itemCount,
+  columns,
+  rowHeight,
+  scrollTop,
+  viewportHeight,
+  overscanRows = DEFAULT_OVERSCAN_ROWS,
+}: VirtualGridInput): VirtualGridWindow => {
+  const cols = Math.max(1, columns);
+  const rowCount = Math.ceil(itemCount / cols);
+  // Before the grid has been measured, render everything rather than nothing
+  if (rowHeight <= 0 || viewportHeight <= 0) {
+    return { startIndex: 0, endIndex: itemCount, paddingTop: 0, paddingBottom: 0 };
+  }
+  const firstRow = Math.max(0, Math.floor(scrollTop / rowHeight) - overscanRows);
+  const lastRow = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscanRows);
+  const startRow = Math.min(firstRow, lastRow);
+  return {
+    startIndex: startRow * cols,
+    endIndex: Math.min(itemCount, lastRow * cols),
+    paddingTop: startRow * rowHeight,
+    paddingBottom: Math.max(0, rowCount - lastRow) * rowHeight,
+  };
+};
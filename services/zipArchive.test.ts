@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from './zipArchive';
+
+const encoder = new TextEncoder();
+
+// Reads the central directory back, as an unzip tool would
+const listEntries = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  expect(offset + view.getUint32(end + 12, true)).toBe(end);
+  const entries: { name: string; crc: number; data: Uint8Array }[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    entries.push({ name, crc, data: zip.subarray(dataStart, dataStart + size) });
+    offset += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores every entry with its name, checksum and contents', () => {
+    const zip = createZip([
+      { name: 'images/001-duel.png', data: new Uint8Array([1, 2, 3]) },
+      { name: 'مشهد.txt', data: encoder.encode('hello') },
+    ], new Date(2026, 9, 19, 12, 30, 10));
+
+    const entries = listEntries(zip);
+    expect(entries.map(e => e.name)).toEqual(['images/001-duel.png', 'مشهد.txt']);
+    expect([...entries[0].data]).toEqual([1, 2, 3]);
+    expect(new TextDecoder().decode(entries[1].data)).toBe('hello');
+    expect(entries[1].crc).toBe(crc32(encoder.encode('hello')));
+  });
+
+  it('rejects duplicate names', () => {
+    const data = new Uint8Array([0]);
+    expect(() => createZip([{ name: 'a.png', data }, { name: 'a.png', data }])).toThrow();
+  });
+});
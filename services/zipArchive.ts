@@ -0,0 +1,110 @@
+/**
+ * A minimal ZIP writer so exports can be bundled in the browser without a server or a library.
+ * Entries are stored uncompressed: the images are already compressed, and the text files are small.
+ */
+
+export interface ZipEntry {
+  name: string; // path inside the archive, '/'-separated
+  data: Uint8Array;
+  modified?: Date;
+}
+
+// ZIP without the Zip64 extension is limited to 65535 entries and 4 GB offsets
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+const UTF8_NAME_FLAG = 0x0800;
+const VERSION = 20;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS timestamps have two-second resolution and start in 1980
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = (entries: ZipEntry[], now: Date = new Date()): Uint8Array => {
+  if (entries.length > MAX_ENTRIES) throw new Error(`A ZIP archive can hold at most ${MAX_ENTRIES} files.`);
+  const encoder = new TextEncoder();
+  const names = entries.map(entry => encoder.encode(entry.name));
+  if (new Set(entries.map(entry => entry.name)).size !== entries.length) throw new Error('ZIP entry names must be unique.');
+
+  const localSize = entries.reduce((sum, entry, i) => sum + 30 + names[i].length + entry.data.length, 0);
+  const centralSize = names.reduce((sum, name) => sum + 46 + name.length, 0);
+  if (localSize + centralSize > MAX_SIZE) throw new Error('The export is too large for a ZIP archive.');
+
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+  const writeU16 = (value: number) => { view.setUint16(offset, value, true); offset += 2; };
+  const writeU32 = (value: number) => { view.setUint32(offset, value, true); offset += 4; };
+  const writeBytes = (bytes: Uint8Array) => { output.set(bytes, offset); offset += bytes.length; };
+
+  const headers = entries.map((entry, i) => {
+    const modified = entry.modified && !Number.isNaN(entry.modified.getTime()) ? entry.modified : now;
+    const stamp = dosDateTime(modified);
+    const header = { offset, crc: crc32(entry.data), ...stamp };
+    writeU32(0x04034b50);
+    writeU16(VERSION);
+    writeU16(UTF8_NAME_FLAG);
+    writeU16(0); // stored
+    writeU16(header.time);
+    writeU16(header.date);
+    writeU32(header.crc);
+    writeU32(entry.data.length);
+    writeU32(entry.data.length);
+    writeU16(names[i].length);
+    writeU16(0);
+    writeBytes(names[i]);
+    writeBytes(entry.data);
+    return header;
+  });
+
+  const centralOffset = offset;
+  entries.forEach((entry, i) => {
+    const header = headers[i];
+    writeU32(0x02014b50);
+    writeU16(VERSION);
+    writeU16(VERSION);
+    writeU16(UTF8_NAME_FLAG);
+    writeU16(0);
+    writeU16(header.time);
+    writeU16(header.date);
+    writeU32(header.crc);
+    writeU32(entry.data.length);
+    writeU32(entry.data.length);
+    writeU16(names[i].length);
+    writeU16(0); // extra field
+    writeU16(0); // comment
+    writeU16(0); // disk
+    writeU16(0); // internal attributes
+    writeU32(0); // external attributes
+    writeU32(header.offset);
+    writeBytes(names[i]);
+  });
+
+  const centralLength = offset - centralOffset;
+  writeU32(0x06054b50);
+  writeU16(0);
+  writeU16(0);
+  writeU16(entries.length);
+  writeU16(entries.length);
+  writeU32(centralLength);
+  writeU32(centralOffset);
+  writeU16(0);
+  return output;
+};
@@ -3,10 +3,13 @@ export const translations = {
     header: {
       title: "BOUKIANE",
       history: "History",
+      library: "Characters",
+      queue: "Queue",
       toggleLang: "AR",
     },
     tabs: {
       generate: "Generate Scene",
+      storyboard: "Storyboard",
       edit: "Edit Scene",
     },
     common: {
@@ -43,12 +46,39 @@ export const translations = {
       prompt: {
         title: "Generated Cinematic Prompt",
         placeholder: "Prompt will be generated here...",
+        overridden: "Edited",
+        showDiff: "Compare with Auto",
+        hideDiff: "Hide Comparison",
+        resetToAuto: "Reset to Auto",
+        diffRemoved: "Only in auto prompt",
+        diffAdded: "Your edits",
       },
       buttons: {
         generating: "Generating...",
         generate: "Generate Scene",
+        enqueue: "Queue Another",
       },
     },
+    storyboard: {
+      title: "Storyboard Scenes",
+      projectStyle: "Project Style",
+      scene: "Scene",
+      addScene: "+ Add Scene",
+      generateAll: "Generate All",
+      generate: "Generate Scene",
+      generateAgain: "Generate Another Take",
+      lighting: "Lighting",
+      camera: "Camera Perspective",
+      moveUp: "Move scene up",
+      moveDown: "Move scene down",
+      remove: "Remove scene",
+      pin: "Pin",
+      unpin: "Pinned",
+      pinHint: "Pin the take to keep for this scene.",
+      pinnedHint: "The pinned take is this scene's chosen output.",
+      pinnedCount: "{pinned} of {total} scenes pinned",
+      empty: "Add a scene to start your storyboard. All scenes share the cast on the left.",
+    },
     edit: {
       baseImage: {
         title: "Image to Edit",
@@ -60,6 +90,35 @@ export const translations = {
       addObjects: {
         title: "Objects to Add",
       },
+      mask: {
+        paint: "Paint Mask",
+        edit: "Edit Mask",
+        remove: "Remove Mask",
+        hint: "Optional: paint a mask to limit the edit to one region.",
+        active: "Only the masked region will be changed.",
+      },
+      mode: {
+        label: "Edit mode",
+        edit: "Edit",
+        outpaint: "Extend Canvas",
+      },
+      outpaint: {
+        amount: "Extend By",
+        percent: "+{percent}% on each chosen side",
+        toRatio: "Until {ratio}",
+        size: "{from} → {to} pixels",
+        noDirection: "Choose at least one side to extend.",
+        noGrowth: "This ratio needs the image to grow on a side that is not chosen.",
+        directions: {
+          top: "Extend upwards",
+          right: "Extend to the right",
+          bottom: "Extend downwards",
+          left: "Extend to the left",
+        },
+        instructionTitle: "New Area (Optional)",
+        instructionPlaceholder: "e.g., A busy harbour continues to the left, with fishing boats at the pier.",
+        jobLabel: "Extend canvas",
+      },
       instruction: {
         title: "Edit Instruction",
         placeholder: "e.g., Add the character to the scene, standing by the window.",
@@ -67,41 +126,324 @@ export const translations = {
       buttons: {
         applying: "Applying Edit...",
         apply: "Apply Edit",
+        outpaint: "Extend Image",
+        enqueue: "Queue Another Edit",
       },
     },
     output: {
       loadingMessage: "Generating your cinematic scene(s)...",
       loadingSubtext: "This can take a moment. The AI is crafting your vision.",
       errorTitle: "Generation Failed",
+      commentary: "Model notes",
+      finishReason: "The model stopped early ({reason}), so the image may not match the prompt.",
       emptyTitle: "Your Masterpiece Awaits",
       emptySubtitle: "Configure your scene and click \"Generate Scene\" to bring your story to life.",
       downloadOriginal: "Download Original",
-      download2k: "Download 2K",
-      download4k: "Download 4K",
+      exportAs: "Export As...",
+      retrying: "Temporary error, retrying in {seconds}s (attempt {attempt} of {max})...",
+      partialFailure: "{failed} of {total} images failed:",
     },
     history: {
       title: "Generation History",
       close: "Close history panel",
       useForEdit: "Use for Edit",
+      restoreSettings: "Restore Settings",
       delete: "Delete image from history",
+      commentary: "Model notes: {text}",
+      compareWith: "Compare with This",
+      comparePick: "Pick a second image to compare with.",
       empty: "Your generated images will appear here.",
-      limitNote: "History is limited to the last 10 generations to save browser space.",
+      limitNote: "{count} full-resolution images stored in this browser ({size}). The oldest are removed when the limit or storage quota is reached.",
+      keepLast: "Keep at most",
       clear: "Clear All History",
       clearConfirm: "Are you sure you want to clear the entire generation history? This action cannot be undone.",
+      search: "Search prompts, notes and tags...",
+      favorite: "Add to favorites",
+      unfavorite: "Remove from favorites",
+      filters: {
+        title: "Filters",
+        from: "From",
+        to: "To",
+        tab: "Tab",
+        style: "Style",
+        aspectRatio: "Aspect Ratio",
+        tag: "Tag",
+        any: "Any",
+        favoritesOnly: "Favorites only",
+        reset: "Reset filters",
+        showing: "Showing {shown} of {total}",
+        noMatches: "No images match your search.",
+      },
+      select: {
+        start: "Select",
+        done: "Done",
+        count: "{count} selected",
+        all: "Select all",
+        none: "Clear",
+        export: "Download ZIP",
+        delete: "Delete",
+        deleteConfirm: "Delete {count} image(s) from history? This action cannot be undone.",
+      },
+      tags: {
+        edit: "Tags",
+        placeholder: "Comma-separated tags, e.g. hero, night",
+        save: "Save",
+      },
+    },
+    library: {
+      title: "Character Library",
+      close: "Close character library",
+      newCharacter: "New Character",
+      search: "Search by name or tag...",
+      description: "Description",
+      descriptionPlaceholder: "e.g., a tall man in his 40s with a grey beard and a worn leather jacket",
+      tags: "Tags",
+      tagsPlaceholder: "hero, season 1, villain",
+      references: "Reference Images",
+      reference: "Reference",
+      addReference: "Add reference",
+      view: "View",
+      views: {
+        front: "Front",
+        side: "Side",
+        back: "Back",
+        expressions: "Expression Sheet",
+        other: "Other",
+      },
+      save: "Save Character",
+      edit: "Edit",
+      addToScene: "Add to Scene",
+      referenceCount: "{count} reference image(s)",
+      dragHint: "Drag a character onto a character or object list, or use \"Add to Scene\".",
+      deleteConfirm: "Delete \"{name}\" from the library?",
+      empty: "Your library is empty. Add a character to reuse it across sessions.",
+      noMatches: "No characters match your search.",
+      linkedReferences: "Extra reference images from the character library",
+    },
+    templates: {
+      title: "Prompt Templates",
+      manage: "Manage",
+      active: "Template",
+      builtIn: "Built-in (auto)",
+      newTemplate: "New Template",
+      description: "Templates control how the Generate and Storyboard prompts are written. The active template is used until you pick another.",
+      body: "Template",
+      syntaxHint: "Insert values with {{variable}}. Wrap optional parts in {{#if variable}}...{{else}}...{{/if}}; they only appear when the variable has a value. Hover a variable to see what it contains.",
+      variables: {
+        style: "The chosen artistic style",
+        scene: "The scene description",
+        characters: "Names of the characters that have an image",
+        objects: "Names of the objects that have an image",
+        lighting: "The lighting style",
+        camera: "The camera perspective",
+        aspect: "The aspect ratio",
+        location: "Set when a scene location image is uploaded",
+        styleImage: "Set when a style reference image is uploaded",
+        references: "Descriptions and extra views from the character library",
+        transparency: "The fill-transparent-padding instruction, set when any reference image is present",
+      },
+      preview: "Preview with the current settings",
+      valid: "The template is valid for the current settings.",
+      edit: "Edit",
+      save: "Save Template",
+      deleteConfirm: "Delete the template \"{name}\"?",
+      import: "Import",
+      export: "Export",
+      importFailed: "This file is not a valid prompt template export.",
+      invalid: "The active template \"{name}\" cannot be used yet:",
+      errors: {
+        unclosedIf: "{tag} is never closed with {{/if}}.",
+        unexpectedElse: "{tag} has no matching {{#if}}.",
+        unexpectedEndIf: "{tag} has no matching {{#if}}.",
+        malformedTag: "{tag} is not a valid tag.",
+        unknownVariable: "Unknown variable \"{name}\".",
+        missingVariable: "\"{name}\" is empty for this scene; fill it in or wrap it in {{#if {name}}}.",
+      },
+    },
+    queue: {
+      title: "Generation Queue",
+      close: "Close generation queue",
+      empty: "No jobs yet. Generate and edit requests appear here while they run.",
+      concurrency: "Run at most this many jobs at once",
+      clearFinished: "Clear Finished",
+      cancelJob: "Cancel job",
+      retrying: "Temporary error, retrying (attempt {attempt})...",
+      status: {
+        pending: "Pending",
+        running: "Running",
+        done: "Done",
+        failed: "Failed",
+        cancelled: "Cancelled",
+      },
+      kind: {
+        generate: "Generate",
+        edit: "Edit",
+      },
+    },
+    errors: {
+      safetyBlocked: {
+        title: "Blocked by safety filters",
+        hint: "The prompt or one of the reference images was refused by the model's safety filters. Rephrase the highlighted prompt or replace the references, then try again.",
+        categories: "Flagged for: {categories}.",
+        promptHint: "This prompt was blocked by the safety filters. Remove or soften the flagged content and try again.",
+      },
+      noImage: {
+        title: "No image returned",
+        hint: "The model answered without an image. Try again, or describe the scene more visually.",
+      },
+      quota: {
+        title: "Rate limit reached",
+        hint: "The API quota for your key is used up for the moment.",
+        retryIn: "You can try again in {seconds}s.",
+        retryNow: "You can try again now.",
+      },
+      network: {
+        title: "Connection problem",
+        hint: "The image service could not be reached, even after retrying. Check your internet connection and try again.",
+      },
+      invalidInput: {
+        title: "Request rejected",
+        hint: "The service could not process the request. Check that the images are PNG, JPEG or WebP files of a reasonable size and that the prompt is not empty.",
+      },
+      auth: {
+        title: "API key problem",
+        hint: "The API key is missing, invalid or not allowed to use this model. Set GEMINI_API_KEY in .env.local and restart the app.",
+      },
+      categories: {
+        HARASSMENT: "harassment",
+        HATE_SPEECH: "hate speech",
+        SEXUALLY_EXPLICIT: "sexually explicit content",
+        DANGEROUS_CONTENT: "dangerous content",
+        CIVIC_INTEGRITY: "civic integrity",
+      },
+    },
+    project: {
+      export: "Save Project",
+      import: "Open Project",
+      exportHint: "Download the Generate tab setup, images and outputs as a .boukiane file",
+      importHint: "Restore a Generate tab setup from a .boukiane file",
+      importFailed: "This project file could not be opened.",
+      replaceConfirm: "Opening this project replaces the current Generate tab setup and outputs. Continue?",
+      templateMissing: "The prompt template this project used is not available here, so the built-in prompt is used instead.",
+    },
+    session: {
+      found: "Your previous session from {time} was saved automatically.",
+      restore: "Restore previous session",
+      discard: "Discard",
+    },
+    undo: {
+      indicator: "Undo history",
+      undoHint: "Undo the last change to the scene inputs (Ctrl+Z)",
+      redoHint: "Redo (Ctrl+Shift+Z)",
+    },
+    backgroundRemover: {
+      title: "Remove Background",
+      auto: "Auto",
+      fill: "Magic Fill",
+      key: "Colour Key",
+      erase: "Erase",
+      restore: "Restore",
+      tolerance: "Tolerance",
+      hints: {
+        fill: "Click the background to remove everything connected to it in a similar colour.",
+        key: "Click a colour to remove it everywhere in the image.",
+        erase: "Paint over anything else that should become transparent.",
+        restore: "Paint to bring back parts of the subject that were removed.",
+      },
+    },
+    comparison: {
+      title: "Compare Images",
+      compare: "Compare",
+      mode: "Comparison mode",
+      modes: {
+        sideBySide: "Side by Side",
+        swipe: "Swipe",
+        difference: "Difference",
+      },
+      swipePosition: "Swipe position",
+      changed: "{percent}% of pixels changed",
+      differenceFailed: "Could not compute the difference for these images.",
+      original: "Original",
+      result: "Result",
+    },
+    lineage: {
+      title: "Edit Lineage",
+      hint: "Every version from this editing session. Pick one to continue from it; new edits branch from there.",
+      continue: "Continue Editing",
+      current: "Current base image",
+      jump: "Continue editing from this version",
+    },
+    export: {
+      downloadAll: "Download All as ZIP",
+      downloadSelected: "Download {count} as ZIP",
+      clearSelection: "Clear selection",
+      selectOutput: "Include in ZIP download",
+      failed: "Sorry, the ZIP download could not be created. Please try again.",
+    },
+    metadata: {
+      import: "Import from Image",
+      importHint: "Restore the Generate tab settings saved in an image downloaded from this app",
+      notFound: "This image has no generation settings embedded. Only PNG and JPEG files downloaded from this app can be imported.",
+    },
+    exportDialog: {
+      title: "Export Image",
+      source: "Original: {width} × {height} px",
+      format: "Format",
+      quality: "Quality",
+      size: "Size",
+      sizeModes: {
+        original: "Original",
+        longest: "Longest Side",
+        exact: "Exact Size",
+        print: "Print",
+      },
+      width: "Width in pixels",
+      height: "Height in pixels",
+      lockRatio: "Keep proportions",
+      paper: "Paper size",
+      dpi: "Print resolution",
+      sharpen: "Sharpen after resizing",
+      summary: "Output: {width} × {height} px",
+      printSummary: "Output: {width} × {height} px, {inchesWide} × {inchesHigh} in at {dpi} DPI",
+      tooLarge: "This size is larger than browsers can render. Choose a smaller size or resolution.",
+      formatUnsupported: "Your browser cannot save {format} images, so a PNG was downloaded instead.",
+      failed: "Sorry, there was an error exporting the image. Please try again.",
     },
     imageUploader: {
       remove: "Remove image",
       edit: "Edit image aspect ratio",
+      removeBackground: "Remove background",
       upload: "Click to upload",
     },
     imageEditor: {
-      title: "Edit Image Aspect Ratio",
+      title: "Edit Image",
       preview: "Preview",
       targetRatio: "Target Aspect Ratio",
       description: "The image will be centered on a transparent background to match the target aspect ratio.",
+      freeRatio: "Free",
+      crop: "Crop",
+      pad: "Pad to Ratio",
+      rotateLeft: "Rotate Left",
+      rotateRight: "Rotate Right",
+      flipHorizontal: "Flip Horizontal",
+      flipVertical: "Flip Vertical",
+      straighten: "Straighten",
+      reset: "Reset",
+      cropHint: "Drag the box to move it, or its corners to resize. Double-click the slider to reset straightening.",
       applying: "Applying...",
       apply: "Apply Changes",
     },
+    maskEditor: {
+      title: "Paint Edit Mask",
+      brush: "Brush",
+      eraser: "Eraser",
+      brushSize: "Brush Size",
+      invert: "Invert",
+      clear: "Clear",
+      undo: "Undo",
+      description: "Paint over the area the AI should change. Everything outside the mask is kept as is.",
+      apply: "Use Mask",
+    },
     modal: {
       close: "Close image viewer",
       download: "Download image",
@@ -195,10 +537,13 @@ export const translations = {
     header: {
       title: "مولد المشاهد السينمائية بالذكاء الاصطناعي",
       history: "السجل",
+      library: "الشخصيات",
+      queue: "الطابور",
       toggleLang: "EN",
     },
     tabs: {
       generate: "إنشاء مشهد",
+      storyboard: "لوحة القصة",
       edit: "تعديل مشهد",
     },
     common: {
@@ -235,12 +580,39 @@ export const translations = {
       prompt: {
         title: "الأمر النصي السينمائي المُنشأ",
         placeholder: "سيتم إنشاء الأمر النصي هنا...",
+        overridden: "معدّل",
+        showDiff: "مقارنة مع التلقائي",
+        hideDiff: "إخفاء المقارنة",
+        resetToAuto: "إعادة إلى التلقائي",
+        diffRemoved: "في الأمر التلقائي فقط",
+        diffAdded: "تعديلاتك",
       },
       buttons: {
         generating: "جاري الإنشاء...",
         generate: "إنشاء المشهد",
+        enqueue: "إضافة أخرى إلى الطابور",
       },
     },
+    storyboard: {
+      title: "مشاهد لوحة القصة",
+      projectStyle: "أسلوب المشروع",
+      scene: "مشهد",
+      addScene: "+ إضافة مشهد",
+      generateAll: "إنشاء الكل",
+      generate: "إنشاء المشهد",
+      generateAgain: "إنشاء لقطة أخرى",
+      lighting: "الإضاءة",
+      camera: "زاوية الكاميرا",
+      moveUp: "تحريك المشهد للأعلى",
+      moveDown: "تحريك المشهد للأسفل",
+      remove: "إزالة المشهد",
+      pin: "تثبيت",
+      unpin: "مثبتة",
+      pinHint: "ثبّت اللقطة التي تريد الاحتفاظ بها لهذا المشهد.",
+      pinnedHint: "اللقطة المثبتة هي النتيجة المختارة لهذا المشهد.",
+      pinnedCount: "{pinned} من {total} مشاهد مثبتة",
+      empty: "أضف مشهداً لبدء لوحة القصة. تشترك جميع المشاهد في الشخصيات على اليسار.",
+    },
     edit: {
       baseImage: {
         title: "الصورة المراد تعديلها",
@@ -252,6 +624,35 @@ export const translations = {
       addObjects: {
         title: "إضافة عناصر",
       },
+      mask: {
+        paint: "رسم قناع",
+        edit: "تعديل القناع",
+        remove: "إزالة القناع",
+        hint: "اختياري: ارسم قناعاً لحصر التعديل في منطقة واحدة.",
+        active: "سيتم تغيير المنطقة المحددة بالقناع فقط.",
+      },
+      mode: {
+        label: "وضع التعديل",
+        edit: "تعديل",
+        outpaint: "توسيع اللوحة",
+      },
+      outpaint: {
+        amount: "التوسيع بمقدار",
+        percent: "+{percent}% لكل جانب مختار",
+        toRatio: "حتى {ratio}",
+        size: "{from} ← {to} بكسل",
+        noDirection: "اختر جانبًا واحدًا على الأقل لتوسيعه.",
+        noGrowth: "تتطلب هذه النسبة توسيع الصورة من جانب غير مختار.",
+        directions: {
+          top: "التوسيع للأعلى",
+          right: "التوسيع لليمين",
+          bottom: "التوسيع للأسفل",
+          left: "التوسيع لليسار",
+        },
+        instructionTitle: "المنطقة الجديدة (اختياري)",
+        instructionPlaceholder: "مثال: يمتد ميناء مزدحم إلى اليسار مع قوارب صيد عند الرصيف.",
+        jobLabel: "توسيع اللوحة",
+      },
       instruction: {
         title: "تعليمات التعديل",
         placeholder: "مثال: أضف الشخصية إلى المشهد، واقفة بجانب النافذة.",
@@ -259,41 +660,324 @@ export const translations = {
       buttons: {
         applying: "جاري تطبيق التعديل...",
         apply: "تطبيق التعديل",
+        outpaint: "توسيع الصورة",
+        enqueue: "إضافة تعديل آخر إلى الطابور",
       },
     },
     output: {
       loadingMessage: "جاري إنشاء مشاهدك السينمائية...",
       loadingSubtext: "قد يستغرق هذا بعض الوقت. الذكاء الاصطناعي يصنع رؤيتك.",
       errorTitle: "فشل الإنشاء",
+      commentary: "ملاحظات النموذج",
+      finishReason: "توقف النموذج مبكرًا ({reason})، لذا قد لا تطابق الصورة الوصف.",
       emptyTitle: "تحفتك الفنية في انتظارك",
       emptySubtitle: "قم بإعداد مشهدك وانقر على \"إنشاء المشهد\" لإحياء قصتك.",
       downloadOriginal: "تنزيل النسخة الأصلية",
-      download2k: "تنزيل بجودة 2K",
-      download4k: "تنزيل بجودة 4K",
+      exportAs: "تصدير بصيغة...",
+      retrying: "خطأ مؤقت، إعادة المحاولة خلال {seconds} ث (المحاولة {attempt} من {max})...",
+      partialFailure: "فشلت {failed} من أصل {total} صور:",
     },
     history: {
       title: "سجل الإنشاء",
       close: "إغلاق لوحة السجل",
       useForEdit: "استخدام للتعديل",
+      restoreSettings: "استعادة الإعدادات",
       delete: "حذف الصورة من السجل",
+      commentary: "ملاحظات النموذج: {text}",
+      compareWith: "مقارنة مع هذه",
+      comparePick: "اختر صورة ثانية للمقارنة معها.",
       empty: "ستظهر صورك التي تم إنشاؤها هنا.",
-      limitNote: "يقتصر السجل على آخر 10 عمليات إنشاء لتوفير مساحة المتصفح.",
+      limitNote: "{count} صورة بدقة كاملة محفوظة في هذا المتصفح ({size}). تتم إزالة الأقدم عند بلوغ الحد أو حصة التخزين.",
+      keepLast: "الاحتفاظ بحد أقصى",
       clear: "مسح كل السجل",
       clearConfirm: "هل أنت متأكد من أنك تريد مسح سجل الإنشاء بالكامل؟ لا يمكن التراجع عن هذا الإجراء.",
+      search: "ابحث في الأوصاف والملاحظات والوسوم...",
+      favorite: "إضافة إلى المفضلة",
+      unfavorite: "إزالة من المفضلة",
+      filters: {
+        title: "عوامل التصفية",
+        from: "من",
+        to: "إلى",
+        tab: "التبويب",
+        style: "النمط",
+        aspectRatio: "نسبة العرض إلى الارتفاع",
+        tag: "الوسم",
+        any: "الكل",
+        favoritesOnly: "المفضلة فقط",
+        reset: "إعادة تعيين عوامل التصفية",
+        showing: "عرض {shown} من {total}",
+        noMatches: "لا توجد صور تطابق بحثك.",
+      },
+      select: {
+        start: "تحديد",
+        done: "تم",
+        count: "تم تحديد {count}",
+        all: "تحديد الكل",
+        none: "مسح",
+        export: "تنزيل ZIP",
+        delete: "حذف",
+        deleteConfirm: "حذف {count} صورة من السجل؟ لا يمكن التراجع عن هذا الإجراء.",
+      },
+      tags: {
+        edit: "الوسوم",
+        placeholder: "وسوم مفصولة بفواصل، مثل: بطل، ليل",
+        save: "حفظ",
+      },
+    },
+    library: {
+      title: "مكتبة الشخصيات",
+      close: "إغلاق مكتبة الشخصيات",
+      newCharacter: "شخصية جديدة",
+      search: "ابحث بالاسم أو الوسم...",
+      description: "الوصف",
+      descriptionPlaceholder: "مثال: رجل طويل في الأربعينيات بلحية رمادية وسترة جلدية بالية",
+      tags: "الوسوم",
+      tagsPlaceholder: "بطل، الموسم 1، شرير",
+      references: "الصور المرجعية",
+      reference: "مرجع",
+      addReference: "إضافة مرجع",
+      view: "الزاوية",
+      views: {
+        front: "أمامي",
+        side: "جانبي",
+        back: "خلفي",
+        expressions: "ورقة التعابير",
+        other: "أخرى",
+      },
+      save: "حفظ الشخصية",
+      edit: "تعديل",
+      addToScene: "إضافة إلى المشهد",
+      referenceCount: "{count} صورة مرجعية",
+      dragHint: "اسحب شخصية إلى قائمة الشخصيات أو العناصر، أو استخدم \"إضافة إلى المشهد\".",
+      deleteConfirm: "حذف \"{name}\" من المكتبة؟",
+      empty: "مكتبتك فارغة. أضف شخصية لإعادة استخدامها عبر الجلسات.",
+      noMatches: "لا توجد شخصيات تطابق بحثك.",
+      linkedReferences: "صور مرجعية إضافية من مكتبة الشخصيات",
+    },
+    templates: {
+      title: "قوالب الأوامر النصية",
+      manage: "إدارة",
+      active: "القالب",
+      builtIn: "المدمج (تلقائي)",
+      newTemplate: "قالب جديد",
+      description: "تتحكم القوالب في صياغة أوامر تبويبي الإنشاء ولوحة القصة. يُستخدم القالب النشط حتى تختار غيره.",
+      body: "القالب",
+      syntaxHint: "أدرج القيم باستخدام {{variable}}. ضع الأجزاء الاختيارية داخل {{#if variable}}...{{else}}...{{/if}}؛ فلا تظهر إلا إذا كان للمتغير قيمة. مرّر المؤشر فوق المتغير لمعرفة محتواه.",
+      variables: {
+        style: "النمط الفني المختار",
+        scene: "وصف المشهد",
+        characters: "أسماء الشخصيات التي لها صورة",
+        objects: "أسماء العناصر التي لها صورة",
+        lighting: "نمط الإضاءة",
+        camera: "منظور الكاميرا",
+        aspect: "نسبة العرض إلى الارتفاع",
+        location: "يُعيَّن عند رفع صورة موقع المشهد",
+        styleImage: "يُعيَّن عند رفع صورة مرجعية للنمط",
+        references: "الأوصاف والزوايا الإضافية من مكتبة الشخصيات",
+        transparency: "تعليمة ملء الحواف الشفافة، تُعيَّن عند وجود أي صورة مرجعية",
+      },
+      preview: "معاينة بالإعدادات الحالية",
+      valid: "القالب صالح للإعدادات الحالية.",
+      edit: "تعديل",
+      save: "حفظ القالب",
+      deleteConfirm: "حذف القالب \"{name}\"؟",
+      import: "استيراد",
+      export: "تصدير",
+      importFailed: "هذا الملف ليس تصديرًا صالحًا لقوالب الأوامر.",
+      invalid: "لا يمكن استخدام القالب النشط \"{name}\" بعد:",
+      errors: {
+        unclosedIf: "{tag} لم يُغلق بـ {{/if}}.",
+        unexpectedElse: "{tag} بلا {{#if}} مطابق.",
+        unexpectedEndIf: "{tag} بلا {{#if}} مطابق.",
+        malformedTag: "{tag} ليس وسمًا صالحًا.",
+        unknownVariable: "متغير غير معروف \"{name}\".",
+        missingVariable: "\"{name}\" فارغ في هذا المشهد؛ املأه أو ضعه داخل {{#if {name}}}.",
+      },
+    },
+    queue: {
+      title: "طابور الإنشاء",
+      close: "إغلاق طابور الإنشاء",
+      empty: "لا توجد مهام بعد. تظهر طلبات الإنشاء والتعديل هنا أثناء تنفيذها.",
+      concurrency: "الحد الأقصى للمهام المتزامنة",
+      clearFinished: "مسح المنتهية",
+      cancelJob: "إلغاء المهمة",
+      retrying: "خطأ مؤقت، إعادة المحاولة (المحاولة {attempt})...",
+      status: {
+        pending: "في الانتظار",
+        running: "قيد التنفيذ",
+        done: "مكتملة",
+        failed: "فشلت",
+        cancelled: "أُلغيت",
+      },
+      kind: {
+        generate: "إنشاء",
+        edit: "تعديل",
+      },
+    },
+    errors: {
+      safetyBlocked: {
+        title: "حُظر بواسطة فلاتر الأمان",
+        hint: "رفضت فلاتر الأمان في النموذج الأمر النصي أو إحدى الصور المرجعية. أعد صياغة الأمر المميَّز أو استبدل الصور المرجعية ثم حاول مجددًا.",
+        categories: "سبب الحظر: {categories}.",
+        promptHint: "حُظر هذا الأمر النصي بواسطة فلاتر الأمان. احذف المحتوى المُشار إليه أو خفّفه ثم حاول مجددًا.",
+      },
+      noImage: {
+        title: "لم تُرجَع أي صورة",
+        hint: "أجاب النموذج دون صورة. حاول مجددًا أو صِف المشهد بشكل بصري أكثر.",
+      },
+      quota: {
+        title: "تم بلوغ حد الاستخدام",
+        hint: "نفدت حصة واجهة البرمجة لمفتاحك مؤقتًا.",
+        retryIn: "يمكنك المحاولة مجددًا بعد {seconds} ث.",
+        retryNow: "يمكنك المحاولة مجددًا الآن.",
+      },
+      network: {
+        title: "مشكلة في الاتصال",
+        hint: "تعذّر الوصول إلى خدمة الصور حتى بعد إعادة المحاولة. تحقق من اتصالك بالإنترنت ثم حاول مجددًا.",
+      },
+      invalidInput: {
+        title: "رُفض الطلب",
+        hint: "تعذّر على الخدمة معالجة الطلب. تأكد من أن الصور بصيغة PNG أو JPEG أو WebP وبحجم معقول وأن الأمر النصي غير فارغ.",
+      },
+      auth: {
+        title: "مشكلة في مفتاح الواجهة",
+        hint: "مفتاح الواجهة مفقود أو غير صالح أو غير مسموح له باستخدام هذا النموذج. عيّن GEMINI_API_KEY في ملف .env.local ثم أعد تشغيل التطبيق.",
+      },
+      categories: {
+        HARASSMENT: "التحرش",
+        HATE_SPEECH: "خطاب الكراهية",
+        SEXUALLY_EXPLICIT: "محتوى جنسي صريح",
+        DANGEROUS_CONTENT: "محتوى خطير",
+        CIVIC_INTEGRITY: "النزاهة المدنية",
+      },
+    },
+    project: {
+      export: "حفظ المشروع",
+      import: "فتح مشروع",
+      exportHint: "تنزيل إعدادات تبويب الإنشاء وصوره ونتائجه كملف .boukiane",
+      importHint: "استعادة إعدادات تبويب الإنشاء من ملف .boukiane",
+      importFailed: "تعذر فتح ملف المشروع هذا.",
+      replaceConfirm: "سيؤدي فتح هذا المشروع إلى استبدال إعدادات تبويب الإنشاء ونتائجه الحالية. هل تريد المتابعة؟",
+      templateMissing: "قالب الموجّه الذي استخدمه هذا المشروع غير متوفر هنا، لذا سيُستخدم الموجّه المدمج بدلاً منه.",
+    },
+    session: {
+      found: "تم حفظ جلستك السابقة من {time} تلقائيًا.",
+      restore: "استعادة الجلسة السابقة",
+      discard: "تجاهل",
+    },
+    undo: {
+      indicator: "سجل التراجع",
+      undoHint: "التراجع عن آخر تغيير في مدخلات المشهد (Ctrl+Z)",
+      redoHint: "إعادة (Ctrl+Shift+Z)",
+    },
+    backgroundRemover: {
+      title: "إزالة الخلفية",
+      auto: "تلقائي",
+      fill: "تعبئة ذكية",
+      key: "مفتاح اللون",
+      erase: "مسح",
+      restore: "استعادة",
+      tolerance: "درجة التسامح",
+      hints: {
+        fill: "انقر على الخلفية لإزالة كل ما يتصل بها بلون مشابه.",
+        key: "انقر على لون لإزالته من الصورة بأكملها.",
+        erase: "ارسم فوق أي جزء آخر يجب أن يصبح شفافًا.",
+        restore: "ارسم لاستعادة أجزاء من العنصر تمت إزالتها.",
+      },
+    },
+    comparison: {
+      title: "مقارنة الصور",
+      compare: "مقارنة",
+      mode: "وضع المقارنة",
+      modes: {
+        sideBySide: "جنبًا إلى جنب",
+        swipe: "سحب",
+        difference: "الفرق",
+      },
+      swipePosition: "موضع السحب",
+      changed: "تغيّر {percent}% من البكسلات",
+      differenceFailed: "تعذّر حساب الفرق بين هاتين الصورتين.",
+      original: "الأصل",
+      result: "النتيجة",
+    },
+    lineage: {
+      title: "سلسلة التعديلات",
+      hint: "كل النسخ من جلسة التعديل هذه. اختر واحدة للمتابعة منها؛ تتفرع التعديلات الجديدة من هناك.",
+      continue: "متابعة التعديل",
+      current: "الصورة الأساسية الحالية",
+      jump: "متابعة التعديل من هذه النسخة",
+    },
+    export: {
+      downloadAll: "تنزيل الكل كملف ZIP",
+      downloadSelected: "تنزيل {count} كملف ZIP",
+      clearSelection: "مسح التحديد",
+      selectOutput: "تضمين في تنزيل ZIP",
+      failed: "عذرًا، تعذر إنشاء ملف ZIP. يرجى المحاولة مرة أخرى.",
+    },
+    metadata: {
+      import: "استيراد من صورة",
+      importHint: "استعادة إعدادات تبويب الإنشاء المحفوظة في صورة تم تنزيلها من هذا التطبيق",
+      notFound: "لا تحتوي هذه الصورة على إعدادات إنشاء مضمنة. يمكن استيراد ملفات PNG وJPEG التي تم تنزيلها من هذا التطبيق فقط.",
+    },
+    exportDialog: {
+      title: "تصدير الصورة",
+      source: "الأصل: {width} × {height} بكسل",
+      format: "الصيغة",
+      quality: "الجودة",
+      size: "الحجم",
+      sizeModes: {
+        original: "الأصلي",
+        longest: "الضلع الأطول",
+        exact: "حجم محدد",
+        print: "طباعة",
+      },
+      width: "العرض بالبكسل",
+      height: "الارتفاع بالبكسل",
+      lockRatio: "الحفاظ على التناسب",
+      paper: "حجم الورق",
+      dpi: "دقة الطباعة",
+      sharpen: "زيادة الحدة بعد تغيير الحجم",
+      summary: "الناتج: {width} × {height} بكسل",
+      printSummary: "الناتج: {width} × {height} بكسل، {inchesWide} × {inchesHigh} بوصة بدقة {dpi} نقطة في البوصة",
+      tooLarge: "هذا الحجم أكبر مما تستطيع المتصفحات معالجته. اختر حجمًا أو دقة أصغر.",
+      formatUnsupported: "لا يستطيع متصفحك حفظ الصور بصيغة {format}، لذلك تم تنزيل صورة PNG بدلاً منها.",
+      failed: "عذرًا، حدث خطأ أثناء تصدير الصورة. يرجى المحاولة مرة أخرى.",
     },
     imageUploader: {
       remove: "إزالة الصورة",
       edit: "تعديل نسبة أبعاد الصورة",
+      removeBackground: "إزالة الخلفية",
       upload: "انقر للرفع",
     },
     imageEditor: {
-      title: "تعديل نسبة أبعاد الصورة",
+      title: "تعديل الصورة",
       preview: "معاينة",
       targetRatio: "نسبة الأبعاد المستهدفة",
       description: "سيتم توسيط الصورة على خلفية شفافة لتتناسب مع نسبة الأبعاد المستهدفة.",
+      freeRatio: "حر",
+      crop: "قص",
+      pad: "إضافة حواف للنسبة",
+      rotateLeft: "تدوير لليسار",
+      rotateRight: "تدوير لليمين",
+      flipHorizontal: "قلب أفقي",
+      flipVertical: "قلب عمودي",
+      straighten: "تقويم",
+      reset: "إعادة تعيين",
+      cropHint: "اسحب الإطار لتحريكه، أو زواياه لتغيير حجمه. انقر مرتين على شريط التمرير لإلغاء التقويم.",
       applying: "جاري التطبيق...",
       apply: "تطبيق التغييرات",
     },
+    maskEditor: {
+      title: "رسم قناع التعديل",
+      brush: "فرشاة",
+      eraser: "ممحاة",
+      brushSize: "حجم الفرشاة",
+      invert: "عكس",
+      clear: "مسح",
+      undo: "تراجع",
+      description: "لوّن المنطقة التي يجب على الذكاء الاصطناعي تغييرها. كل ما هو خارج القناع يبقى كما هو.",
+      apply: "استخدام القناع",
+    },
     modal: {
       close: "إغلاق عارض الصور",
       download: "تنزيل الصورة",
@@ -4,10 +4,31 @@ export interface ImageFile {
   mimeType: string;
 }
 
+export type ReferenceView = 'front' | 'side' | 'back' | 'expressions' | 'other';
+
+export interface CharacterReference {
+  id: string;
+  view: ReferenceView;
+  image: ImageFile;
+}
+
 export interface Character {
   id: number;
   name: string;
   image: ImageFile | null;
+  // Set when the element was added from the character library
+  libraryId?: string;
+  description?: string;
+  references?: CharacterReference[]; // extra views sent alongside `image`
+}
+
+export interface LibraryCharacter {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  references: CharacterReference[];
+  updatedAt: string;
 }
 
 export interface SelectOption {
@@ -15,9 +36,83 @@ export interface SelectOption {
   label: string;
 }
 
+// Input images in history settings are stored separately and referenced by content hash
+export interface ElementSnapshot {
+  name: string;
+  imageRef: string | null;
+  libraryId?: string;
+  description?: string;
+  references?: { id: string; view: ReferenceView; imageRef: string }[];
+}
+
+export interface GenerateTabSettings {
+  tab: 'generate';
+  sceneDescription: string;
+  artisticStyle: string;
+  lightingStyle: string;
+  cameraPerspective: string;
+  aspectRatio: string;
+  characters: ElementSnapshot[];
+  objects: ElementSnapshot[];
+  locationImageRef: string | null;
+  styleImageRef: string | null;
+  promptOverride?: string | null; // hand-edited prompt, when it replaced the auto-generated one
+}
+
+export interface EditTabSettings {
+  tab: 'edit';
+  instruction: string;
+  baseImageRef: string | null;
+  maskImageRef: string | null;
+  characters: ElementSnapshot[];
+  objects: ElementSnapshot[];
+}
+
+export type GenerationSettings = GenerateTabSettings | EditTabSettings;
+
 export interface HistoryItem {
   id: string;
-  image: ImageFile;
+  thumbnail: ImageFile;
   prompt: string;
   createdAt: string;
+  byteSize: number; // approximate size of the full-resolution original
+  settings?: GenerationSettings; // missing on entries migrated from older versions
+  commentary?: string; // text the model returned alongside the image
+  parentId?: string; // history item an edit was made from, linking edit chains
+  tags?: string[];
+  favorite?: boolean; // starred entries are evicted last
+}
+
+// One image in an output panel, with what the model said about it
+export interface GeneratedOutput {
+  image: string; // data URL
+  commentary: string;
+  finishReason: string | null;
+  historyId?: string; // set once the image has been saved to history
+}
+
+export interface HistoryStorageConfig {
+  maxItems: number;
+  maxBytes: number;
+  // Evict the oldest entries once the origin uses more than this share of its storage quota
+  quotaUsageRatio: number;
+}
+
+export type AppTab = 'generate' | 'edit' | 'storyboard';
+
+export interface StoryboardScene {
+  id: string;
+  description: string;
+  locationImage: ImageFile | null;
+  lightingStyle: string;
+  cameraPerspective: string;
+  outputs: string[];
+  pinnedOutputIndex: number | null;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string; // uses {{variable}} placeholders and {{#if variable}}...{{else}}...{{/if}} blocks
+  updatedAt: string;
 }